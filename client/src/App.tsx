@@ -12,13 +12,38 @@ import ContactManager from "@/pages/contact-manager";
 import SingleContact from "@/pages/single-contact";
 import BulkContacts from "@/pages/bulk-contacts";
 import EmailTemplates from "@/pages/email-templates";
+import TemplateLibrary from "@/pages/template-library";
+import ScheduledJobs from "@/pages/scheduled-jobs";
 import WorkflowReport from "@/pages/workflow-report";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth-page";
+import Users from "@/pages/users";
+import Audit from "@/pages/audit";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { canViewPage } from "@shared/permissions";
+import type { ComponentType } from "react";
+
+// Pages the signed-in user's role does not allow fall through to the 404 page.
+function RoleRoute({ path, component: Component }: { path: string; component: ComponentType }) {
+  const { user } = useAuth();
+  return <Route path={path}>{canViewPage(user?.role, path) ? <Component /> : <NotFound />}</Route>;
+}
 // Import Bigin Pages
 import BiginTest from "@/pages/bigin-test";
 import BulkContactsBigin from "@/pages/bulk-contacts-bigin";
+import EmailStatsBigin from "@/pages/email-stats-bigin";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <div className="loading-spinner">Loading...</div>;
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <div className="flex min-h-screen bg-background">
       <Sidebar />
@@ -27,17 +52,22 @@ function Router() {
         <main className="p-8">
           <Switch>
             <Route path="/" component={Dashboard} />
-            <Route path="/accounts" component={Accounts} />
-            <Route path="/email-stats" component={EmailStats} />
-            <Route path="/contact-manager" component={ContactManager} />
-            <Route path="/single-contact" component={SingleContact} />
-            <Route path="/bulk-contacts" component={BulkContacts} />
-            <Route path="/email-templates" component={EmailTemplates} />
-            <Route path="/workflow-report" component={WorkflowReport} />
+            <RoleRoute path="/accounts" component={Accounts} />
+            <RoleRoute path="/email-stats" component={EmailStats} />
+            <RoleRoute path="/contact-manager" component={ContactManager} />
+            <RoleRoute path="/single-contact" component={SingleContact} />
+            <RoleRoute path="/bulk-contacts" component={BulkContacts} />
+            <RoleRoute path="/scheduled-jobs" component={ScheduledJobs} />
+            <RoleRoute path="/email-templates" component={EmailTemplates} />
+            <RoleRoute path="/template-library" component={TemplateLibrary} />
+            <RoleRoute path="/workflow-report" component={WorkflowReport} />
+            <RoleRoute path="/users" component={Users} />
+            <RoleRoute path="/audit" component={Audit} />
             
             {/* Bigin Routes */}
-            <Route path="/bigin-test" component={BiginTest} />
-            <Route path="/bulk-contacts-bigin" component={BulkContactsBigin} />
+            <RoleRoute path="/bigin-test" component={BiginTest} />
+            <RoleRoute path="/bulk-contacts-bigin" component={BulkContactsBigin} />
+            <RoleRoute path="/email-stats-bigin" component={EmailStatsBigin} />
             
             <Route component={NotFound} />
           </Switch>
@@ -52,7 +82,9 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <Router />
+        <AuthProvider>
+          <Router />
+        </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
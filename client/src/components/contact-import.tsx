@@ -0,0 +1,140 @@
+import { useMemo, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { readSpreadsheet, type ImportedFile } from "@/lib/spreadsheet";
+import { isImportableField, mapImportRows } from "@shared/contactImport";
+import type { ZohoField } from "@shared/zohoFields";
+import { FileSpreadsheet, Loader2, X } from "lucide-react";
+
+interface ContactImportProps {
+  fields: ZohoField[];
+  value: ImportedFile | null;
+  onChange: (value: ImportedFile | null) => void;
+  // Fields the form sets for every contact, so they need no column
+  presetFields: string[];
+}
+
+const SKIP_COLUMN = "__skip__";
+const MAX_SHOWN_ERRORS = 10;
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Maps a column to the field whose api_name or label matches its header, e.g. "Last Name" -> Last_Name.
+function guessMapping(columns: string[], fields: ZohoField[]) {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  columns.forEach(column => {
+    const key = normalize(column);
+    const field = fields.find(f => !used.has(f.api_name) && (normalize(f.api_name) === key || normalize(f.display_label) === key));
+    if (field) {
+      mapping[column] = field.api_name;
+      used.add(field.api_name);
+    }
+  });
+  return mapping;
+}
+
+// Upload a CSV or XLSX file and map its columns to Contacts fields; each row becomes a contact.
+export default function ContactImport({ fields, value, onChange, presetFields }: ContactImportProps) {
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const importableFields = useMemo(
+    () => fields.filter(isImportableField).sort((a, b) => a.display_label.localeCompare(b.display_label)),
+    [fields],
+  );
+
+  const { errors } = useMemo(
+    () => value ? mapImportRows(fields, value, presetFields) : { errors: [] },
+    [fields, value, presetFields],
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const { columns, rows } = await readSpreadsheet(file);
+      onChange({ fileName: file.name, columns, rows, mapping: guessMapping(columns, importableFields) });
+    } catch (error: any) {
+      setReadError(error.message);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const setColumnField = (column: string, apiName: string) => {
+    if (!value) return;
+    const { [column]: _previous, ...mapping } = value.mapping;
+    onChange({ ...value, mapping: apiName === SKIP_COLUMN ? mapping : { ...mapping, [column]: apiName } });
+  };
+
+  if (!value) {
+    return (
+      <div className="space-y-2">
+        <Label>Contacts file (CSV or XLSX, first row is the header)</Label>
+        <div className="flex items-center gap-2">
+          <Input type="file" accept=".csv,.xlsx,text/csv" onChange={e => handleFile(e.target.files?.[0])} disabled={isReading} />
+          {isReading && <Loader2 className="w-4 h-4 animate-spin" />}
+        </div>
+        {readError && <p className="text-sm text-destructive">{readError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <FileSpreadsheet className="w-4 h-4" /> {value.fileName}: {value.rows.length} rows
+        </span>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+          <X className="w-3 h-3 mr-1" /> Remove
+        </Button>
+      </div>
+
+      <div className="border rounded-md max-h-72 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              <th className="p-2 text-left font-medium">Column</th>
+              <th className="p-2 text-left font-medium">First row</th>
+              <th className="p-2 text-left font-medium">Zoho field</th>
+            </tr>
+          </thead>
+          <tbody>
+            {value.columns.map((column, index) => (
+              <tr key={column} className="border-t">
+                <td className="p-2">{column}</td>
+                <td className="p-2 text-xs text-muted-foreground max-w-[140px] truncate">{value.rows[0]?.[index]}</td>
+                <td className="p-2">
+                  <Select value={value.mapping[column] ?? SKIP_COLUMN} onValueChange={apiName => setColumnField(column, apiName)}>
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_COLUMN}>Don't import</SelectItem>
+                      {importableFields.map(field => (
+                        <SelectItem key={field.api_name} value={field.api_name}>
+                          {field.display_label}{field.required ? ' *' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-destructive space-y-1">
+          {errors.slice(0, MAX_SHOWN_ERRORS).map((error, index) => (
+            <li key={index}>{error.line ? `Line ${error.line}: ` : ''}{error.message}</li>
+          ))}
+          {errors.length > MAX_SHOWN_ERRORS && <li>...and {errors.length - MAX_SHOWN_ERRORS} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+}
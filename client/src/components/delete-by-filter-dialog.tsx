@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { apiRequest } from "@/lib/queryClient";
+import { previewContactDelete, startContactDelete, cancelContactDelete } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { ContactSearchParams } from "@shared/contactSearch";
+import type { ContactDeleteCriteria, ContactDeleteJob, ContactDeletePreview } from "@shared/contactDelete";
+import { Loader2, Trash2, Download, Square, AlertTriangle } from "lucide-react";
+
+const POLL_INTERVAL_MS = 2000;
+
+interface DeleteByFilterDialogProps {
+  accountId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The Contact Manager's current search filters
+  filters: ContactSearchParams;
+  ownerName?: string;
+  // Called once a delete job stops running
+  onFinished: () => void;
+}
+
+// Deletes every CRM contact matching the current filters: a dry-run preview first,
+// then a background job on the server with per-batch results and a report.
+export default function DeleteByFilterDialog({ accountId, open, onOpenChange, filters, ownerName, onFinished }: DeleteByFilterDialogProps) {
+  const { toast } = useToast();
+  const [emailBounced, setEmailBounced] = useState(false);
+  const [bulkJobId, setBulkJobId] = useState<string>("none");
+  const [preview, setPreview] = useState<ContactDeletePreview | null>(null);
+  const [deleteJobId, setDeleteJobId] = useState<string | null>(null);
+
+  const criteria: ContactDeleteCriteria = {
+    query: filters.query,
+    owner: filters.owner,
+    created_from: filters.created_from,
+    created_to: filters.created_to,
+    email_bounced: emailBounced || undefined,
+    job_id: bulkJobId === "none" ? undefined : bulkJobId,
+  };
+
+  // A preview only holds for the criteria it was made with
+  useEffect(() => setPreview(null), [accountId, filters, emailBounced, bulkJobId]);
+
+  const { data: bulkJobs = [] } = useQuery<any[]>({
+    queryKey: ['/api/accounts', accountId, 'jobs', 'crm'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/accounts/${accountId}/jobs?platform=crm`);
+      return response.json();
+    },
+    enabled: open && !!accountId,
+  });
+
+  const { data: deleteJob } = useQuery<ContactDeleteJob>({
+    queryKey: ['/api/zoho/contacts', accountId, 'delete-jobs', deleteJobId],
+    enabled: !!deleteJobId,
+    refetchInterval: (query) => query.state.data?.status === 'running' ? POLL_INTERVAL_MS : false,
+  });
+  const isRunning = !deleteJob || deleteJob.status === 'running';
+
+  useEffect(() => {
+    if (deleteJob && deleteJob.status !== 'running') onFinished();
+  }, [deleteJob?.status]);
+
+  const previewMutation = useMutation({
+    mutationFn: () => previewContactDelete(accountId, criteria),
+    onSuccess: setPreview,
+    onError: (error: Error) => toast({ title: "Preview failed", description: error.message, variant: "destructive" }),
+  });
+
+  const startMutation = useMutation({
+    mutationFn: () => startContactDelete(accountId, criteria, preview!.count),
+    onSuccess: (job) => setDeleteJobId(job.id),
+    onError: (error: Error) => toast({ title: "Delete failed to start", description: error.message, variant: "destructive" }),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelContactDelete(accountId, deleteJobId!),
+    onError: (error: Error) => toast({ title: "Cancel failed", description: error.message, variant: "destructive" }),
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && deleteJobId && isRunning) return;
+    if (!next) {
+      setPreview(null);
+      setDeleteJobId(null);
+      previewMutation.reset();
+    }
+    onOpenChange(next);
+  };
+
+  const filterSummary = [
+    filters.query && `search "${filters.query}"`,
+    filters.owner && `owner ${ownerName || filters.owner}`,
+    filters.created_from && `created from ${filters.created_from}`,
+    filters.created_to && `created until ${filters.created_to}`,
+  ].filter(Boolean).join(', ');
+
+  const done = deleteJob ? deleteJob.deleted + deleteJob.failed : 0;
+  const percent = deleteJob && deleteJob.total > 0 ? (done / deleteJob.total) * 100 : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Delete Contacts by Filter</DialogTitle>
+          <DialogDescription>
+            Contacts must match every filter. {filterSummary ? `Current filters: ${filterSummary}.` : 'No search filters are set.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!deleteJobId ? (
+          <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="delete-bounced" checked={emailBounced} onCheckedChange={(checked: boolean) => setEmailBounced(checked)} />
+              <Label htmlFor="delete-bounced">Bounced emails (from email statistics)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Label>Created by bulk job:</Label>
+              <Select value={bulkJobId} onValueChange={setBulkJobId}>
+                <SelectTrigger className="w-80"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Any</SelectItem>
+                  {bulkJobs.map((job: any) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {new Date(job.createdAt).toLocaleString()} — {job.subject || 'No subject'} ({job.total})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Kept on screen: a missing Zoho scope needs the account re-authorized before any preview works */}
+            {previewMutation.error && !preview && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{previewMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+
+            {preview && (
+              <>
+                {preview.truncated && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>Too many contacts match to list them all. Narrow the filters before deleting.</AlertDescription>
+                  </Alert>
+                )}
+                <p className="text-sm font-medium">
+                  {preview.count} contacts will be deleted{preview.count > preview.sample.length ? `; the first ${preview.sample.length} are shown` : ''}.
+                </p>
+                {preview.sample.length > 0 && (
+                  <div className="border rounded-md flex-1 overflow-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted sticky top-0">
+                        <tr>
+                          <th className="p-2 text-left font-medium">Full Name</th>
+                          <th className="p-2 text-left font-medium">Email</th>
+                          <th className="p-2 text-left font-medium">Contact ID</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.sample.map(contact => (
+                          <tr key={contact.id} className="border-t">
+                            <td className="p-2">{contact.Full_Name || 'N/A'}</td>
+                            <td className="p-2">{contact.Email || 'N/A'}</td>
+                            <td className="p-2 font-mono text-xs">{contact.id}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending}>
+                {previewMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => startMutation.mutate()}
+                disabled={!preview || preview.truncated || preview.count === 0 || startMutation.isPending}
+              >
+                {startMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+                Delete {preview ? preview.count : ''} contacts
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {deleteJob ? `${deleteJob.deleted} deleted, ${deleteJob.failed} failed of ${deleteJob.total}` : 'Starting...'}
+                </span>
+                {deleteJob && <Badge variant={deleteJob.status === 'failed' ? 'destructive' : 'outline'}>{deleteJob.status}</Badge>}
+              </div>
+              <Progress value={percent} className="h-2" />
+              {deleteJob?.error && <p className="text-sm text-destructive">{deleteJob.error}</p>}
+            </div>
+
+            <div className="border rounded-md flex-1 overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    <th className="p-3 text-left font-medium">Batch</th>
+                    <th className="p-3 text-center font-medium">Count</th>
+                    <th className="p-3 text-center font-medium">Deleted</th>
+                    <th className="p-3 text-center font-medium">Failed</th>
+                    <th className="p-3 text-left font-medium">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(deleteJob?.batches ?? []).map(batch => (
+                    <tr key={batch.number} className="border-t">
+                      <td className="p-3 font-medium">#{batch.number}</td>
+                      <td className="p-3 text-center">{batch.count}</td>
+                      <td className="p-3 text-center text-green-600">{batch.deleted}</td>
+                      <td className="p-3 text-center text-red-500">{batch.failed}</td>
+                      <td className="p-3 text-xs text-red-500 max-w-[200px] truncate" title={batch.error}>{batch.error}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              {isRunning ? (
+                <Button variant="outline" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+                  <Square className="w-3 h-3 mr-2" /> Cancel
+                </Button>
+              ) : (
+                <>
+                  <Button variant="outline" asChild>
+                    <a href={`/api/zoho/contacts/${accountId}/delete-jobs/${deleteJobId}/report`} download>
+                      <Download className="w-4 h-4 mr-2" /> Download report
+                    </a>
+                  </Button>
+                  <Button onClick={() => handleOpenChange(false)}>Close</Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
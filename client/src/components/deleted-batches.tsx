@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { restoreDeletedBatch } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { DeletedBatchSummary } from "@shared/contactArchive";
+import { Loader2, RotateCcw, Archive } from "lucide-react";
+
+interface DeletedBatchesProps {
+  accountId: string;
+}
+
+// Past contact deletions for an account, each restorable in one click. Restoring
+// re-creates the contacts from the copy archived just before they were deleted.
+export default function DeletedBatches({ accountId }: DeletedBatchesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['/api/zoho/contacts', accountId, 'deleted-batches'];
+
+  const { data: batches = [], isLoading } = useQuery<DeletedBatchSummary[]>({
+    queryKey,
+    enabled: !!accountId,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (batchId: string) => restoreDeletedBatch(accountId, batchId),
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/zoho/contacts', accountId] });
+      toast({
+        title: "Restore finished",
+        description: `${batch.restore?.restored ?? 0} contacts restored${batch.restore?.failed ? `, ${batch.restore.failed} failed` : ''}.`,
+        variant: batch.restore?.failed ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => toast({ title: "Restore failed", description: error.message, variant: "destructive" }),
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8"><Loader2 className="w-8 h-8 text-primary mx-auto animate-spin" /></div>;
+  }
+  if (batches.length === 0) {
+    return <div className="text-center py-8"><Archive className="w-12 h-12 text-muted-foreground mx-auto mb-4" /><p>No deleted contacts yet.</p></div>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-2">Deleted</th>
+            <th className="text-left p-2">By</th>
+            <th className="text-left p-2">Source</th>
+            <th className="text-center p-2">Contacts</th>
+            <th className="text-left p-2">Includes</th>
+            <th className="text-left p-2">Restore</th>
+          </tr>
+        </thead>
+        <tbody>
+          {batches.map(batch => {
+            const restoring = restoreMutation.isPending && restoreMutation.variables === batch.id;
+            const fullyRestored = !!batch.restore && batch.restore.failed === 0;
+            return (
+              <tr key={batch.id} className="border-b align-top">
+                <td className="p-2 whitespace-nowrap">{new Date(batch.deletedAt).toLocaleString()}</td>
+                <td className="p-2">{batch.deletedBy}</td>
+                <td className="p-2">
+                  <Badge variant="outline">{batch.source === 'filter' ? 'Delete by filter' : 'Selected contacts'}</Badge>
+                </td>
+                <td className="p-2 text-center">{batch.deleted}</td>
+                <td className="p-2 text-xs text-muted-foreground">
+                  {batch.sample.map(contact => contact.Full_Name || contact.Email || contact.id).join(', ')}
+                  {batch.deleted > batch.sample.length && ` and ${batch.deleted - batch.sample.length} more`}
+                </td>
+                <td className="p-2">
+                  {batch.restore && (
+                    <p className="text-xs text-muted-foreground mb-1">
+                      {batch.restore.restored} restored{batch.restore.failed > 0 && <span className="text-destructive">, {batch.restore.failed} failed</span>} on {new Date(batch.restore.restoredAt).toLocaleString()}
+                    </p>
+                  )}
+                  {!fullyRestored && (
+                    <Button size="sm" variant="outline" onClick={() => restoreMutation.mutate(batch.id)} disabled={restoreMutation.isPending}>
+                      {restoring ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                      {batch.restore ? 'Retry failed' : 'Restore'}
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
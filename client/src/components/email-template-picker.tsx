@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { getEmailTemplate, getEmailTemplates } from "@/lib/api";
+import { Eye, Loader2 } from "lucide-react";
+import { sanitizeHtml } from "@/lib/sanitizeHtml";
+
+interface EmailTemplatePickerProps {
+  accountId: string;
+  // Selected template id, or "" to write the subject and content by hand
+  value: string;
+  onChange: (templateId: string) => void;
+}
+
+const OWN_CONTENT = "__own__";
+
+// Picks a CRM email template for Contacts. Emails sent with a template are counted in the
+// template's statistics on the Email Templates page; Zoho fills in its subject and merge fields.
+export default function EmailTemplatePicker({ accountId, value, onChange }: EmailTemplatePickerProps) {
+  const { data: templates = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/zoho/email-templates', accountId, 'Contacts'],
+    queryFn: () => getEmailTemplates(accountId, 'Contacts'),
+    enabled: !!accountId,
+  });
+
+  const { data: template, isLoading: isLoadingTemplate } = useQuery<any>({
+    queryKey: ['/api/zoho/email-templates', accountId, value],
+    queryFn: () => getEmailTemplate(accountId, value),
+    enabled: !!accountId && !!value,
+  });
+
+  const listed = templates.find((t: any) => t.id === value);
+
+  return (
+    <div className="space-y-2">
+      <Label>Email Template</Label>
+      <div className="flex gap-2">
+        <Select value={value || OWN_CONTENT} onValueChange={id => onChange(id === OWN_CONTENT ? "" : id)} disabled={isLoading}>
+          <SelectTrigger className="flex-1"><SelectValue placeholder={isLoading ? "Loading..." : "Choose template"} /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={OWN_CONTENT}>None (write subject and content)</SelectItem>
+            {templates.map((t: any) => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {value && (
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button type="button" variant="outline" size="icon" disabled={isLoadingTemplate}>
+                {isLoadingTemplate ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[80vh] overflow-auto">
+              <DialogHeader><DialogTitle>{template?.name}</DialogTitle></DialogHeader>
+              <div>
+                <Label className="text-xs text-muted-foreground">Subject</Label>
+                <p className="font-medium">{template?.subject}</p>
+              </div>
+              <div className="border rounded-lg p-4 bg-white"><div dangerouslySetInnerHTML={{ __html: sanitizeHtml(template?.content) }} className="prose max-w-none" /></div>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+      {value && (
+        <p className="text-xs text-muted-foreground">
+          Subject: {listed?.subject ?? template?.subject ?? '...'} · sent {listed?.last_version_statistics?.sent ?? 0} times so far
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Eye, XCircle, History } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { JobSchedule } from "@shared/jobSchedule";
+
+export interface JobSummary {
+  id: string;
+  accountId: string;
+  platform: 'crm' | 'bigin';
+  status: 'scheduled' | 'queued' | 'processing' | 'paused' | 'stopped' | 'completed' | 'failed';
+  processed: number;
+  total: number;
+  successCount: number;
+  failCount: number;
+  error?: string;
+  subject?: string;
+  schedule?: JobSchedule;
+  // Start time of a scheduled job
+  scheduledFor?: number;
+  // When a job paused outside its sending windows or over a send quota resumes
+  resumeAt?: number;
+  waitingFor?: 'window' | 'quota';
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+interface JobHistoryProps {
+  accountId: string;
+  platform: 'crm' | 'bigin';
+  selectedJobId: string | null;
+  onSelectJob: (jobId: string | null) => void;
+}
+
+const statusColors: Record<JobSummary['status'], string> = {
+  scheduled: "bg-purple-500 hover:bg-purple-600",
+  queued: "bg-gray-500 hover:bg-gray-600",
+  processing: "bg-green-500 hover:bg-green-600",
+  paused: "bg-yellow-500 hover:bg-yellow-600",
+  stopped: "bg-orange-500 hover:bg-orange-600",
+  completed: "bg-blue-500 hover:bg-blue-600",
+  failed: "bg-red-500 hover:bg-red-600",
+};
+
+export default function JobHistory({ accountId, platform, selectedJobId, onSelectJob }: JobHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: jobs = [] } = useQuery<JobSummary[]>({
+    queryKey: ['/api/accounts', accountId, 'jobs', platform],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/accounts/${accountId}/jobs?platform=${platform}`);
+      return response.json();
+    },
+    enabled: !!accountId,
+    refetchInterval: 5000,
+  });
+
+  const handleCancel = async (jobId: string) => {
+    await apiRequest('POST', `/api/jobs/${jobId}/cancel`);
+    await queryClient.invalidateQueries({ queryKey: ['/api/accounts', accountId, 'jobs', platform] });
+    await queryClient.invalidateQueries({ queryKey: ['/api/jobs/status'] });
+    toast({ title: "Job Cancelled" });
+  };
+
+  return (
+    <div className="form-card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2"><History className="w-5 h-5" /> Job History</h3>
+        {selectedJobId && (
+          <Button variant="outline" size="sm" onClick={() => onSelectJob(null)}>Back to Current Job</Button>
+        )}
+      </div>
+      {jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No jobs have run for this account yet.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2">Created</th>
+                <th className="text-left p-2">Subject</th>
+                <th className="text-center p-2">Status</th>
+                <th className="text-center p-2">Progress</th>
+                <th className="text-center p-2">S / F</th>
+                <th className="text-right p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map((job) => (
+                <tr key={job.id} className={cn("border-b", selectedJobId === job.id && "bg-muted/50")}>
+                  <td className="p-2 whitespace-nowrap">{new Date(job.createdAt).toLocaleString()}</td>
+                  <td className="p-2 truncate max-w-[200px]" title={job.subject}>{job.subject || '-'}</td>
+                  <td className="p-2 text-center" title={job.scheduledFor && job.status === 'scheduled' ? `Starts ${new Date(job.scheduledFor).toLocaleString()}` : undefined}>
+                    <Badge className={statusColors[job.status]}>{job.status}</Badge>
+                  </td>
+                  <td className="p-2 text-center">{job.processed} / {job.total}</td>
+                  <td className="p-2 text-center">
+                    <span className="text-green-600">{job.successCount}</span> / <span className="text-red-600">{job.failCount}</span>
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap">
+                    {job.status === 'queued' || job.status === 'scheduled' ? (
+                      <Button variant="ghost" size="sm" onClick={() => handleCancel(job.id)}><XCircle className="w-4 h-4 mr-1" /> Cancel</Button>
+                    ) : (
+                      <Button variant="ghost" size="sm" onClick={() => onSelectJob(job.id)}><Eye className="w-4 h-4 mr-1" /> View</Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+import { getZohoOrg } from "@/lib/api";
+import {
+  WEEKDAYS, MAX_SENDING_WINDOWS, isValidTimeZone, nextSendingTime, parseJobSchedule, scheduledStartTime,
+  type JobSchedule, type SendingWindow,
+} from "@shared/jobSchedule";
+import { Plus, X } from "lucide-react";
+
+interface JobScheduleEditorProps {
+  accountId: string;
+  platform: 'crm' | 'bigin';
+  value: JobSchedule | null;
+  onChange: (schedule: JobSchedule | null) => void;
+}
+
+const DEFAULT_WINDOW: SendingWindow = { days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" };
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// The error parseJobSchedule would give the server, or null when the schedule is valid
+export function scheduleError(schedule: JobSchedule | null) {
+  return schedule ? parseJobSchedule(schedule).error ?? null : null;
+}
+
+interface TimeZoneSourceProps {
+  timeZone: string;
+  orgTimeZone: string | null;
+  orgError: Error | null;
+  isLoading: boolean;
+  onUseOrg: () => void;
+}
+
+// Says where the schedule's time zone came from, so a failed organization lookup does
+// not quietly leave the job on the browser's clock
+function TimeZoneSource({ timeZone, orgTimeZone, orgError, isLoading, onUseOrg }: TimeZoneSourceProps) {
+  if (isLoading) return <p className="text-xs text-muted-foreground">Reading the Zoho organization's time zone...</p>;
+  if (orgTimeZone && timeZone === orgTimeZone) {
+    return <p className="text-xs text-muted-foreground">Times are in {timeZone}, the Zoho organization's time zone.</p>;
+  }
+  if (orgTimeZone) {
+    return (
+      <p className="text-xs text-amber-600">
+        Times are in {timeZone || 'no time zone'}; the Zoho organization uses {orgTimeZone}.{' '}
+        <button type="button" className="underline" onClick={onUseOrg}>Use {orgTimeZone}</button>
+      </p>
+    );
+  }
+  return (
+    <p className="text-xs text-amber-600">
+      {orgError ? `Could not read the Zoho organization's time zone: ${orgError.message}` : "The Zoho organization has no time zone set."}{' '}
+      Times are in {timeZone || 'no time zone'}{timeZone === browserTimeZone ? ', your browser\'s time zone' : ''}; check it matches the account.
+    </p>
+  );
+}
+
+// Start time and sending windows for a bulk job, in the Zoho organization's time zone.
+export default function JobScheduleEditor({ accountId, platform, value, onChange }: JobScheduleEditorProps) {
+  const { data: org, error: orgError, isLoading: isLoadingOrg } = useQuery<any>({
+    queryKey: ['/api/zoho/org', accountId, platform],
+    queryFn: () => getZohoOrg(accountId, platform),
+    enabled: !!accountId,
+    staleTime: Infinity,
+  });
+  const orgTimeZone = org?.time_zone && isValidTimeZone(org.time_zone) ? org.time_zone : null;
+
+  // A schedule started before the organization loaded switches to its time zone
+  useEffect(() => {
+    if (value && orgTimeZone && value.timeZone === browserTimeZone && !value.startAt && orgTimeZone !== browserTimeZone) {
+      onChange({ ...value, timeZone: orgTimeZone });
+    }
+  }, [orgTimeZone, value, onChange]);
+
+  const error = scheduleError(value);
+  const summary = useMemo(() => {
+    if (!value || error) return null;
+    const start = scheduledStartTime(value) ?? Date.now();
+    const firstSend = nextSendingTime(value, start);
+    const local = (epoch: number) => new Date(epoch).toLocaleString();
+    return firstSend - Date.now() < 60000 ? 'Starts sending right away.' : `First email around ${local(firstSend)} (your time).`;
+  }, [value, error]);
+
+  if (!value) {
+    return (
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id={`schedule-${platform}`}
+          checked={false}
+          onCheckedChange={() => onChange({ timeZone: orgTimeZone || browserTimeZone, startAt: "", windows: [] })}
+        />
+        <Label htmlFor={`schedule-${platform}`}>Schedule start / sending windows</Label>
+      </div>
+    );
+  }
+
+  const windows = value.windows || [];
+  const setWindows = (next: SendingWindow[]) => onChange({ ...value, windows: next });
+  const updateWindow = (index: number, changes: Partial<SendingWindow>) =>
+    setWindows(windows.map((window, i) => i === index ? { ...window, ...changes } : window));
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days;
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="flex items-center space-x-2">
+        <Checkbox id={`schedule-${platform}`} checked onCheckedChange={() => onChange(null)} />
+        <Label htmlFor={`schedule-${platform}`}>Schedule start / sending windows</Label>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">Start at (optional)</Label>
+          <Input type="datetime-local" value={value.startAt || ""} onChange={e => onChange({ ...value, startAt: e.target.value })} />
+        </div>
+        <div>
+          <Label className="text-xs">Time zone</Label>
+          <Input value={value.timeZone} onChange={e => onChange({ ...value, timeZone: e.target.value.trim() })} placeholder="Europe/Berlin" />
+        </div>
+      </div>
+      <TimeZoneSource timeZone={value.timeZone} orgTimeZone={orgTimeZone} orgError={orgError as Error | null} isLoading={isLoadingOrg}
+        onUseOrg={() => orgTimeZone && onChange({ ...value, timeZone: orgTimeZone })} />
+
+      <div className="space-y-2">
+        <Label className="text-xs">Sending windows (none: any time)</Label>
+        {windows.map((window, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-1">
+            {WEEKDAYS.map((day, dayIndex) => (
+              <Button
+                key={day}
+                type="button"
+                size="sm"
+                variant={window.days.includes(dayIndex) ? "secondary" : "ghost"}
+                className={cn("h-7 px-2 text-xs", !window.days.includes(dayIndex) && "text-muted-foreground")}
+                onClick={() => toggleDay(index, dayIndex)}
+              >
+                {day}
+              </Button>
+            ))}
+            <Input type="time" className="h-7 w-24 text-xs" value={window.start} onChange={e => updateWindow(index, { start: e.target.value })} />
+            <span className="text-xs">–</span>
+            <Input type="time" className="h-7 w-24 text-xs" value={window.end} onChange={e => updateWindow(index, { end: e.target.value })} />
+            <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setWindows(windows.filter((_, i) => i !== index))}>
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+        {windows.length < MAX_SENDING_WINDOWS && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setWindows([...windows, DEFAULT_WINDOW])}>
+            <Plus className="w-3 h-3 mr-1" /> Add window
+          </Button>
+        )}
+      </div>
+
+      {error ? <p className="text-xs text-destructive">{error}</p> : summary && <p className="text-xs text-muted-foreground">{summary} The job pauses outside its windows and resumes by itself.</p>}
+    </div>
+  );
+}
@@ -1,27 +1,37 @@
 import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { LogOut, User as UserIcon } from "lucide-react";
 
 const titles = {
   "/": "Dashboard",
   "/accounts": "Account Manager",
   "/email-stats": "Email Statistics",
+  "/email-stats-bigin": "Bigin Email Statistics",
   "/single-contact": "Add Single Contact",
   "/bulk-contacts": "Bulk Add Contacts",
   "/email-templates": "Email Templates",
   "/workflow-report": "Workflow Usage Report",
+  "/users": "Users",
+  "/audit": "Audit Log",
 };
 
 const subtitles = {
   "/": "Manage your Zoho CRM operations",
   "/accounts": "Configure Zoho CRM accounts",
   "/email-stats": "View email analytics and performance",
+  "/email-stats-bigin": "View email analytics for Zoho Bigin contacts",
   "/single-contact": "Create individual contacts and send emails",
   "/bulk-contacts": "Import multiple contacts and send bulk emails",
   "/email-templates": "View and manage email templates",
   "/workflow-report": "Track workflow rule execution and performance",
+  "/users": "Manage who can sign in and which accounts they can use",
+  "/audit": "Review every change made to Zoho accounts and data",
 };
 
 export default function Header() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
   
   const title = titles[location as keyof typeof titles] || "Zoho CRM Manager";
   const subtitle = subtitles[location as keyof typeof subtitles] || "Manage your operations";
@@ -38,6 +48,22 @@ export default function Header() {
             <div className="w-2 h-2 bg-primary rounded-full"></div>
             <span className="text-sm font-medium">Connected</span>
           </div>
+          {user && (
+            <div className="flex items-center space-x-2">
+              <UserIcon className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm font-medium" data-testid="text-current-user">{user.username}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Log out
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,11 +1,15 @@
 import { Link, useLocation } from "wouter";
 import { 
   Home, Users, BarChart3, UserPlus, UserRoundPlus, 
-  ListFilter, Mailbox, Activity, Workflow
+  ListFilter, Mailbox, Activity, Workflow, ShieldCheck, History, LibraryBig, CalendarClock
 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { canViewPage } from "@shared/permissions";
 
 export default function Sidebar() {
   const [location] = useLocation();
+  const { user } = useAuth();
+  const canView = (path: string) => canViewPage(user?.role, path);
 
   return (
     <div className="fixed left-0 top-0 h-full w-60 bg-sidebar border-r border-sidebar-border z-50 shadow-lg overflow-y-auto">
@@ -31,12 +35,30 @@ export default function Sidebar() {
                 <span className="font-medium">Dashboard</span>
               </button>
             </Link>
-             <Link href="/accounts">
-              <button className={`sidebar-nav-item ${location === "/accounts" ? "active" : ""}`}>
-                <Users className="w-5 h-5" />
-                <span className="font-medium">Account Manager</span>
-              </button>
-            </Link>
+            {canView("/accounts") && (
+              <Link href="/accounts">
+                <button className={`sidebar-nav-item ${location === "/accounts" ? "active" : ""}`}>
+                  <Users className="w-5 h-5" />
+                  <span className="font-medium">Account Manager</span>
+                </button>
+              </Link>
+            )}
+            {canView("/users") && (
+              <Link href="/users">
+                <button className={`sidebar-nav-item ${location === "/users" ? "active" : ""}`}>
+                  <ShieldCheck className="w-5 h-5" />
+                  <span className="font-medium">Users</span>
+                </button>
+              </Link>
+            )}
+            {canView("/audit") && (
+              <Link href="/audit">
+                <button className={`sidebar-nav-item ${location === "/audit" ? "active" : ""}`}>
+                  <History className="w-5 h-5" />
+                  <span className="font-medium">Audit Log</span>
+                </button>
+              </Link>
+            )}
         </div>
 
         {/* ZOHO CRM SECTION */}
@@ -45,59 +67,99 @@ export default function Sidebar() {
             Zoho CRM
           </h3>
           <div className="space-y-1">
-            <Link href="/contact-manager">
-              <button className={`sidebar-nav-item ${location === "/contact-manager" ? "active" : ""}`}>
-                <ListFilter className="w-5 h-5" />
-                <span className="font-medium">Contact Manager</span>
-              </button>
-            </Link>
-            <Link href="/email-stats">
-              <button className={`sidebar-nav-item ${location === "/email-stats" ? "active" : ""}`}>
-                <BarChart3 className="w-5 h-5" />
-                <span className="font-medium">Email Statistics</span>
-              </button>
-            </Link>
-            <Link href="/workflow-report">
-              <button className={`sidebar-nav-item ${location === "/workflow-report" ? "active" : ""}`}>
-                <Activity className="w-5 h-5" />
-                <span className="font-medium">Workflow Report</span>
-              </button>
-            </Link>
-             <Link href="/single-contact">
-              <button className={`sidebar-nav-item ${location === "/single-contact" ? "active" : ""}`}>
-                <UserPlus className="w-5 h-5" />
-                <span className="font-medium">Add Contact</span>
-              </button>
-            </Link>
-             <Link href="/bulk-contacts">
-              <button className={`sidebar-nav-item ${location === "/bulk-contacts" ? "active" : ""}`}>
-                <UserRoundPlus className="w-5 h-5" />
-                <span className="font-medium">Bulk Contacts</span>
-              </button>
-            </Link>
-             <Link href="/email-templates">
-              <button className={`sidebar-nav-item ${location === "/email-templates" ? "active" : ""}`}>
-                <Mailbox className="w-5 h-5" />
-                <span className="font-medium">Email Templates</span>
-              </button>
-            </Link>
+            {canView("/contact-manager") && (
+              <Link href="/contact-manager">
+                <button className={`sidebar-nav-item ${location === "/contact-manager" ? "active" : ""}`}>
+                  <ListFilter className="w-5 h-5" />
+                  <span className="font-medium">Contact Manager</span>
+                </button>
+              </Link>
+            )}
+            {canView("/email-stats") && (
+              <Link href="/email-stats">
+                <button className={`sidebar-nav-item ${location === "/email-stats" ? "active" : ""}`}>
+                  <BarChart3 className="w-5 h-5" />
+                  <span className="font-medium">Email Statistics</span>
+                </button>
+              </Link>
+            )}
+            {canView("/workflow-report") && (
+              <Link href="/workflow-report">
+                <button className={`sidebar-nav-item ${location === "/workflow-report" ? "active" : ""}`}>
+                  <Activity className="w-5 h-5" />
+                  <span className="font-medium">Workflow Report</span>
+                </button>
+              </Link>
+            )}
+            {canView("/single-contact") && (
+              <Link href="/single-contact">
+                <button className={`sidebar-nav-item ${location === "/single-contact" ? "active" : ""}`}>
+                  <UserPlus className="w-5 h-5" />
+                  <span className="font-medium">Add Contact</span>
+                </button>
+              </Link>
+            )}
+            {canView("/bulk-contacts") && (
+              <Link href="/bulk-contacts">
+                <button className={`sidebar-nav-item ${location === "/bulk-contacts" ? "active" : ""}`}>
+                  <UserRoundPlus className="w-5 h-5" />
+                  <span className="font-medium">Bulk Contacts</span>
+                </button>
+              </Link>
+            )}
+            {canView("/scheduled-jobs") && (
+              <Link href="/scheduled-jobs">
+                <button className={`sidebar-nav-item ${location === "/scheduled-jobs" ? "active" : ""}`}>
+                  <CalendarClock className="w-5 h-5" />
+                  <span className="font-medium">Scheduled Jobs</span>
+                </button>
+              </Link>
+            )}
+            {canView("/email-templates") && (
+              <Link href="/email-templates">
+                <button className={`sidebar-nav-item ${location === "/email-templates" ? "active" : ""}`}>
+                  <Mailbox className="w-5 h-5" />
+                  <span className="font-medium">Email Templates</span>
+                </button>
+              </Link>
+            )}
+            {canView("/template-library") && (
+              <Link href="/template-library">
+                <button className={`sidebar-nav-item ${location === "/template-library" ? "active" : ""}`}>
+                  <LibraryBig className="w-5 h-5" />
+                  <span className="font-medium">Template Library</span>
+                </button>
+              </Link>
+            )}
           </div>
         </div>
 
         {/* ZOHO BIGIN SECTION */}
-        <div>
-          <h3 className="px-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">
-            Zoho Bigin
-          </h3>
-          <div className="space-y-1">
-            <Link href="/bulk-contacts-bigin">
-              <button className={`sidebar-nav-item ${location === "/bulk-contacts-bigin" ? "active" : ""}`}>
-                <UserRoundPlus className="w-5 h-5" />
-                <span className="font-medium">Bulk Contacts</span>
-              </button>
-            </Link>
+        {(canView("/email-stats-bigin") || canView("/bulk-contacts-bigin")) && (
+          <div>
+            <h3 className="px-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+              Zoho Bigin
+            </h3>
+            <div className="space-y-1">
+              {canView("/email-stats-bigin") && (
+                <Link href="/email-stats-bigin">
+                  <button className={`sidebar-nav-item ${location === "/email-stats-bigin" ? "active" : ""}`}>
+                    <BarChart3 className="w-5 h-5" />
+                    <span className="font-medium">Email Statistics</span>
+                  </button>
+                </Link>
+              )}
+              {canView("/bulk-contacts-bigin") && (
+                <Link href="/bulk-contacts-bigin">
+                  <button className={`sidebar-nav-item ${location === "/bulk-contacts-bigin" ? "active" : ""}`}>
+                    <UserRoundPlus className="w-5 h-5" />
+                    <span className="font-medium">Bulk Contacts</span>
+                  </button>
+                </Link>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
       </nav>
     </div>
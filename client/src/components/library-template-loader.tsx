@@ -0,0 +1,91 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { getLibraryTemplate } from "@/lib/api";
+import type { LibraryTemplateSummary, LibraryTemplateVersion } from "@shared/templateLibrary";
+import { LibraryBig, Loader2 } from "lucide-react";
+
+interface LibraryTemplateLoaderProps {
+  accountId: string;
+  // Asks before replacing a subject or content already typed in
+  hasContent: boolean;
+  onLoad: (version: LibraryTemplateVersion) => void;
+}
+
+// "From library" button for the send forms: copies the current version of a Template
+// Library template into the form's subject and content.
+export default function LibraryTemplateLoader({ accountId, hasContent, onLoad }: LibraryTemplateLoaderProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const { data: templates = [], isLoading } = useQuery<LibraryTemplateSummary[]>({
+    queryKey: ['/api/template-library', accountId],
+    enabled: !!accountId && isOpen,
+  });
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return templates;
+    return templates.filter(t => [t.name, t.subject, ...t.tags].some(value => value.toLowerCase().includes(term)));
+  }, [templates, search]);
+
+  const loadMutation = useMutation({
+    mutationFn: (templateId: string) => getLibraryTemplate(accountId, templateId),
+    onSuccess: (template) => {
+      onLoad(template.versions[template.versions.length - 1]);
+      setIsOpen(false);
+      toast({ title: "Template loaded", description: template.name });
+    },
+    onError: (error: Error) => toast({ title: "Could not load template", description: error.message, variant: "destructive" }),
+  });
+
+  const handleLoad = (templateId: string) => {
+    if (hasContent && !confirm('Replace the current subject and content?')) return;
+    loadMutation.mutate(templateId);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={!accountId}>
+          <LibraryBig className="w-4 h-4 mr-2" /> From library
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-auto">
+        <DialogHeader><DialogTitle>Load from Template Library</DialogTitle></DialogHeader>
+        <Input placeholder="Search name, subject or tag" value={search} onChange={e => setSearch(e.target.value)} />
+        {isLoading ? (
+          <div className="text-center py-8"><Loader2 className="w-8 h-8 text-primary mx-auto animate-spin" /></div>
+        ) : filtered.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            {templates.length === 0 ? 'This account has no library templates yet.' : 'No templates match.'}
+          </p>
+        ) : (
+          <ul className="border rounded-md divide-y">
+            {filtered.map(t => (
+              <li key={t.id} className="p-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{t.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">{t.subject}</div>
+                  {t.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {t.tags.map(tag => <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>)}
+                    </div>
+                  )}
+                </div>
+                <Button type="button" size="sm" onClick={() => handleLoad(t.id)} disabled={loadMutation.isPending}>
+                  {loadMutation.isPending && loadMutation.variables === t.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load'}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { renderMergeTags } from "@shared/mergeTags";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { sanitizeHtml } from "@/lib/sanitizeHtml";
+
+interface MergeTagPreviewProps {
+  subject: string;
+  content: string;
+  // Each recipient's merge values, in job order
+  recipients: Record<string, any>[];
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// The email as one recipient will get it. Tags the job has no value for yet are read
+// from the contact when it is created, so they are shown as placeholders.
+export default function MergeTagPreview({ subject, content, recipients }: MergeTagPreviewProps) {
+  const [index, setIndex] = useState(0);
+  const current = Math.min(index, Math.max(0, recipients.length - 1));
+  const values = recipients[current] || {};
+
+  const renderedSubject = renderMergeTags(subject, values, { onMissing: name => `[${name}]` });
+  const renderedContent = renderMergeTags(content, values, {
+    html: true,
+    onMissing: name => `<mark title="Filled from the contact when it is sent">[${escapeHtml(name)}]</mark>`,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Label className="whitespace-nowrap">Recipient</Label>
+        <Button type="button" variant="outline" size="icon" className="h-8 w-8" disabled={current <= 0} onClick={() => setIndex(current - 1)}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Input
+          type="number"
+          className="h-8 w-20"
+          min={1}
+          max={recipients.length}
+          value={recipients.length ? current + 1 : 0}
+          onChange={e => setIndex(Math.max(0, (parseInt(e.target.value) || 1) - 1))}
+          disabled={recipients.length === 0}
+        />
+        <Button type="button" variant="outline" size="icon" className="h-8 w-8" disabled={current >= recipients.length - 1} onClick={() => setIndex(current + 1)}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground truncate">
+          of {recipients.length}{values.Email ? ` · ${values.Email}` : ''}
+        </span>
+      </div>
+      <div>
+        <Label className="text-xs text-muted-foreground">Subject</Label>
+        <p className="font-medium">{renderedSubject}</p>
+      </div>
+      <div className="border rounded-lg p-4 bg-white"><div dangerouslySetInnerHTML={{ __html: sanitizeHtml(renderedContent) }} className="prose max-w-none" /></div>
+    </div>
+  );
+}
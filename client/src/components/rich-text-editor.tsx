@@ -0,0 +1,96 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { sanitizeHtml } from "@/lib/sanitizeHtml";
+import { Bold, Italic, Underline, Heading2, Pilcrow, List, ListOrdered, Link, RemoveFormatting } from "lucide-react";
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+}
+
+// An email body editor with a visual mode, the raw HTML and a preview. The visual mode is
+// a contentEditable area driven by the browser's editing commands, which keeps the HTML
+// simple enough for email clients.
+export default function RichTextEditor({ value, onChange }: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // The HTML the visual editor itself last produced
+  const editedValue = useRef<string | null>(null);
+
+  // Outside changes (loading a version, editing the HTML tab) replace the visual content,
+  // sanitized; typing does not, or the caret would jump
+  useEffect(() => {
+    if (!editorRef.current || value === editedValue.current) return;
+    const safe = sanitizeHtml(value);
+    if (editorRef.current.innerHTML !== safe) editorRef.current.innerHTML = safe;
+    editedValue.current = value;
+  });
+
+  const emitChange = (html: string) => {
+    editedValue.current = html;
+    onChange(html);
+  };
+
+  const run = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    if (editorRef.current) emitChange(editorRef.current.innerHTML);
+  };
+
+  const addLink = () => {
+    const url = window.prompt('Link address', 'https://');
+    if (url) run('createLink', url);
+  };
+
+  const tool = (title: string, icon: ReactNode, action: () => void) => (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8"
+      title={title}
+      // Keeps the selection in the editor while the button is clicked
+      onMouseDown={e => e.preventDefault()}
+      onClick={action}
+    >
+      {icon}
+    </Button>
+  );
+
+  return (
+    <Tabs defaultValue="visual">
+      <TabsList>
+        <TabsTrigger value="visual">Visual</TabsTrigger>
+        <TabsTrigger value="html">HTML</TabsTrigger>
+        <TabsTrigger value="preview">Preview</TabsTrigger>
+      </TabsList>
+      <TabsContent value="visual" className="border rounded-md">
+        <div className="flex flex-wrap gap-1 border-b p-1">
+          {tool("Bold", <Bold className="w-4 h-4" />, () => run('bold'))}
+          {tool("Italic", <Italic className="w-4 h-4" />, () => run('italic'))}
+          {tool("Underline", <Underline className="w-4 h-4" />, () => run('underline'))}
+          {tool("Heading", <Heading2 className="w-4 h-4" />, () => run('formatBlock', '<h2>'))}
+          {tool("Paragraph", <Pilcrow className="w-4 h-4" />, () => run('formatBlock', '<p>'))}
+          {tool("Bulleted list", <List className="w-4 h-4" />, () => run('insertUnorderedList'))}
+          {tool("Numbered list", <ListOrdered className="w-4 h-4" />, () => run('insertOrderedList'))}
+          {tool("Link", <Link className="w-4 h-4" />, addLink)}
+          {tool("Clear formatting", <RemoveFormatting className="w-4 h-4" />, () => run('removeFormat'))}
+        </div>
+        <div
+          ref={editorRef}
+          contentEditable
+          suppressContentEditableWarning
+          className="prose max-w-none min-h-[240px] p-3 bg-white focus:outline-none"
+          onInput={e => emitChange(e.currentTarget.innerHTML)}
+        />
+      </TabsContent>
+      <TabsContent value="html">
+        <Textarea rows={12} className="font-mono text-sm" value={value} onChange={e => onChange(e.target.value)} />
+      </TabsContent>
+      <TabsContent value="preview">
+        <div className="border rounded-lg p-4 bg-white min-h-[240px]"><div dangerouslySetInnerHTML={{ __html: sanitizeHtml(value) }} className="prose max-w-none" /></div>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { getSendQuotas, saveSendQuotas } from "@/lib/api";
+import { hasRole } from "@shared/permissions";
+import { remainingSends, type SendQuotaLimits, type SendQuotaSettings, type SendQuotaUsage } from "@shared/sendQuotas";
+import { Gauge } from "lucide-react";
+
+interface SendQuotaPanelProps {
+  accountId: string;
+  fromEmail: string;
+}
+
+function describeUsage(usage: SendQuotaUsage, limits: SendQuotaLimits) {
+  const parts = [];
+  if (limits.hourly) parts.push(`${usage.remainingHourly} of ${limits.hourly} left this hour`);
+  if (limits.daily) parts.push(`${usage.remainingDaily} of ${limits.daily} left today`);
+  return parts.length > 0 ? parts.join(', ') : `no limit (${usage.sentLastDay} sent in 24h)`;
+}
+
+const limitInput = (value: number | undefined) => value === undefined ? "" : String(value);
+const limitValue = (value: string) => value.trim() === "" ? undefined : Number(value);
+
+// Remaining hourly and daily send quota for the account and the chosen from address,
+// shown on the bulk pages. Admins can change the quotas from here.
+export default function SendQuotaPanel({ accountId, fromEmail }: SendQuotaPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState({ accountHourly: "", accountDaily: "", fromHourly: "", fromDaily: "" });
+
+  const { data: status } = useQuery({
+    queryKey: ['/api/send-quotas', accountId, fromEmail],
+    queryFn: () => getSendQuotas(accountId, fromEmail ? [fromEmail] : []),
+    enabled: !!accountId,
+    refetchInterval: 30000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: SendQuotaSettings) => saveSendQuotas(accountId, settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/send-quotas', accountId] });
+      setIsOpen(false);
+      toast({ title: "Send quotas saved" });
+    },
+    onError: (error: Error) => toast({ title: "Could not save send quotas", description: error.message, variant: "destructive" }),
+  });
+
+  if (!accountId || !status) return null;
+
+  const { settings } = status;
+  const fromUsage = fromEmail ? status.fromAddresses[fromEmail.toLowerCase()] : undefined;
+  const availableAt = Math.max(status.account.availableAt ?? 0, fromUsage?.availableAt ?? 0);
+  const remaining = [remainingSends(status.account), fromUsage && remainingSends(fromUsage)]
+    .filter((value): value is number => value !== undefined);
+
+  const openEditor = (open: boolean) => {
+    if (open) {
+      setDraft({
+        accountHourly: limitInput(settings.account.hourly),
+        accountDaily: limitInput(settings.account.daily),
+        fromHourly: limitInput(settings.fromAddress.hourly),
+        fromDaily: limitInput(settings.fromAddress.daily),
+      });
+    }
+    setIsOpen(open);
+  };
+
+  const handleSave = () => saveMutation.mutate({
+    account: { hourly: limitValue(draft.accountHourly), daily: limitValue(draft.accountDaily) },
+    fromAddress: { hourly: limitValue(draft.fromHourly), daily: limitValue(draft.fromDaily) },
+  });
+
+  return (
+    <div className="text-xs text-muted-foreground border rounded-md p-2 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium flex items-center gap-1">
+          <Gauge className="w-3 h-3" /> Send quota{remaining.length > 0 && `: ${Math.min(...remaining)} emails left`}
+        </span>
+        {hasRole(user?.role, "admin") && (
+          <Dialog open={isOpen} onOpenChange={openEditor}>
+            <DialogTrigger asChild>
+              <Button type="button" variant="ghost" size="sm" className="h-6 text-xs">Edit quotas</Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader><DialogTitle>Send quotas</DialogTitle></DialogHeader>
+              <p className="text-sm text-muted-foreground">
+                Counted over the last hour and the last 24 hours. Leave a field empty for no limit. Jobs over a quota pause and resume by themselves.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <div><Label>Account per hour</Label><Input type="number" min="1" value={draft.accountHourly} onChange={e => setDraft({ ...draft, accountHourly: e.target.value })} /></div>
+                <div><Label>Account per day</Label><Input type="number" min="1" value={draft.accountDaily} onChange={e => setDraft({ ...draft, accountDaily: e.target.value })} /></div>
+                <div><Label>Each from address per hour</Label><Input type="number" min="1" value={draft.fromHourly} onChange={e => setDraft({ ...draft, fromHourly: e.target.value })} /></div>
+                <div><Label>Each from address per day</Label><Input type="number" min="1" value={draft.fromDaily} onChange={e => setDraft({ ...draft, fromDaily: e.target.value })} /></div>
+              </div>
+              <div className="flex justify-end">
+                <Button type="button" onClick={handleSave} disabled={saveMutation.isPending}>Save</Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+      <div>Account: {describeUsage(status.account, settings.account)}</div>
+      {fromUsage && <div>{fromEmail}: {describeUsage(fromUsage, settings.fromAddress)}</div>}
+      {availableAt > 0 && <div className="text-destructive">Used up; sending resumes {new Date(availableAt).toLocaleString()}.</div>}
+    </div>
+  );
+}
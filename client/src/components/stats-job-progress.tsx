@@ -0,0 +1,49 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { ContactStatsJob } from "@/hooks/use-contact-stats";
+import { Loader2, Square } from "lucide-react";
+
+interface StatsJobProgressProps {
+  job: ContactStatsJob;
+  // Absent for users who may not cancel the run
+  onCancel?: () => void;
+}
+
+// Live progress of a background stats collection, as reported by the server.
+export default function StatsJobProgress({ job, onCancel }: StatsJobProgressProps) {
+  const listing = job.phase === 'contacts';
+  const percent = listing || job.totalBatches === 0 ? 0 : (job.batchesDone / job.totalBatches) * 100;
+
+  return (
+    <div className="w-full max-w-md space-y-3">
+      <div className="flex justify-between text-sm font-medium text-muted-foreground">
+        <span className="flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {listing
+            ? `Listing contacts... ${job.contactsFetched} fetched`
+            : `Fetching email history: batch ${job.batchesDone} of ${job.totalBatches}`}
+        </span>
+        {!listing && <span>{Math.round(percent)}%</span>}
+      </div>
+      <Progress value={percent} className="h-2 w-full transition-all duration-500" />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {listing
+            ? 'Step 1 of 2'
+            : job.incremental
+              ? `${job.totalContacts} changed contacts, ${job.reusedContacts} unchanged`
+              : `${job.totalContacts} contacts`}
+          {job.failures > 0 && <span className="text-destructive"> · {job.failures} failed</span>}
+        </span>
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} className="h-7">
+            <Square className="w-3 h-3 mr-1" /> Cancel
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground text-center pt-2">
+        This runs on the server. You can navigate away and come back.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { diffLines, type LibraryTemplate, type LibraryTemplateVersion } from "@shared/templateLibrary";
+import { RotateCcw } from "lucide-react";
+
+interface TemplateHistoryProps {
+  template: LibraryTemplate;
+  // Loads a version into the editor; saving it then makes it the newest version
+  onRestore: (version: LibraryTemplateVersion) => void;
+}
+
+// Editors keep the HTML on one line, so block tags start a new line before diffing
+const splitHtml = (html: string) => html.replace(/(<\/(p|div|h[1-6]|li|ul|ol|tr|table|blockquote)>|<br\s*\/?>)(?!\n)/gi, '$1\n');
+
+function DiffView({ label, before, after }: { label: string; before: string; after: string }) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const changed = lines.some(line => line.type !== 'same');
+  return (
+    <div>
+      <Label className="text-xs text-muted-foreground">{label}{changed ? '' : ' (unchanged)'}</Label>
+      {changed && (
+        <pre className="border rounded-md max-h-64 overflow-auto text-xs font-mono p-2 whitespace-pre-wrap">
+          {lines.map((line, index) => (
+            <div
+              key={index}
+              className={cn(line.type === 'added' && 'bg-green-100 text-green-900', line.type === 'removed' && 'bg-red-100 text-red-900')}
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+// Every saved version of a library template, and the differences between any two of them.
+export default function TemplateHistory({ template, onRestore }: TemplateHistoryProps) {
+  const versions = template.versions;
+  const latest = versions[versions.length - 1].version;
+  const [fromVersion, setFromVersion] = useState(Math.max(1, latest - 1));
+  const [toVersion, setToVersion] = useState(latest);
+  const from = versions.find(v => v.version === fromVersion) || versions[0];
+  const to = versions.find(v => v.version === toVersion) || versions[versions.length - 1];
+
+  const versionSelect = (value: number, onChange: (version: number) => void) => (
+    <Select value={String(value)} onValueChange={v => onChange(parseInt(v))}>
+      <SelectTrigger className="w-28 h-8"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {versions.map(v => <SelectItem key={v.version} value={String(v.version)}>Version {v.version}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-md max-h-48 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              <th className="p-2 text-left font-medium">Version</th>
+              <th className="p-2 text-left font-medium">Saved</th>
+              <th className="p-2 text-left font-medium">By</th>
+              <th className="p-2 text-left font-medium">Subject</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...versions].reverse().map(v => (
+              <tr key={v.version} className="border-t">
+                <td className="p-2">{v.version}{v.version === latest ? ' (current)' : ''}</td>
+                <td className="p-2 whitespace-nowrap">{new Date(v.savedAt).toLocaleString()}</td>
+                <td className="p-2">{v.savedBy}</td>
+                <td className="p-2 max-w-[200px] truncate" title={v.subject}>{v.subject}</td>
+                <td className="p-2 text-right">
+                  {v.version !== latest && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => onRestore(v)}>
+                      <RotateCcw className="w-3 h-3 mr-1" /> Load
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span>Compare</span>
+        {versionSelect(from.version, setFromVersion)}
+        <span>with</span>
+        {versionSelect(to.version, setToVersion)}
+      </div>
+      <DiffView label="Subject" before={from.subject} after={to.subject} />
+      <DiffView label="HTML" before={splitHtml(from.html)} after={splitHtml(to.html)} />
+      <DiffView label="Plain text" before={from.text} after={to.text} />
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { searchLookupRecords } from "@/lib/api";
+import { toZohoDateTime, type LookupValue } from "@shared/zohoFieldValues";
+import type { ZohoField } from "@shared/zohoFields";
+import { Search, X } from "lucide-react";
+
+interface ZohoFieldInputProps {
+  field: ZohoField;
+  value: any;
+  onChange: (value: any) => void;
+  accountId: string;
+  platform: 'crm' | 'bigin';
+  error?: string;
+}
+
+const LOOKUP_SEARCH_DELAY_MS = 300;
+
+function LookupInput({ field, value, onChange, accountId, platform }: Omit<ZohoFieldInputProps, 'error'>) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const selected = value as LookupValue | undefined;
+  const module = field.lookup?.module || "";
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), LOOKUP_SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['lookup', platform, accountId, module, debouncedQuery],
+    queryFn: () => searchLookupRecords(accountId, platform, module, debouncedQuery),
+    enabled: !!module && debouncedQuery.length >= 2,
+  });
+
+  if (selected?.id) {
+    return (
+      <div className="flex items-center justify-between border rounded-md px-3 py-2 text-sm">
+        <span>{selected.name || selected.id}</span>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onChange(undefined)} type="button">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  const records = data?.records || [];
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+        <Input
+          className="pl-8"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={`Search ${field.lookup?.display_label || module}...`}
+        />
+      </div>
+      {debouncedQuery.length >= 2 && (
+        <div className="border rounded-md max-h-40 overflow-y-auto text-sm">
+          {isFetching ? (
+            <p className="p-2 text-muted-foreground">Searching...</p>
+          ) : records.length === 0 ? (
+            <p className="p-2 text-muted-foreground">No matching records.</p>
+          ) : (
+            records.map((record) => (
+              <button
+                key={record.id}
+                type="button"
+                className="block w-full text-left px-3 py-1.5 hover:bg-muted"
+                onClick={() => { onChange({ id: record.id, name: record.name }); setQuery(""); }}
+              >
+                {record.name}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Renders the right input for a Zoho field's data type. Values are kept in the form's
+// state as entered and converted with prepareFieldValues() before they are sent.
+export default function ZohoFieldInput({ field, value, onChange, accountId, platform, error }: ZohoFieldInputProps) {
+  const type = field.data_type;
+  let input: JSX.Element;
+
+  if (type === 'picklist') {
+    input = (
+      <Select value={value ?? ""} onValueChange={onChange}>
+        <SelectTrigger><SelectValue placeholder={`Select ${field.display_label}`} /></SelectTrigger>
+        <SelectContent>
+          {field.pick_list_values.map((opt) => (
+            <SelectItem key={opt.actual_value} value={opt.actual_value}>{opt.display_value}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  } else if (type === 'multiselectpicklist') {
+    const selectedValues: string[] = Array.isArray(value) ? value : [];
+    input = (
+      <div className="space-y-2 max-h-40 overflow-y-auto border border-border rounded-md p-3">
+        {field.pick_list_values.map((opt) => (
+          <label key={opt.actual_value} className="flex items-center space-x-2 text-sm">
+            <Checkbox
+              checked={selectedValues.includes(opt.actual_value)}
+              onCheckedChange={(checked) => onChange(
+                checked ? [...selectedValues, opt.actual_value] : selectedValues.filter(v => v !== opt.actual_value)
+              )}
+            />
+            <span>{opt.display_value}</span>
+          </label>
+        ))}
+      </div>
+    );
+  } else if (type === 'boolean') {
+    input = (
+      <div className="flex items-center space-x-2">
+        <Checkbox checked={value === true} onCheckedChange={(checked) => onChange(checked === true)} />
+        <span className="text-sm text-muted-foreground">Yes</span>
+      </div>
+    );
+  } else if (type === 'date') {
+    input = <Input type="date" value={value ?? ""} onChange={(e) => onChange(e.target.value)} />;
+  } else if (type === 'datetime') {
+    // The stored value carries a UTC offset; the picker only shows the local part
+    input = (
+      <Input
+        type="datetime-local"
+        value={typeof value === 'string' ? value.slice(0, 16) : ""}
+        onChange={(e) => onChange(toZohoDateTime(e.target.value))}
+      />
+    );
+  } else if (['integer', 'bigint', 'double', 'currency', 'decimal', 'percent'].includes(type)) {
+    input = (
+      <Input
+        type="number"
+        step={type === 'integer' || type === 'bigint' ? 1 : "any"}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  } else if (['lookup', 'ownerlookup', 'userlookup'].includes(type) && field.lookup) {
+    input = <LookupInput field={field} value={value} onChange={onChange} accountId={accountId} platform={platform} />;
+  } else if (type === 'textarea') {
+    input = <Textarea value={value ?? ""} maxLength={field.max_length ?? undefined} onChange={(e) => onChange(e.target.value)} />;
+  } else {
+    input = (
+      <Input
+        type={type === 'email' ? "email" : type === 'phone' ? "tel" : "text"}
+        value={value ?? ""}
+        maxLength={field.max_length ?? undefined}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  }
+
+  return (
+    <div>
+      {input}
+      {error && <p className="text-xs text-destructive mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ export interface Account {
   client_id: string;
   client_secret: string;
   refresh_token: string;
+  data_center?: string | null;
 }
 
 export function useAccounts() {
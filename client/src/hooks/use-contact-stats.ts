@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { refreshContactStats, cancelContactStats } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole } from "@shared/permissions";
+
+export interface ContactStatsJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  incremental: boolean;
+  phase: 'contacts' | 'emails';
+  contactsFetched: number;
+  totalContacts: number;
+  reusedContacts: number;
+  truncated?: boolean;
+  truncation_reason?: string;
+  bulk_read_error?: string;
+  batchesDone: number;
+  totalBatches: number;
+  failures: number;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+export interface ContactStatsResponse {
+  refreshed_at: string | null;
+  contacts: any[];
+  // Set when the snapshot is missing contacts Zoho did not return
+  truncated: boolean;
+  truncation_reason?: string;
+  // Set when Bulk Read failed for a large CRM org and contacts were paged instead
+  bulk_read_error?: string;
+  job: ContactStatsJob | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+// Email statistics collected by the server in the background. Polls while a run is
+// in progress; the last finished snapshot stays available in the meantime.
+export function useContactStats(accountId: string, platform: 'crm' | 'bigin') {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryKey = [platform === 'bigin' ? '/api/bigin/all-contact-stats' : '/api/zoho/all-contact-stats', accountId];
+
+  const query = useQuery<ContactStatsResponse>({
+    queryKey,
+    enabled: !!accountId,
+    refetchInterval: (query) => query.state.data?.job?.status === 'running' ? POLL_INTERVAL_MS : false,
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: (full: boolean) => refreshContactStats(accountId, platform, full),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error: Error) => toast({ title: "Refresh failed", description: error.message, variant: "destructive" }),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelContactStats(accountId, platform),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error: Error) => toast({ title: "Cancel failed", description: error.message, variant: "destructive" }),
+  });
+
+  const job = query.data?.job ?? null;
+  return {
+    contacts: query.data?.contacts ?? [],
+    refreshedAt: query.data?.refreshed_at ?? null,
+    truncationReason: query.data?.truncated ? query.data.truncation_reason || 'Zoho did not return every contact.' : null,
+    bulkReadError: query.data?.bulk_read_error ?? null,
+    job,
+    isRunning: job?.status === 'running',
+    isLoading: query.isLoading,
+    // Incremental once a snapshot exists; pass true to crawl every contact again
+    refresh: (full = false) => refreshMutation.mutate(full),
+    cancel: () => cancelMutation.mutate(),
+    isRefreshing: refreshMutation.isPending,
+    // Viewers see the last snapshot; starting or cancelling a run calls Zoho and needs an operator
+    canRefresh: hasRole(user?.role, 'operator'),
+  };
+}
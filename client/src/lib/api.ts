@@ -1,7 +1,15 @@
+import type { ZohoFieldsResponse } from "@shared/zohoFields";
+import type { ContactSearchParams, ContactSearchPage } from "@shared/contactSearch";
+import type { ContactDeleteCriteria, ContactDeleteJob, ContactDeletePreview } from "@shared/contactDelete";
+import type { DeletedBatchSummary } from "@shared/contactArchive";
+import type { LibraryTemplate, LibraryTemplateInput } from "@shared/templateLibrary";
+import type { SendQuotaSettings, SendQuotaStatus } from "@shared/sendQuotas";
+
 export async function validateZohoConnection(credentials: {
   client_id: string;
   client_secret: string;
   refresh_token: string;
+  data_center?: string | null;
 }) {
   const response = await fetch('/api/accounts/validate', {
     method: 'POST',
@@ -81,8 +89,8 @@ export async function getAccessToken(accountId: string) {
   return response.json();
 }
 
-export async function getZohoFields(accountId: string, module: string = 'Contacts') {
-  const response = await fetch(`/api/zoho/fields/${accountId}?module=${module}`);
+export async function getZohoFields(accountId: string, module: string = 'Contacts'): Promise<ZohoFieldsResponse> {
+  const response = await fetch(`/api/zoho/fields/${accountId}?module=${encodeURIComponent(module)}`);
   if (!response.ok) {
     const errorData = await response.json();
     throw new Error(errorData.error || 'Failed to fetch fields');
@@ -118,4 +126,213 @@ export async function getWorkflowUsage(accountId: string, ruleId: string, fromDa
     throw new Error(errorData.error || 'Failed to fetch workflow usage');
   }
   return response.json();
-}
\ No newline at end of file
+}
+export async function getAuditLog(filters: Record<string, string | number | undefined>) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const response = await fetch(`/api/audit?${params.toString()}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch audit log');
+  }
+  return response.json();
+}
+
+export async function searchLookupRecords(
+  accountId: string,
+  platform: 'crm' | 'bigin',
+  module: string,
+  query: string
+): Promise<{ records: { id: string; name: string }[] }> {
+  const prefix = platform === 'bigin' ? '/api/bigin' : '/api/zoho';
+  const response = await fetch(`${prefix}/lookup/${accountId}?module=${encodeURIComponent(module)}&q=${encodeURIComponent(query)}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to search records');
+  }
+  return response.json();
+}
+
+export async function refreshContactStats(accountId: string, platform: 'crm' | 'bigin', full = false) {
+  const prefix = platform === 'bigin' ? '/api/bigin' : '/api/zoho';
+  const response = await fetch(`${prefix}/all-contact-stats/${accountId}/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ full })
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to start stats collection');
+  }
+  return response.json();
+}
+
+export async function cancelContactStats(accountId: string, platform: 'crm' | 'bigin') {
+  const prefix = platform === 'bigin' ? '/api/bigin' : '/api/zoho';
+  const response = await fetch(`${prefix}/all-contact-stats/${accountId}/cancel`, { method: 'POST' });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to cancel stats collection');
+  }
+  return response.json();
+}
+
+export async function searchZohoContacts(accountId: string, params: ContactSearchParams): Promise<ContactSearchPage> {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+  const response = await fetch(`/api/zoho/contacts/${accountId}?${query.toString()}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch contacts');
+  }
+  return response.json();
+}
+
+export async function previewContactDelete(accountId: string, criteria: ContactDeleteCriteria): Promise<ContactDeletePreview> {
+  const response = await fetch(`/api/zoho/contacts/${accountId}/delete-preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ criteria }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to preview contacts');
+  }
+  return response.json();
+}
+
+export async function startContactDelete(accountId: string, criteria: ContactDeleteCriteria, confirmCount: number): Promise<ContactDeleteJob> {
+  const response = await fetch(`/api/zoho/contacts/${accountId}/delete-jobs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ criteria, confirm_count: confirmCount }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to start delete job');
+  }
+  return response.json();
+}
+
+export async function cancelContactDelete(accountId: string, jobId: string) {
+  const response = await fetch(`/api/zoho/contacts/${accountId}/delete-jobs/${jobId}/cancel`, { method: 'POST' });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to cancel delete job');
+  }
+  return response.json();
+}
+
+export async function restoreDeletedBatch(accountId: string, batchId: string): Promise<DeletedBatchSummary> {
+  const response = await fetch(`/api/zoho/contacts/${accountId}/deleted-batches/${batchId}/restore`, { method: 'POST' });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to restore contacts');
+  }
+  return response.json();
+}
+
+export async function getEmailTemplates(accountId: string, module: string = 'Contacts') {
+  const response = await fetch(`/api/zoho/email-templates/${accountId}?module=${encodeURIComponent(module)}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch email templates');
+  }
+  return response.json();
+}
+
+export async function getEmailTemplate(accountId: string, templateId: string) {
+  const response = await fetch(`/api/zoho/email-templates/${accountId}/${templateId}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch email template');
+  }
+  return response.json();
+}
+
+export async function getLibraryTemplate(accountId: string, templateId: string): Promise<LibraryTemplate> {
+  const response = await fetch(`/api/template-library/${accountId}/${templateId}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch template');
+  }
+  return response.json();
+}
+
+// Creates the template when `templateId` is not given; `baseVersion` guards against overwriting someone else's save
+export async function saveLibraryTemplate(
+  accountId: string,
+  input: LibraryTemplateInput,
+  templateId?: string,
+  baseVersion?: number,
+): Promise<LibraryTemplate> {
+  const response = await fetch(templateId ? `/api/template-library/${accountId}/${templateId}` : `/api/template-library/${accountId}`, {
+    method: templateId ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(templateId ? { ...input, base_version: baseVersion } : input),
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to save template');
+  }
+  return response.json();
+}
+
+export async function deleteLibraryTemplate(accountId: string, templateId: string) {
+  const response = await fetch(`/api/template-library/${accountId}/${templateId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to delete template');
+  }
+  return response.json();
+}
+
+export async function duplicateLibraryTemplate(accountId: string, templateId: string, targetAccountId: string): Promise<LibraryTemplate> {
+  const response = await fetch(`/api/template-library/${accountId}/${templateId}/duplicate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ target_account_id: parseInt(targetAccountId) }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to duplicate template');
+  }
+  return response.json();
+}
+
+export async function getZohoOrg(accountId: string, platform: 'crm' | 'bigin' = 'crm') {
+  const response = await fetch(`/api/zoho/org/${accountId}?platform=${platform}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch organization');
+  }
+  return response.json();
+}
+
+// `fromAddresses` are reported on even if they have not sent in the last 24 hours
+export async function getSendQuotas(accountId: string, fromAddresses: string[] = []): Promise<SendQuotaStatus> {
+  const query = fromAddresses.length > 0 ? `?from=${encodeURIComponent(fromAddresses.join(','))}` : '';
+  const response = await fetch(`/api/send-quotas/${accountId}${query}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch send quotas');
+  }
+  return response.json();
+}
+
+export async function saveSendQuotas(accountId: string, settings: SendQuotaSettings): Promise<SendQuotaStatus> {
+  const response = await fetch(`/api/send-quotas/${accountId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings),
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to save send quotas');
+  }
+  return response.json();
+}
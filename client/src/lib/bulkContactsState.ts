@@ -1,15 +1,24 @@
 import { create } from 'zustand';
+import type { ImportedFile } from "@/lib/spreadsheet";
+import type { JobSchedule } from "@shared/jobSchedule";
 
 export const initialFormData = {
   fromEmail: "",
   lastName: "",
+  // Recipients come from the emails textarea or, one contact per row, from an imported file
+  recipientSource: "emails" as "emails" | "file",
   emails: "",
+  contactImport: null as ImportedFile | null,
+  // Zoho email template to send instead of the subject and content; "" when writing them by hand
+  templateId: "",
   subject: "",
   content: "",
   delay: 1,
   sendEmail: true,
   checkStatus: false,
   checkDelay: 10,
+  // Start time and sending windows; null to start right away and send at any time
+  schedule: null as JobSchedule | null,
   customFields: {} as Record<string, any>,
 };
 
@@ -0,0 +1,8 @@
+import DOMPurify from "dompurify";
+
+// Email HTML comes from other users (Template Library, send forms) and from Zoho, and is
+// shown in this app's origin, so scripts, event handlers and javascript: links are
+// stripped before any of it is rendered or loaded into an editor.
+export function sanitizeHtml(html: string | null | undefined) {
+  return DOMPurify.sanitize(html || '', { USE_PROFILES: { html: true } });
+}
@@ -0,0 +1,141 @@
+import { strFromU8, unzipSync } from "fflate";
+import { parseCsvRows } from "@shared/csv";
+import type { ContactImportData } from "@shared/contactImport";
+import { toZohoDateTime } from "@shared/zohoFieldValues";
+
+// Reads the first sheet of a CSV or XLSX file in the browser, header row first.
+
+export interface SpreadsheetData {
+  columns: string[];
+  rows: string[][];
+}
+
+// A file read for the bulk pages' contact import, with its column mapping
+export type ImportedFile = ContactImportData & { fileName: string };
+
+function parseXml(text: string) {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function elements(parent: Document | Element, name: string) {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string) {
+  const letters = reference.replace(/\d+$/, '');
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Built-in number formats that show a date, a time or both
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 22, 27, 28, 29, 30, 31, 34, 35, 36, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+const TIME_FORMAT_IDS = new Set([18, 19, 20, 21, 22, 32, 33, 45, 46, 47]);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DateFormat {
+  date: boolean;
+  time: boolean;
+}
+
+// Whether a custom format code ("dd/mm/yyyy hh:mm") shows a date or a time. Quoted text,
+// escaped characters and [Red]-style sections are not format letters; a lone "m" is a
+// month unless hours or seconds are shown with it.
+function customDateFormat(code: string): DateFormat | undefined {
+  const letters = code.replace(/"[^"]*"|\\.|\[(?![hms]+\])[^\]]*\]/gi, '').toLowerCase();
+  const time = /[hs]/.test(letters);
+  const date = /[dy]/.test(letters) || (letters.includes('m') && !time);
+  return date || time ? { date, time } : undefined;
+}
+
+// The date format of each cell style (the index a cell's `s` attribute refers to)
+function readDateFormats(styles: Document | null): (DateFormat | undefined)[] {
+  if (!styles) return [];
+  const custom = new Map(elements(styles, 'numFmt').map(format => [Number(format.getAttribute('numFmtId')), format.getAttribute('formatCode') || '']));
+  const cellFormats = elements(styles, 'cellXfs')[0];
+  return (cellFormats ? elements(cellFormats, 'xf') : []).map(style => {
+    const id = Number(style.getAttribute('numFmtId') || 0);
+    if (custom.has(id)) return customDateFormat(custom.get(id)!);
+    if (DATE_FORMAT_IDS.has(id) || TIME_FORMAT_IDS.has(id)) return { date: DATE_FORMAT_IDS.has(id), time: TIME_FORMAT_IDS.has(id) };
+    return undefined;
+  });
+}
+
+// A date cell's serial day number as the text the import expects: YYYY-MM-DD for dates,
+// a Zoho date-time in the browser's offset when it has a time of day, HH:MM:SS for times.
+function formatSerialDate(serial: number, format: DateFormat, date1904: boolean): string {
+  // Serial 0 is 1899-12-30 (1900 system, which counts the nonexistent 1900-02-29) or 1904-01-01
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const iso = new Date(epoch + Math.round(serial * DAY_MS / 1000) * 1000).toISOString();
+  if (!format.date) return iso.slice(11, 19);
+  if (!format.time || serial === Math.floor(serial)) return iso.slice(0, 10);
+  return toZohoDateTime(iso.slice(0, 19));
+}
+
+async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  let files: Record<string, Uint8Array>;
+  try {
+    // Only the XML parts; images and other media are not needed
+    files = unzipSync(new Uint8Array(buffer), { filter: file => /\.(xml|rels)$/.test(file.name) });
+  } catch {
+    throw new Error('The file is not a valid XLSX workbook.');
+  }
+  const read = (name: string) => files[name] ? parseXml(strFromU8(files[name])) : null;
+
+  // The first sheet in workbook order, through the workbook's relationships
+  const workbook = read('xl/workbook.xml');
+  const relationships = read('xl/_rels/workbook.xml.rels');
+  const sheetRelationship = workbook && elements(workbook, 'sheet')[0]?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = relationships && elements(relationships, 'Relationship')
+    .find(rel => rel.getAttribute('Id') === sheetRelationship)?.getAttribute('Target');
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = read(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet.');
+
+  const sharedStringsXml = read('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? elements(sharedStringsXml, 'si').map(item => elements(item, 't').map(t => t.textContent || '').join(''))
+    : [];
+  // Dates are stored as serial day numbers; only the cell's number format marks them as dates
+  const dateFormats = readDateFormats(read('xl/styles.xml'));
+  const workbookProperties = workbook && elements(workbook, 'workbookPr')[0]?.getAttribute('date1904');
+  const date1904 = workbookProperties === '1' || workbookProperties === 'true';
+
+  return elements(sheet, 'row').map(rowElement => {
+    const row: string[] = [];
+    elements(rowElement, 'c').forEach(cell => {
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+      const dateFormat = dateFormats[Number(cell.getAttribute('s') || 0)];
+      const text = type === 's' ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr' ? elements(cell, 't').map(t => t.textContent || '').join('')
+        : type === 'b' ? (value === '1' ? 'true' : 'false')
+        : (!type || type === 'n') && dateFormat && value !== '' && isFinite(Number(value)) ? formatSerialDate(Number(value), dateFormat, date1904)
+        : value;
+      const reference = cell.getAttribute('r');
+      row[reference ? columnIndex(reference) : row.length] = text;
+    });
+    return Array.from(row, cell => cell ?? '');
+  });
+}
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const table = file.name.toLowerCase().endsWith('.xlsx')
+    ? await readXlsx(await file.arrayBuffer())
+    : parseCsvRows(await file.text());
+
+  const [header = [], ...rows] = table;
+  // Column names key the mapping, so blank and repeated headers get a unique name
+  const seen = new Map<string, number>();
+  const columns = header.map((name, index) => {
+    const base = name.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  return {
+    columns,
+    rows: rows.filter(row => row.some(cell => cell.trim() !== '')),
+  };
+}
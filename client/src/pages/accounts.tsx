@@ -8,7 +8,10 @@ import { useToast } from "@/hooks/use-toast";
 import { useAccounts } from "@/hooks/use-accounts";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { getAccessToken } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole } from "@shared/permissions";
 import { Edit, Trash2, Wifi, Download, Plus, KeyRound, Eye, Copy } from "lucide-react";
+import { ZOHO_DATA_CENTERS, DEFAULT_DATA_CENTER, isZohoDataCenter, type ZohoDataCenter } from "@shared/zohoDataCenters";
 
 interface Account {
   id: number;
@@ -16,15 +19,29 @@ interface Account {
   client_id: string;
   client_secret: string;
   refresh_token: string;
+  data_center?: string | null;
 }
 
 export default function Accounts() {
   const { data: accounts = [], isLoading } = useAccounts();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = hasRole(user?.role, 'admin');
   const [selectedAccountId, setSelectedAccountId] = useState<string>("");
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   const [accessToken, setAccessToken] = useState<string | null>(null);
 
+  // The OAuth callback redirects here with ?selected=<id> after saving the account
+  React.useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const selected = params.get('selected');
+    if (selected) {
+      setSelectedAccountId(selected);
+      window.history.replaceState(null, '', window.location.pathname);
+      toast({ title: "Account Connected", description: "The Zoho authorization was saved to the account." });
+    }
+  }, [toast]);
+
   // Auto-select first account when accounts load
   React.useEffect(() => {
     if (accounts.length > 0 && !selectedAccountId) {
@@ -41,7 +58,8 @@ export default function Accounts() {
     name: "",
     client_id: "",
     client_secret: "",
-    refresh_token: ""
+    refresh_token: "",
+    data_center: DEFAULT_DATA_CENTER as ZohoDataCenter
   });
 
   // Get leads query
@@ -54,10 +72,13 @@ export default function Accounts() {
   const saveAccountMutation = useMutation({
     mutationFn: async (data: typeof formData & { id?: number }) => {
       // Validate connection first
+      // When editing, blank secrets mean "keep the saved ones"; the server fills them in by account_id
       const validationResponse = await apiRequest('POST', '/api/accounts/validate', {
+        account_id: data.id,
         client_id: data.client_id,
         client_secret: data.client_secret,
-        refresh_token: data.refresh_token
+        refresh_token: data.refresh_token,
+        data_center: data.data_center
       });
 
       const validationResult = await validationResponse.json();
@@ -108,11 +129,7 @@ export default function Accounts() {
       const account = accounts.find(acc => acc.id.toString() === accountId);
       if (!account) throw new Error('Account not found');
       
-      const response = await apiRequest('POST', '/api/accounts/validate', {
-        client_id: account.client_id,
-        client_secret: account.client_secret,
-        refresh_token: account.refresh_token
-      });
+      const response = await apiRequest('POST', '/api/accounts/validate', { account_id: account.id });
       
       return response.json();
     },
@@ -149,7 +166,7 @@ export default function Accounts() {
   });
 
   const resetForm = () => {
-    setFormData({ name: "", client_id: "", client_secret: "", refresh_token: "" });
+    setFormData({ name: "", client_id: "", client_secret: "", refresh_token: "", data_center: DEFAULT_DATA_CENTER });
     setEditingAccount(null);
   };
 
@@ -160,8 +177,9 @@ export default function Accounts() {
       setFormData({
         name: account.name,
         client_id: account.client_id,
-        client_secret: account.client_secret,
-        refresh_token: account.refresh_token
+        client_secret: "",
+        refresh_token: "",
+        data_center: isZohoDataCenter(account.data_center) ? account.data_center : DEFAULT_DATA_CENTER
       });
     }
   };
@@ -178,17 +196,33 @@ export default function Accounts() {
     }
   };
 
-  const handleGenerateToken = () => {
-    if (!formData.client_id || !formData.client_secret) {
+  // Sends the user through Zoho's consent screen; the callback saves the account and returns here
+  const authorizeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/zoho/generate-auth-url', {
+        ...formData,
+        account_id: editingAccount?.id,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { url: string }) => {
+      window.location.assign(data.url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to start authorization: ${error.message}`, variant: "destructive" });
+    }
+  });
+
+  const handleAuthorize = () => {
+    if (!formData.name || !formData.client_id || (!editingAccount && !formData.client_secret)) {
       toast({
-        title: "Missing Credentials",
-        description: "Please enter a Client ID and Client Secret before generating a token.",
+        title: "Missing Details",
+        description: "Please enter an Account Name, Client ID and Client Secret before authorizing.",
         variant: "destructive",
       });
       return;
     }
-    const url = `/api/zoho/generate-auth-url?client_id=${encodeURIComponent(formData.client_id)}&client_secret=${encodeURIComponent(formData.client_secret)}`;
-    window.open(url, '_blank');
+    authorizeMutation.mutate();
   };
 
   const handleCopyAccessToken = () => {
@@ -248,7 +282,7 @@ export default function Accounts() {
               <Button 
                 variant="outline"
                 onClick={handleDelete}
-                disabled={!selectedAccountId}
+                disabled={!selectedAccountId || !isAdmin}
                 data-testid="button-delete-account"
               >
                 <Trash2 className="w-4 h-4 mr-2" />
@@ -265,7 +299,7 @@ export default function Accounts() {
               </Button>
             </div>
 
-            {selectedAccountId && (
+            {selectedAccountId && isAdmin && (
               <div className="mt-4 pt-4 border-t border-border">
                 <div className="flex items-center justify-between mb-2">
                   <Label className="text-sm font-semibold">Current Access Token</Label>
@@ -330,10 +364,27 @@ export default function Accounts() {
                 id="client-secret"
                 value={formData.client_secret}
                 onChange={(e) => setFormData({ ...formData, client_secret: e.target.value })}
-                required
+                placeholder={editingAccount ? "Leave blank to keep the saved secret" : undefined}
+                required={!editingAccount}
                 data-testid="input-client-secret"
               />
             </div>
+            <div>
+              <Label htmlFor="data-center">Data Center</Label>
+              <Select
+                value={formData.data_center}
+                onValueChange={(value) => setFormData({ ...formData, data_center: value as ZohoDataCenter })}
+              >
+                <SelectTrigger id="data-center" data-testid="select-data-center">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ZOHO_DATA_CENTERS) as ZohoDataCenter[]).map((dc) => (
+                    <SelectItem key={dc} value={dc}>{ZOHO_DATA_CENTERS[dc].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <Label htmlFor="refresh-token">Refresh Token</Label>
               <div className="flex items-center space-x-2">
@@ -341,14 +392,19 @@ export default function Accounts() {
                   id="refresh-token"
                   value={formData.refresh_token}
                   onChange={(e) => setFormData({ ...formData, refresh_token: e.target.value })}
-                  required
+                  placeholder={editingAccount ? "Leave blank to keep the saved token" : undefined}
+                  required={!editingAccount}
                   data-testid="input-refresh-token"
                 />
-                <Button type="button" variant="outline" onClick={handleGenerateToken}>
+                <Button type="button" variant="outline" onClick={handleAuthorize} disabled={authorizeMutation.isPending}>
                   <KeyRound className="w-4 h-4 mr-2" />
-                  Generate
+                  Authorize
                 </Button>
               </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Authorize signs in to Zoho and saves the account with a new refresh token, so there is nothing to paste.
+                Authorize again when a page reports a missing Zoho scope: a token only has the scopes requested when it was granted.
+              </p>
             </div>
             <div className="flex space-x-3 pt-4">
               <Button 
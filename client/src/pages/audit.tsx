@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAccounts } from "@/hooks/use-accounts";
+import { getAuditLog } from "@/lib/api";
+import { AUDIT_ACTIONS, type AuditEntry } from "@shared/schema";
+import { ChevronLeft, ChevronRight, RefreshCw } from "lucide-react";
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const emptyFilters = { action: ALL, accountId: ALL, actor: "", from: "", to: "" };
+
+export default function Audit() {
+  const { data: accounts = [] } = useAccounts();
+  const [filters, setFilters] = useState(emptyFilters);
+  const [page, setPage] = useState(0);
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery<{ entries: AuditEntry[]; total: number }>({
+    queryKey: ['audit', filters, page],
+    queryFn: () => getAuditLog({
+      action: filters.action === ALL ? undefined : filters.action,
+      accountId: filters.accountId === ALL ? undefined : filters.accountId,
+      actor: filters.actor,
+      // Date inputs are local days; send the whole day as an ISO range
+      from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+      to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    }),
+  });
+
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(0);
+  };
+
+  const accountName = (id: number | null) => {
+    if (id === null) return '-';
+    return accounts.find(acc => acc.id === id)?.name || `#${id}`;
+  };
+
+  const entries = data?.entries || [];
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div className="form-card">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <Label htmlFor="audit-action">Action</Label>
+            <Select value={filters.action} onValueChange={(value) => updateFilter('action', value)}>
+              <SelectTrigger id="audit-action" data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {AUDIT_ACTIONS.map((action) => (
+                  <SelectItem key={action} value={action}>{action}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-account">Account</Label>
+            <Select value={filters.accountId} onValueChange={(value) => updateFilter('accountId', value)}>
+              <SelectTrigger id="audit-account" data-testid="select-audit-account">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All accounts</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id.toString()}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-actor">User</Label>
+            <Input
+              id="audit-actor"
+              value={filters.actor}
+              onChange={(e) => updateFilter('actor', e.target.value)}
+              placeholder="Username"
+              data-testid="input-audit-actor"
+            />
+          </div>
+          <div>
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-3 mt-4">
+          <Button variant="outline" onClick={() => { setFilters(emptyFilters); setPage(0); }}>Clear Filters</Button>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="form-card">
+        {isLoading ? (
+          <div className="loading-spinner">Loading audit log...</div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No audit entries match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Time</th>
+                  <th className="text-left p-2">User</th>
+                  <th className="text-left p-2">Action</th>
+                  <th className="text-left p-2">Account</th>
+                  <th className="text-left p-2">Details</th>
+                  <th className="text-left p-2">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b align-top" data-testid={`row-audit-${entry.id}`}>
+                    <td className="p-2 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                    <td className="p-2">{entry.actor_username}</td>
+                    <td className="p-2"><Badge variant="outline">{entry.action}</Badge></td>
+                    <td className="p-2">{accountName(entry.account_id)}</td>
+                    <td className="p-2">
+                      <div>{entry.summary}</div>
+                      {entry.target_ids.length > 0 && (
+                        <div className="text-xs text-muted-foreground break-all">IDs: {entry.target_ids.join(', ')}</div>
+                      )}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      <Badge variant={entry.success ? 'secondary' : 'destructive'}>{entry.success ? 'OK' : 'Failed'}</Badge>
+                      {(entry.status_code || entry.zoho_code) && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {[entry.status_code, entry.zoho_code].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+          <span>{total} entries</span>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span>Page {page + 1} of {pageCount}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,10 +11,21 @@ import { useToast } from "@/hooks/use-toast";
 import { useAccounts } from "@/hooks/use-accounts";
 import { apiRequest } from "@/lib/queryClient";
 import bulkContactsState, { initialFormData } from "@/lib/bulkContactsState";
-import { Rocket, StopCircle, Mail, Circle, X, Filter, Download, RefreshCw, Eye, Pause, Play, Plus, Save } from "lucide-react";
+import { Rocket, StopCircle, Mail, Circle, X, Filter, Download, RefreshCw, Eye, Pause, Play, Plus, Save, ListPlus } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import JobHistory from "@/components/job-history";
+import ZohoFieldInput from "@/components/zoho-field-input";
+import ContactImport from "@/components/contact-import";
+import MergeTagPreview from "@/components/merge-tag-preview";
+import LibraryTemplateLoader from "@/components/library-template-loader";
+import JobScheduleEditor, { scheduleError } from "@/components/job-schedule-editor";
+import SendQuotaPanel from "@/components/send-quota-panel";
+import { prepareFieldValues } from "@shared/zohoFieldValues";
+import { mapImportRows, importedCells } from "@shared/contactImport";
+import { checkMergeTags, recipientMergeValues } from "@shared/mergeTags";
+import type { ZohoFieldsResponse } from "@shared/zohoFields";
 
 const isResultSuccessful = (result: any) => {
   const isContactSuccess = result.contactStatus === 'Success' || (result.response?.contact?.data?.[0]?.code === 'DUPLICATE_DATA');
@@ -43,6 +54,7 @@ export default function BulkContactsBigin() {
   const [selectedFieldToAdd, setSelectedFieldToAdd] = useState<string>("");
   const [visibleCustomFields, setVisibleCustomFields] = useState<string[]>([]);
   const [showCustomOnly, setShowCustomOnly] = useState(true);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   // Correct Zustand Subscription
   useEffect(() => {
@@ -68,19 +80,59 @@ export default function BulkContactsBigin() {
       return jobStatuses[`bigin-${selectedAccountId}`] || null;
   }, [jobStatuses, selectedAccountId]);
 
+  const [viewedJobId, setViewedJobId] = useState<string | null>(null);
+  const { data: viewedJob } = useQuery<any>({
+    queryKey: ['/api/jobs', viewedJobId],
+    enabled: !!viewedJobId,
+    refetchInterval: isPollingActive ? 1000 : false,
+  });
+
+  // The results panel shows a run picked from the history, or else the lane's current job
+  const displayedJob = useMemo(() => {
+      if (!viewedJobId) return currentJob;
+      if (!viewedJob) return null;
+      return { ...viewedJob, jobId: viewedJob.id, processed: viewedJob.currentIndex, total: viewedJob.totalEmails };
+  }, [viewedJobId, viewedJob, currentJob]);
+
   const formKey = `bigin-${selectedAccountId}`;
   const formData = allFormsData.forms[formKey] || initialFormData;
+  const isFileImport = formData.recipientSource === "file";
+  const presetFields = useMemo(() => Object.keys(formData.customFields || {}), [formData.customFields]);
+  const emailList = useMemo(() => formData.emails.split('\n').map(e => e.trim()).filter(Boolean), [formData.emails]);
 
   const { data: fromAddresses = [], isLoading: isLoadingFromAddresses } = useQuery({
     queryKey: ['/api/bigin/from_addresses', selectedAccountId],
     enabled: !!selectedAccountId,
   });
 
-  const { data: zohoFieldsData, isLoading: isLoadingFields } = useQuery({
+  const { data: zohoFieldsData, isLoading: isLoadingFields } = useQuery<ZohoFieldsResponse>({
     queryKey: ['/api/bigin/fields', selectedAccountId],
     enabled: !!selectedAccountId,
   });
 
+  // Each recipient's merge tag values before their contact exists, for the preview and the tag check
+  const mergeRecipients = useMemo(() => {
+    const imported = formData.contactImport;
+    if (!isFileImport) {
+      return emailList.map(email => recipientMergeValues({ email, lastName: formData.lastName, customFields: formData.customFields }));
+    }
+    if (!imported) return [];
+    const { records } = mapImportRows(zohoFieldsData?.fields || [], imported, presetFields);
+    return records.map((row, index) => recipientMergeValues({
+      email: row.Email || '', customFields: formData.customFields, row, cells: importedCells(imported, index),
+    }));
+  }, [isFileImport, emailList, formData.contactImport, formData.lastName, formData.customFields, zohoFieldsData, presetFields]);
+
+  const mergeTagErrors = useMemo(() => {
+    if (!formData.sendEmail) return [];
+    return checkMergeTags([formData.subject, formData.content], mergeRecipients, {
+      fieldNames: (zohoFieldsData?.fields || []).map((field: any) => field.api_name),
+      columnNames: isFileImport ? formData.contactImport?.columns : undefined,
+      suppliedNames: [...presetFields, ...(isFileImport ? Object.values(formData.contactImport?.mapping || {}) : ['Last_Name'])],
+      firstLine: isFileImport ? 2 : undefined,
+    });
+  }, [formData.sendEmail, formData.subject, formData.content, mergeRecipients, zohoFieldsData, isFileImport, formData.contactImport, presetFields]);
+
   const { data: users = [], refetch: refetchUsers, isLoading: isLoadingUsers } = useQuery({
     queryKey: ['/api/bigin/users', selectedAccountId],
     enabled: !!selectedAccountId,
@@ -99,7 +151,7 @@ export default function BulkContactsBigin() {
       const ignoredFields = ['Last_Name', 'Email', 'id', 'Created_Time', 'Modified_Time'];
       const filtered = zohoFieldsData.fields.filter((f: any) => {
         if (ignoredFields.includes(f.api_name)) return false;
-        if (!f.view_type?.create) return false;
+        if (!f.creatable) return false;
         if (showCustomOnly && !f.custom_field) return false;
         return true;
       });
@@ -164,6 +216,16 @@ export default function BulkContactsBigin() {
   }, [currentTick, allFormsData.timers, selectedAccountId]);
 
   const isJobRunning = currentJob?.status === 'processing' || currentJob?.status === 'paused';
+
+  // Queued jobs start server-side when the previous one ends; restart the timer when that happens
+  const lastJobIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    const jobId = currentJob?.jobId || null;
+    if (lastJobIdRef.current && jobId && jobId !== lastJobIdRef.current && currentJob?.status === 'processing') {
+      bulkContactsState.getState().startTimer(`bigin-${selectedAccountId}`);
+    }
+    lastJobIdRef.current = jobId;
+  }, [currentJob?.jobId, currentJob?.status, selectedAccountId]);
   
   const handleFormChange = (field: keyof typeof initialFormData, value: any) => {
     bulkContactsState.getState().updateFormData(formKey, field, value);
@@ -184,6 +246,7 @@ export default function BulkContactsBigin() {
 
   const handleCustomFieldChange = (apiName: string, value: any) => {
     bulkContactsState.getState().updateCustomField(formKey, apiName, value);
+    setFieldErrors(({ [apiName]: _cleared, ...rest }) => rest);
   };
 
   const updateUserMutation = useMutation({
@@ -202,6 +265,7 @@ export default function BulkContactsBigin() {
 
   const handleAccountChange = (accountId: string) => {
     setSelectedAccountId(accountId);
+    setViewedJobId(null);
     setSelectedUserId("");
     setUserFirstName("");
   };
@@ -222,30 +286,69 @@ export default function BulkContactsBigin() {
   };
 
   const handleStartProcess = async () => {
-    const emailList = formData.emails.split('\n').map(e => e.trim()).filter(Boolean);
-    if (emailList.length === 0) {
+    if (isFileImport) {
+      if (!formData.contactImport) {
+        toast({ title: "No file imported", variant: "destructive" });
+        return;
+      }
+      const { errors: importErrors } = mapImportRows(zohoFieldsData?.fields || [], formData.contactImport, presetFields);
+      if (importErrors.length > 0) {
+        toast({ title: "Fix the imported file first", description: `${importErrors.length} problem(s) found.`, variant: "destructive" });
+        return;
+      }
+    } else if (emailList.length === 0) {
       toast({ title: "No emails entered", variant: "destructive" });
       return;
     }
-    const { emails: _emails, ...restOfFormData } = formData;
+    if (mergeTagErrors.length > 0) {
+      toast({ title: "Unresolved merge tags", description: mergeTagErrors[0].message, variant: "destructive" });
+      return;
+    }
+    const invalidSchedule = scheduleError(formData.schedule);
+    if (invalidSchedule) {
+      toast({ title: "Invalid schedule", description: invalidSchedule, variant: "destructive" });
+      return;
+    }
+    const { values: customFields, errors } = prepareFieldValues(zohoFieldsData?.fields || [], formData.customFields || {});
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      toast({ title: "Invalid field values", description: Object.values(errors).join(' '), variant: "destructive" });
+      return;
+    }
+    const { emails: _emails, contactImport, recipientSource: _source, ...restOfFormData } = formData;
     const key = `bigin-${selectedAccountId}`;
     
-    // START TIMER
-    bulkContactsState.getState().startTimer(key);
-    
     const currentUser = (users as any[]).find(u => u.id === selectedUserId);
     const fromUserName = currentUser ? currentUser.first_name : undefined;
 
-    await apiRequest('POST', `/api/jobs/start/${selectedAccountId}`, {
-      emails: emailList,
+    const response = await apiRequest('POST', `/api/jobs/start/${selectedAccountId}`, {
+      ...(isFileImport && contactImport
+        ? { import: { columns: contactImport.columns, rows: contactImport.rows, mapping: contactImport.mapping } }
+        : { emails: emailList }),
       ...restOfFormData,
+      customFields,
       fromAddresses: fromAddresses.map((addr: any) => ({
           ...addr,
           user_name: fromUserName || addr.user_name
       })),
       platform: 'bigin'
     });
+    const { status } = await response.json();
     
+    if (status === 'scheduled') {
+      await queryClient.invalidateQueries({ queryKey: ['/api/jobs/status'] });
+      toast({ title: "Job Scheduled", description: "It will start at its scheduled time; see Scheduled Jobs." });
+      return;
+    }
+    if (status === 'queued') {
+      await queryClient.invalidateQueries({ queryKey: ['/api/jobs/status'] });
+      toast({ title: "Job Queued", description: "It will start when the current job for this account finishes." });
+      return;
+    }
+
+    // START TIMER
+    bulkContactsState.getState().startTimer(key);
+
     await queryClient.invalidateQueries({ queryKey: ['/api/jobs/status'] });
     toast({ title: "Job Started", description: `Bigin bulk process for account ${selectedAccountId} has begun.` });
   };
@@ -284,9 +387,9 @@ export default function BulkContactsBigin() {
   };
 
   const filteredResults = useMemo(() => {
-    if (!currentJob?.results) return [];
+    if (!displayedJob?.results) return [];
     
-    const resultsWithStatus = currentJob.results.map((result: any) => {
+    const resultsWithStatus = displayedJob.results.map((result: any) => {
       const isDuplicate = result.response?.contact?.data?.[0]?.code === 'DUPLICATE_DATA';
       const isSuccess = isResultSuccessful(result);
       return { ...result, isSuccess, isDuplicate };
@@ -297,11 +400,11 @@ export default function BulkContactsBigin() {
     return resultsWithStatus.filter((result: any) => {
         return filterStatus === 'success' ? result.isSuccess : !result.isSuccess;
     });
-  }, [currentJob, filterStatus]);
+  }, [displayedJob, filterStatus]);
 
   const { successCount, failCount } = useMemo(() => {
-    if (!currentJob?.results) return { successCount: 0, failCount: 0 };
-    return currentJob.results.reduce(
+    if (!displayedJob?.results) return { successCount: 0, failCount: 0 };
+    return displayedJob.results.reduce(
         (acc: { successCount: number; failCount: number }, result: any) => {
             if (isResultSuccessful(result)) acc.successCount++;
             else acc.failCount++;
@@ -309,7 +412,7 @@ export default function BulkContactsBigin() {
         }, 
         { successCount: 0, failCount: 0 }
     );
-  }, [currentJob?.results]);
+  }, [displayedJob?.results]);
 
   const handleExport = () => { 
     if (filteredResults.length === 0) {
@@ -328,8 +431,8 @@ export default function BulkContactsBigin() {
     toast({ title: "Export successful!", description: `Exported ${filteredResults.length} emails.`});
   };
 
-  const emailCount = formData.emails.split('\n').filter(Boolean).length;
-  const progressPercentage = currentJob?.total > 0 ? ((currentJob?.processed || 0) / currentJob.total) * 100 : 0;
+  const emailCount = emailList.length;
+  const progressPercentage = displayedJob?.total > 0 ? ((displayedJob?.processed || 0) / displayedJob.total) * 100 : 0;
 
   return (
     <div className="space-y-8">
@@ -442,7 +545,7 @@ export default function BulkContactsBigin() {
               <Label htmlFor="show-custom-only" className="text-xs text-muted-foreground">Show only custom fields</Label>
             </div>
             <div className="flex gap-2">
-                <Select value={selectedFieldToAdd} onValueChange={setSelectedFieldToAdd} disabled={isLoadingFields || isJobRunning}>
+                <Select value={selectedFieldToAdd} onValueChange={setSelectedFieldToAdd} disabled={isLoadingFields}>
                     <SelectTrigger className="flex-1">
                         <SelectValue placeholder={isLoadingFields ? "Loading fields..." : "Select a field to add..."} />
                     </SelectTrigger>
@@ -457,7 +560,7 @@ export default function BulkContactsBigin() {
                         }
                     </SelectContent>
                 </Select>
-                <Button onClick={handleAddCustomField} disabled={!selectedFieldToAdd || isJobRunning} type="button" variant="secondary">
+                <Button onClick={handleAddCustomField} disabled={!selectedFieldToAdd} type="button" variant="secondary">
                     <Plus className="w-4 h-4 mr-2" /> Add
                 </Button>
             </div>
@@ -465,37 +568,33 @@ export default function BulkContactsBigin() {
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-4">
-            <div>
-              <Label>Recipient Last Name</Label>
-              <Input value={formData.lastName} onChange={e => handleFormChange("lastName", e.target.value)} disabled={isJobRunning} />
-            </div>
+            {!isFileImport && (
+              <div>
+                <Label>Recipient Last Name</Label>
+                <Input value={formData.lastName} onChange={e => handleFormChange("lastName", e.target.value)} />
+              </div>
+            )}
 
             {visibleCustomFields.map(apiName => {
                 const fieldDef = zohoFieldsData?.fields?.find((f: any) => f.api_name === apiName);
                 if (!fieldDef) return null;
-                const currentValue = formData.customFields?.[apiName] || "";
 
                 return (
                     <div key={apiName} className="relative p-3 border rounded-md bg-background">
                         <div className="flex justify-between items-center mb-1.5">
                             <Label>{fieldDef.display_label}</Label>
-                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleRemoveCustomField(apiName)} disabled={isJobRunning}>
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleRemoveCustomField(apiName)}>
                                 <X className="w-3 h-3 text-muted-foreground hover:text-destructive" />
                             </Button>
                         </div>
-                        {fieldDef.data_type === 'picklist' ? (
-                            <Select value={currentValue} onValueChange={(val) => handleCustomFieldChange(apiName, val)} disabled={isJobRunning}>
-                                <SelectTrigger><SelectValue placeholder={`Select ${fieldDef.display_label}`} /></SelectTrigger>
-                                <SelectContent>{fieldDef.pick_list_values?.map((opt: any) => (<SelectItem key={opt.display_value} value={opt.actual_value}>{opt.display_value}</SelectItem>))}</SelectContent>
-                            </Select>
-                        ) : fieldDef.data_type === 'boolean' ? (
-                            <div className="flex items-center space-x-2">
-                                <Checkbox checked={currentValue === true} onCheckedChange={(val) => handleCustomFieldChange(apiName, val)} disabled={isJobRunning} />
-                                <span className="text-sm text-muted-foreground">Yes</span>
-                            </div>
-                        ) : (
-                            <Input type={fieldDef.data_type === 'integer' || fieldDef.data_type === 'double' ? "number" : "text"} value={currentValue} onChange={(e) => handleCustomFieldChange(apiName, e.target.value)} disabled={isJobRunning} />
-                        )}
+                        <ZohoFieldInput
+                            field={fieldDef}
+                            value={formData.customFields?.[apiName]}
+                            onChange={(val) => handleCustomFieldChange(apiName, val)}
+                            accountId={selectedAccountId}
+                            platform="bigin"
+                            error={fieldErrors[apiName]}
+                        />
                     </div>
                 );
             })}
@@ -524,42 +623,79 @@ export default function BulkContactsBigin() {
                 <>
                     <div className="mb-4">
                     <Label>From Address</Label>
-                    <Select value={formData.fromEmail} onValueChange={value => handleFormChange("fromEmail", value)} disabled={isJobRunning || isLoadingFromAddresses}>
+                    <Select value={formData.fromEmail} onValueChange={value => handleFormChange("fromEmail", value)} disabled={isLoadingFromAddresses}>
                         <SelectTrigger><SelectValue placeholder={isLoadingFromAddresses ? "Loading..." : "Choose from address"} /></SelectTrigger>
                         <SelectContent>{(fromAddresses as any[]).map(address => <SelectItem key={address.email} value={address.email}>{address.email}</SelectItem>)}</SelectContent>
                     </Select>
+                    <div className="mt-2">
+                    <SendQuotaPanel accountId={selectedAccountId} fromEmail={formData.fromEmail} />
+                    </div>
                     </div>
                     <div className="mb-4">
                     <Label>Subject</Label>
-                    <Input value={formData.subject} onChange={e => handleFormChange("subject", e.target.value)} disabled={isJobRunning} />
+                    <Input value={formData.subject} onChange={e => handleFormChange("subject", e.target.value)} />
                     </div>
                 </>
                 )}
                 <div>
                 <Label>Delay between actions (seconds)</Label>
-                <Input type="number" value={formData.delay} onChange={e => handleFormChange("delay", parseInt(e.target.value) || 0)} min="0" disabled={isJobRunning} />
+                <Input type="number" value={formData.delay} onChange={e => handleFormChange("delay", parseInt(e.target.value) || 0)} min="0" />
+                </div>
+                <div className="mt-4">
+                <JobScheduleEditor accountId={selectedAccountId} platform="bigin" value={formData.schedule} onChange={schedule => handleFormChange("schedule", schedule)} />
                 </div>
             </div>
           </div>
           
            <div className="space-y-4">
-            <div>
-              <Label>Recipient Emails ({emailCount} emails)</Label>
-              <Textarea rows={8} value={formData.emails} onChange={e => handleFormChange("emails", e.target.value)} placeholder="email1@example.com&#10;email2@example.com" disabled={isJobRunning} />
+            <div className="flex gap-2">
+              <Button type="button" size="sm" variant={isFileImport ? "outline" : "secondary"} onClick={() => handleFormChange("recipientSource", "emails")}>Paste emails</Button>
+              <Button type="button" size="sm" variant={isFileImport ? "secondary" : "outline"} onClick={() => handleFormChange("recipientSource", "file")}>Import file</Button>
             </div>
+            {isFileImport ? (
+              <ContactImport
+                fields={zohoFieldsData?.fields || []}
+                value={formData.contactImport}
+                onChange={(value) => handleFormChange("contactImport", value)}
+                presetFields={presetFields}
+              />
+            ) : (
+              <div>
+                <Label>Recipient Emails ({emailCount} emails)</Label>
+                <Textarea rows={8} value={formData.emails} onChange={e => handleFormChange("emails", e.target.value)} placeholder="email1@example.com&#10;email2@example.com" />
+              </div>
+            )}
             {formData.sendEmail && (
               <div>
                 <div className="flex items-center justify-between mb-2">
                   <Label>Content</Label>
-                  <Dialog>
-                    <DialogTrigger asChild><Button type="button" variant="outline" size="sm" disabled={!formData.content}><Eye className="w-4 h-4 mr-2" /> Preview</Button></DialogTrigger>
-                    <DialogContent className="max-w-2xl max-h-[80vh] overflow-auto">
-                      <DialogHeader><DialogTitle>Email Content Preview</DialogTitle></DialogHeader>
-                      <div className="border rounded-lg p-4 bg-white"><div dangerouslySetInnerHTML={{ __html: formData.content }} className="prose max-w-none" /></div>
-                    </DialogContent>
-                  </Dialog>
+                  <div className="flex gap-2">
+                    <LibraryTemplateLoader
+                      accountId={selectedAccountId}
+                      hasContent={!!(formData.subject || formData.content)}
+                      onLoad={version => { handleFormChange("subject", version.subject); handleFormChange("content", version.html); }}
+                    />
+                    <Dialog>
+                      <DialogTrigger asChild><Button type="button" variant="outline" size="sm" disabled={!formData.content}><Eye className="w-4 h-4 mr-2" /> Preview</Button></DialogTrigger>
+                      <DialogContent className="max-w-2xl max-h-[80vh] overflow-auto">
+                        <DialogHeader><DialogTitle>Email Content Preview</DialogTitle></DialogHeader>
+                        <MergeTagPreview subject={formData.subject} content={formData.content} recipients={mergeRecipients} />
+                      </DialogContent>
+                    </Dialog>
+                  </div>
                 </div>
-                <Textarea rows={6} value={formData.content} onChange={e => handleFormChange("content", e.target.value)} disabled={isJobRunning} />
+                <Textarea rows={6} value={formData.content} onChange={e => handleFormChange("content", e.target.value)} />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Personalize the subject and content with {'{{First_Name}}'}, {'{{Email}}'}, any Contacts field or imported column; add a fallback with {'{{First_Name|there}}'}.
+                </p>
+                {mergeTagErrors.length > 0 && (
+                  <ul className="text-sm text-destructive mt-2 space-y-1">
+                    {mergeTagErrors.slice(0, 5).map((error, index) => (
+                      <li key={index}>{error.line ? `Line ${error.line}: ` : ''}{error.message}</li>
+                    ))}
+                    {mergeTagErrors.length > 5 && <li>...and {mergeTagErrors.length - 5} more</li>}
+                  </ul>
+                )}
               </div>
             )}
              <div className="flex space-x-2 pt-4">
@@ -576,15 +712,22 @@ export default function BulkContactsBigin() {
                   <Button onClick={handleEndJob} variant="destructive" className="w-full"><StopCircle className="w-4 h-4 mr-2" /> End Job</Button>
                 </>
               )}
+              {isJobRunning && (
+                <Button onClick={handleStartProcess} variant="secondary" className="w-full" disabled={isLoadingFromAddresses}><ListPlus className="w-4 h-4 mr-2" /> Queue Job</Button>
+              )}
             </div>
           </div>
         </div>
       </div>
       
-      {currentJob && (
+      {selectedAccountId && (
+        <JobHistory accountId={selectedAccountId} platform="bigin" selectedJobId={viewedJobId} onSelectJob={setViewedJobId} />
+      )}
+
+      {displayedJob && (
         <div className="form-card">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-foreground">Results</h3>
+            <h3 className="text-lg font-semibold text-foreground">{viewedJobId ? `Results (run from ${new Date(displayedJob.createdAt).toLocaleString()})` : "Results"}</h3>
             <div className="flex items-center space-x-2">
                 <Select value={filterStatus} onValueChange={setFilterStatus}>
                   <SelectTrigger className="w-[180px]"><Filter className="w-4 h-4 mr-2" /><SelectValue placeholder="Filter by Status" /></SelectTrigger>
@@ -599,9 +742,10 @@ export default function BulkContactsBigin() {
           </div>
           <div className="flex items-center gap-4 mb-4">
             <Progress value={progressPercentage} className="w-full h-2" />
-            <div className="flex items-center justify-end text-sm font-medium text-muted-foreground whitespace-nowrap w-48">
-              <span>{currentJob.processed || 0} / {currentJob.total || 0}</span>
-              {currentJob.status === 'processing' && currentJob.countdown > 0 && <span className="ml-2">(Next in {currentJob.countdown}s)</span>}
+            <div className="flex items-center justify-end text-sm font-medium text-muted-foreground whitespace-nowrap min-w-[12rem]">
+              <span>{displayedJob.processed || 0} / {displayedJob.total || 0}</span>
+              {displayedJob.status === 'processing' && displayedJob.countdown > 0 && <span className="ml-2">(Next in {displayedJob.countdown}s)</span>}
+              {displayedJob.status === 'paused' && displayedJob.resumeAt && <span className="ml-2" title={displayedJob.waitingFor === 'quota' ? "A send quota is used up" : "Outside the sending window"}>(Resumes {new Date(displayedJob.resumeAt).toLocaleString()})</span>}
             </div>
           </div>
           <div className="overflow-x-auto">
@@ -1,18 +1,29 @@
 import React, { useState, useEffect, useMemo } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { useAccounts } from "@/hooks/use-accounts";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole } from "@shared/permissions";
 import { apiRequest } from "@/lib/queryClient";
-import { Trash2, Loader2, ListFilter, RefreshCw, CheckCircle2, XCircle, Clock } from "lucide-react";
+import { searchZohoContacts } from "@/lib/api";
+import type { ContactSearchParams, ContactSortKey } from "@shared/contactSearch";
+import DeleteByFilterDialog from "@/components/delete-by-filter-dialog";
+import DeletedBatches from "@/components/deleted-batches";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Trash2, Loader2, ListFilter, RefreshCw, CheckCircle2, XCircle, Clock, Search, X, ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
 
+const SEARCH_DELAY_MS = 400;
+const DEFAULT_SEARCH: ContactSearchParams = { sort: 'created', direction: 'desc', page: 1 };
+
 interface BatchStatus {
   id: number;
   range: string;
@@ -25,6 +36,8 @@ export default function ContactManager() {
   const { data: accounts = [] } = useAccounts();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const canDelete = hasRole(user?.role, 'admin');
   
   // --- FILTER CRM ACCOUNTS ---
   const validAccounts = useMemo(() => accounts.filter((acc: any) => acc.supports_crm !== false), [accounts]);
@@ -37,6 +50,7 @@ export default function ContactManager() {
   const [showProgress, setShowProgress] = useState(false);
   const [batchStatuses, setBatchStatuses] = useState<BatchStatus[]>([]);
   const [completedCount, setCompletedCount] = useState(0);
+  const [showDeleteByFilter, setShowDeleteByFilter] = useState(false);
 
   useEffect(() => {
     if (validAccounts.length > 0) {
@@ -47,10 +61,53 @@ export default function ContactManager() {
     }
   }, [validAccounts, selectedAccountId]);
 
-  const { data: contacts = [], isLoading, refetch } = useQuery({
-    queryKey: ['/api/zoho/contacts', selectedAccountId],
+  // Search, filters, sorting and paging all run on the server, one page at a time
+  const [searchText, setSearchText] = useState("");
+  const [search, setSearch] = useState<ContactSearchParams>(DEFAULT_SEARCH);
+
+  const updateSearch = (changes: Partial<ContactSearchParams>) => {
+    setSelectedContacts([]);
+    setSearch(prev => ({ ...prev, page: 1, ...changes }));
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const query = searchText.trim() || undefined;
+      if (query !== search.query) updateSearch({ query });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const { data: results, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['/api/zoho/contacts', selectedAccountId, search],
+    queryFn: () => searchZohoContacts(selectedAccountId, search),
     enabled: !!selectedAccountId,
+    placeholderData: keepPreviousData,
   });
+  const contacts = results?.contacts ?? [];
+  const page = results?.page ?? 1;
+  const totalPages = results?.total != null ? Math.max(1, Math.ceil(results.total / results.per_page)) : null;
+
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ['/api/zoho/users', selectedAccountId],
+    enabled: !!selectedAccountId,
+  });
+  const ownerNames = useMemo(() => new Map(users.map((u: any) => [String(u.id), u.full_name])), [users]);
+
+  const toggleSort = (column: ContactSortKey) => {
+    updateSearch({
+      sort: column,
+      direction: search.sort === column && search.direction === 'asc' ? 'desc' : 'asc',
+    });
+  };
+
+  // Active filters, shown as removable chips above the table
+  const filterChips = [
+    search.query && { key: 'query', label: `Search: "${search.query}"`, clear: () => { setSearchText(""); updateSearch({ query: undefined }); } },
+    search.owner && { key: 'owner', label: `Owner: ${ownerNames.get(search.owner) || search.owner}`, clear: () => updateSearch({ owner: undefined }) },
+    search.created_from && { key: 'created_from', label: `Created from ${search.created_from}`, clear: () => updateSearch({ created_from: undefined }) },
+    search.created_to && { key: 'created_to', label: `Created until ${search.created_to}`, clear: () => updateSearch({ created_to: undefined }) },
+  ].filter(Boolean) as { key: string; label: string; clear: () => void }[];
 
   const deleteBatchMutation = useMutation({
     mutationFn: async (ids: string[]) => {
@@ -61,6 +118,8 @@ export default function ContactManager() {
   const handleAccountChange = (accountId: string) => {
     setSelectedContacts([]);
     setSelectedAccountId(accountId);
+    setSearchText("");
+    setSearch(DEFAULT_SEARCH);
   };
 
   const handleSelectAll = (checked: boolean) => {
@@ -147,6 +206,16 @@ export default function ContactManager() {
     toast({ title: "Process Completed", description: "Batch deletion finished." });
   };
 
+  const renderSortHeader = (column: ContactSortKey, label: string) => (
+    <th className="text-left p-2">
+      <button type="button" className="inline-flex items-center gap-1 hover:text-primary" onClick={() => toggleSort(column)}>
+        {label}
+        {search.sort !== column ? <ArrowUpDown className="w-3 h-3 opacity-40" />
+          : search.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+      </button>
+    </th>
+  );
+
   const progressPercentage = batchStatuses.length > 0 
     ? (completedCount / batchStatuses.length) * 100 
     : 0;
@@ -168,69 +237,165 @@ export default function ContactManager() {
                 ))}
               </SelectContent>
             </Select>
-            <Button onClick={() => refetch()} disabled={isLoading || isDeleting || !selectedAccountId} variant="outline" size="sm">
-              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            <Button onClick={() => refetch()} disabled={isFetching || isDeleting || !selectedAccountId} variant="outline" size="sm">
+              {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
               <span className="ml-2 hidden sm:block">Refresh</span>
             </Button>
           </div>
         </div>
         
-        {isLoading && selectedAccountId ? (
-          <div className="text-center py-8"><Loader2 className="w-8 h-8 text-primary mx-auto mb-4 animate-spin" /><p>Loading contacts...</p></div>
-        ) : !selectedAccountId ? (
-          <p className="text-center text-muted-foreground py-8">Please select a Zoho account.</p>
-        ) : contacts.length > 0 ? (
-          <>
-            <div className="flex justify-end gap-2 mb-4">
-              <Button 
-                onClick={handleDeleteSelected} 
-                variant="destructive" 
-                disabled={isDeleting || selectedContacts.length === 0}
-              >
-                <Trash2 className="w-4 h-4 mr-2" /> 
-                Delete Selected ({selectedContacts.length})
-              </Button>
-            </div>
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead>
-                  <tr className="border-b">
-                    <th className="p-2 w-12 text-center">
-                      <Checkbox
-                        checked={selectedContacts.length === contacts.length && contacts.length > 0}
-                        onCheckedChange={(checked: boolean) => handleSelectAll(checked)}
-                        disabled={isDeleting}
-                      />
-                    </th>
-                    <th className="text-left p-2">Full Name</th>
-                    <th className="text-left p-2">Email</th>
-                    <th className="text-left p-2">Contact ID</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {contacts.map((contact: any) => (
-                    <tr key={contact.id} className="border-b">
-                      <td className="p-2 text-center">
-                        <Checkbox
-                          checked={selectedContacts.includes(contact.id)}
-                          onCheckedChange={(checked: boolean) => handleSelectContact(contact.id, checked)}
-                          disabled={isDeleting}
-                        />
-                      </td>
-                      <td className="p-2">{contact.Full_Name || 'N/A'}</td>
-                      <td className="p-2">{contact.Email || 'N/A'}</td>
-                      <td className="p-2 font-mono text-xs">{contact.id}</td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          </>
-        ) : (
-          <div className="text-center py-8"><ListFilter className="w-12 h-12 text-muted-foreground mx-auto mb-4" /><p>No contacts found.</p></div>
-        )}
+        <Tabs defaultValue="contacts">
+          {canDelete && (
+            <TabsList className="mb-4">
+              <TabsTrigger value="contacts">Contacts</TabsTrigger>
+              <TabsTrigger value="deleted">Deleted batches</TabsTrigger>
+            </TabsList>
+          )}
+          <TabsContent value="contacts" className="mt-0">
+            {selectedAccountId && (
+              <div className="space-y-3 mb-4">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="relative flex-1 min-w-[200px]">
+                    <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+                    <Input className="pl-8" placeholder="Search by name or email..." value={searchText} onChange={(e) => setSearchText(e.target.value)} />
+                  </div>
+                  <Select value={search.owner ?? "all"} onValueChange={(owner) => updateSearch({ owner: owner === "all" ? undefined : owner })}>
+                    <SelectTrigger className="w-48"><SelectValue placeholder="All owners" /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All owners</SelectItem>
+                      {users.map((u: any) => (
+                        <SelectItem key={u.id} value={String(u.id)}>{u.full_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex flex-col space-y-1">
+                    <Label className="text-xs">Created from</Label>
+                    <Input type="date" className="w-40" value={search.created_from ?? ""} onChange={(e) => updateSearch({ created_from: e.target.value || undefined })} />
+                  </div>
+                  <div className="flex flex-col space-y-1">
+                    <Label className="text-xs">Created until</Label>
+                    <Input type="date" className="w-40" value={search.created_to ?? ""} onChange={(e) => updateSearch({ created_to: e.target.value || undefined })} />
+                  </div>
+                  {canDelete && (
+                    <Button variant="outline" className="text-destructive" onClick={() => setShowDeleteByFilter(true)} disabled={isDeleting}>
+                      <Trash2 className="w-4 h-4 mr-2" /> Delete by filter
+                    </Button>
+                  )}
+                </div>
+                {filterChips.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {filterChips.map(chip => (
+                      <Badge key={chip.key} variant="secondary" className="gap-1">
+                        {chip.label}
+                        <button type="button" onClick={chip.clear} aria-label={`Remove ${chip.label}`}><X className="w-3 h-3" /></button>
+                      </Badge>
+                    ))}
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => { setSearchText(""); updateSearch({ query: undefined, owner: undefined, created_from: undefined, created_to: undefined }); }}>
+                      Clear all
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {error ? (
+              <p className="text-center text-destructive py-8">{(error as Error).message}</p>
+            ) : isLoading && selectedAccountId ? (
+              <div className="text-center py-8"><Loader2 className="w-8 h-8 text-primary mx-auto mb-4 animate-spin" /><p>Loading contacts...</p></div>
+            ) : !selectedAccountId ? (
+              <p className="text-center text-muted-foreground py-8">Please select a Zoho account.</p>
+            ) : contacts.length > 0 ? (
+              <>
+                <div className="flex items-center justify-between gap-2 mb-4">
+                  <span className="text-sm text-muted-foreground">
+                    {results?.total != null ? `${results.total} matching contacts` : `${contacts.length} contacts on this page`}
+                  </span>
+                  <Button 
+                    onClick={handleDeleteSelected} 
+                    variant="destructive" 
+                    disabled={!canDelete || isDeleting || selectedContacts.length === 0}
+                    title={canDelete ? undefined : "Only admins can delete contacts"}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" /> 
+                    Delete Selected ({selectedContacts.length})
+                  </Button>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="p-2 w-12 text-center">
+                          <Checkbox
+                            checked={selectedContacts.length === contacts.length && contacts.length > 0}
+                            onCheckedChange={(checked: boolean) => handleSelectAll(checked)}
+                            disabled={isDeleting}
+                          />
+                        </th>
+                        {renderSortHeader('name', 'Full Name')}
+                        {renderSortHeader('email', 'Email')}
+                        <th className="text-left p-2">Owner</th>
+                        {renderSortHeader('created', 'Created')}
+                        <th className="text-left p-2">Contact ID</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {contacts.map((contact: any) => (
+                        <tr key={contact.id} className="border-b">
+                          <td className="p-2 text-center">
+                            <Checkbox
+                              checked={selectedContacts.includes(contact.id)}
+                              onCheckedChange={(checked: boolean) => handleSelectContact(contact.id, checked)}
+                              disabled={isDeleting}
+                            />
+                          </td>
+                          <td className="p-2">{contact.Full_Name || 'N/A'}</td>
+                          <td className="p-2">{contact.Email || 'N/A'}</td>
+                          <td className="p-2 text-muted-foreground text-xs">{ownerNames.get(String(contact.Owner?.id)) || contact.Owner?.name || '-'}</td>
+                          <td className="p-2 text-muted-foreground text-xs">{contact.Created_Time ? new Date(contact.Created_Time).toLocaleDateString() : '-'}</td>
+                          <td className="p-2 font-mono text-xs">{contact.id}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex items-center justify-end gap-2 mt-4 text-sm">
+                  <span className="text-muted-foreground">Page {page}{totalPages ? ` of ${totalPages}` : ''}</span>
+                  <Button variant="outline" size="sm" disabled={page <= 1 || isFetching} onClick={() => updateSearch({ page: page - 1 })}>
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={!results?.more_records || isFetching} onClick={() => updateSearch({ page: page + 1 })}>
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="text-center py-8"><ListFilter className="w-12 h-12 text-muted-foreground mx-auto mb-4" /><p>No contacts found.</p></div>
+            )}
+          </TabsContent>
+          {canDelete && (
+            <TabsContent value="deleted" className="mt-0">
+              {selectedAccountId
+                ? <DeletedBatches accountId={selectedAccountId} />
+                : <p className="text-center text-muted-foreground py-8">Please select a Zoho account.</p>}
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
 
+      {selectedAccountId && (
+        <DeleteByFilterDialog
+          accountId={selectedAccountId}
+          open={showDeleteByFilter}
+          onOpenChange={setShowDeleteByFilter}
+          filters={search}
+          ownerName={search.owner ? ownerNames.get(search.owner) : undefined}
+          onFinished={() => {
+            setSelectedContacts([]);
+            queryClient.invalidateQueries({ queryKey: ['/api/zoho/contacts', selectedAccountId] });
+          }}
+        />
+      )}
+
       {/* Batch Progress Modal */}
       <Dialog open={showProgress} onOpenChange={(open) => !isDeleting && setShowProgress(open)}>
         <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
@@ -1,19 +1,20 @@
 import React, { useState, useEffect, useMemo } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAccounts } from "@/hooks/use-accounts";
+import { useContactStats } from "@/hooks/use-contact-stats";
 import { Mail, MailOpen, MousePointer, AlertTriangle, RefreshCw, Download, Filter, Loader2, Copy, XCircle, CheckCircle, Ban } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import StatCard from "@/components/ui/stat-card";
-import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import StatsJobProgress from "@/components/stats-job-progress";
 
 export default function EmailStatsBigin() {
   const { data: accounts = [] } = useAccounts();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   
   // --- FILTER: BIGIN ACCOUNTS ONLY ---
   const validAccounts = useMemo(() => accounts.filter((acc: any) => acc.supports_bigin === true), [accounts]);
@@ -25,7 +26,6 @@ export default function EmailStatsBigin() {
   const [selectedUserId, setSelectedUserId] = useState<string>("all");
   const [filterText, setFilterText] = useState<string>("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
-  const [progress, setProgress] = useState(0);
 
   // Validate Selection
   useEffect(() => {
@@ -39,12 +39,8 @@ export default function EmailStatsBigin() {
     }
   }, [validAccounts, selectedAccountId]);
 
-  // Fetch Stats (Bigin Endpoint)
-  const { data: contactStats = [], isLoading, refetch } = useQuery({
-    queryKey: ['/api/bigin/all-contact-stats', selectedAccountId],
-    enabled: !!selectedAccountId,
-    staleTime: Infinity,
-  });
+  // Stats are collected on the server in the background; this polls while a run is in progress
+  const { contacts: contactStats, refreshedAt, truncationReason, job, isRunning, isLoading, refresh, cancel, isRefreshing, canRefresh } = useContactStats(selectedAccountId, 'bigin');
 
   // Fetch Users (Bigin Endpoint)
   const { data: users = [] } = useQuery({
@@ -52,43 +48,10 @@ export default function EmailStatsBigin() {
     enabled: !!selectedAccountId,
   });
 
-  // Progress Bar Logic
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    const storageKey = `emailStatsBigin_startTime_${selectedAccountId}`;
-
-    if (isLoading) {
-      let startTime = parseInt(sessionStorage.getItem(storageKey) || '0');
-      if (!startTime) {
-        startTime = Date.now();
-        sessionStorage.setItem(storageKey, startTime.toString());
-      }
-
-      const updateProgress = () => {
-        const elapsed = Date.now() - startTime;
-        let p = 0;
-        if (elapsed < 3000) p = (elapsed / 3000) * 30; 
-        else if (elapsed < 10000) p = 30 + ((elapsed - 3000) / 7000) * 30; 
-        else p = 60 + ((elapsed - 10000) / 30000) * 30; 
-        setProgress(Math.min(p, 90));
-      };
-
-      updateProgress();
-      interval = setInterval(updateProgress, 500);
-
-    } else {
-      setProgress(100);
-      if (selectedAccountId) sessionStorage.removeItem(storageKey);
-    }
-    return () => clearInterval(interval);
-  }, [isLoading, selectedAccountId]);
-
   const handleAccountChange = (accountId: string) => {
     setSelectedAccountId(accountId);
     setSelectedUserId("all");
     sessionStorage.setItem('emailStatsBigin_selectedAccount', accountId);
-    sessionStorage.removeItem(`emailStatsBigin_startTime_${accountId}`);
-    setProgress(0);
   };
 
   // Logic to process contacts and count stats (Same logic, new data source)
@@ -115,18 +78,13 @@ export default function EmailStatsBigin() {
       if (contact.emails && contact.emails.length > 0) {
         hasSent = true;
         contact.emails.forEach((email: any) => {
-          // Bigin sometimes returns status as array, sometimes string
-          let statusList = [];
-          if (Array.isArray(email.status)) statusList = email.status;
-          else if (email.status) statusList = [{ type: email.status }]; // Normalize to array
-
+          // The server normalizes Bigin statuses to the CRM shape: [{ type }]
           let emailHasClicked = false, emailHasOpened = false;
           
-          statusList.forEach((status: any) => {
-            const type = (status.type || status).toLowerCase();
-            if (type === 'clicked') emailHasClicked = true;
-            if (type === 'opened') emailHasOpened = true;
-            if (type === 'bounced') hasBounced = true;
+          email.status.forEach((status: any) => {
+            if (status.type === 'clicked') emailHasClicked = true;
+            if (status.type === 'opened') emailHasOpened = true;
+            if (status.type === 'bounced') hasBounced = true;
           });
 
           if (emailHasClicked) hasClicked = true;
@@ -200,11 +158,7 @@ export default function EmailStatsBigin() {
     toast({ title: "Export successful", description: `Exported ${emails.split('\n').length} emails.` });
   };
 
-  const handleRefresh = () => {
-    sessionStorage.removeItem(`emailStatsBigin_startTime_${selectedAccountId}`);
-    setProgress(0);
-    refetch();
-  };
+  const handleRefresh = () => refresh();
 
   const StatCardWrapper = ({ status, children }: { status: string, children: React.ReactNode }) => (
     <div 
@@ -219,7 +173,17 @@ export default function EmailStatsBigin() {
     <div className="space-y-8">
       <div className="form-card">
         <div className="flex items-center justify-between mb-6">
-          <h3 className="text-lg font-semibold">Bigin Email Statistics</h3>
+          <div>
+            <h3 className="text-lg font-semibold">Bigin Email Statistics</h3>
+            <p className="text-xs text-muted-foreground">
+              {refreshedAt ? `Last refreshed at ${new Date(refreshedAt).toLocaleString()}` : 'Not collected yet'}
+              {refreshedAt && !isRunning && canRefresh && (
+                <button type="button" className="ml-2 underline hover:text-foreground" onClick={() => refresh(true)} disabled={isRefreshing}>
+                  Full refresh
+                </button>
+              )}
+            </p>
+          </div>
           <div className="flex items-center space-x-4">
             
             {/* Account Selector */}
@@ -253,30 +217,37 @@ export default function EmailStatsBigin() {
                 </Select>
             </div>
 
-            <Button onClick={handleRefresh} disabled={isLoading || !selectedAccountId} variant="outline" size="sm" className="mt-5">
-              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
-            </Button>
+            {canRefresh && (
+              <Button onClick={handleRefresh} disabled={isRunning || isRefreshing || !selectedAccountId} variant="outline" size="sm" className="mt-5">
+                {isRunning || isRefreshing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              </Button>
+            )}
           </div>
         </div>
 
-        {isLoading ? (
+        {isLoading || (isRunning && !refreshedAt) ? (
           <div className="flex flex-col items-center justify-center py-12 space-y-6">
-            <div className="w-full max-w-md space-y-3">
-              <div className="flex justify-between text-sm font-medium text-muted-foreground">
-                <span className="flex items-center gap-2">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Analyzing Bigin data...
-                </span>
-                <span>{Math.round(progress)}%</span>
-              </div>
-              <Progress value={progress} className="h-2 w-full transition-all duration-500" />
-              <p className="text-xs text-muted-foreground text-center pt-2">
-                Fetching contacts and email history...
-              </p>
-            </div>
+            {job && isRunning ? <StatsJobProgress job={job} onCancel={canRefresh ? cancel : undefined} /> : <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
           </div>
         ) : (
           <>
+            {isRunning && job && (
+              <div className="flex justify-center mb-6">
+                <StatsJobProgress job={job} onCancel={canRefresh ? cancel : undefined} />
+              </div>
+            )}
+            {truncationReason && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Incomplete contact list</AlertTitle>
+                <AlertDescription>These statistics do not cover every contact. {truncationReason}</AlertDescription>
+              </Alert>
+            )}
+            {job?.status === 'failed' && (
+              <p className="text-sm text-destructive mb-4">
+                The last refresh failed: {job.error}{refreshedAt ? ' Showing the previous results.' : ''}
+              </p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
               <StatCardWrapper status="sent">
                 <StatCard title="Sent" value={processedContacts.totalSent} icon={<Mail />} iconBg="bg-blue-100" iconColor="text-blue-600" description="Attempts" />
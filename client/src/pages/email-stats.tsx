@@ -1,19 +1,20 @@
 import React, { useState, useEffect, useMemo } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAccounts } from "@/hooks/use-accounts";
+import { useContactStats } from "@/hooks/use-contact-stats";
 import { Mail, MailOpen, MousePointer, AlertTriangle, RefreshCw, Download, Filter, Loader2, Copy, XCircle, CheckCircle, Ban } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import StatCard from "@/components/ui/stat-card";
-import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import StatsJobProgress from "@/components/stats-job-progress";
 
 export default function EmailStats() {
   const { data: accounts = [] } = useAccounts();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   
   // --- FILTER CRM ACCOUNTS ---
   const validAccounts = useMemo(() => accounts.filter((acc: any) => acc.supports_crm !== false), [accounts]);
@@ -26,7 +27,6 @@ export default function EmailStats() {
   const [selectedUserId, setSelectedUserId] = useState<string>("all"); // New User State
   const [filterText, setFilterText] = useState<string>("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
-  const [progress, setProgress] = useState(0);
 
   useEffect(() => {
     if (validAccounts.length > 0) {
@@ -40,12 +40,8 @@ export default function EmailStats() {
     }
   }, [validAccounts, selectedAccountId]);
 
-  // Fetch Stats
-  const { data: contactStats = [], isLoading, refetch } = useQuery({
-    queryKey: ['/api/zoho/all-contact-stats', selectedAccountId],
-    enabled: !!selectedAccountId,
-    staleTime: Infinity,
-  });
+  // Stats are collected on the server in the background; this polls while a run is in progress
+  const { contacts: contactStats, refreshedAt, truncationReason, bulkReadError, job, isRunning, isLoading, refresh, cancel, isRefreshing, canRefresh } = useContactStats(selectedAccountId, 'crm');
 
   // Fetch Users for Dropdown
   const { data: users = [] } = useQuery({
@@ -53,49 +49,10 @@ export default function EmailStats() {
     enabled: !!selectedAccountId,
   });
 
-  // Persistent Progress Logic
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    const storageKey = `emailStats_startTime_${selectedAccountId}`;
-
-    if (isLoading) {
-      let startTime = parseInt(sessionStorage.getItem(storageKey) || '0');
-      if (!startTime) {
-        startTime = Date.now();
-        sessionStorage.setItem(storageKey, startTime.toString());
-      }
-
-      const updateProgress = () => {
-        const elapsed = Date.now() - startTime;
-        let p = 0;
-        if (elapsed < 5000) {
-            p = (elapsed / 5000) * 30; 
-        } else if (elapsed < 15000) {
-            p = 30 + ((elapsed - 5000) / 10000) * 30; 
-        } else {
-            p = 60 + ((elapsed - 15000) / 60000) * 30; 
-        }
-        setProgress(Math.min(p, 90));
-      };
-
-      updateProgress();
-      interval = setInterval(updateProgress, 500);
-
-    } else {
-      setProgress(100);
-      if (selectedAccountId) {
-        sessionStorage.removeItem(storageKey);
-      }
-    }
-    return () => clearInterval(interval);
-  }, [isLoading, selectedAccountId]);
-
   const handleAccountChange = (accountId: string) => {
     setSelectedAccountId(accountId);
     setSelectedUserId("all"); // Reset user filter on account change
     sessionStorage.setItem('emailStats_selectedAccount', accountId);
-    sessionStorage.removeItem(`emailStats_startTime_${accountId}`);
-    setProgress(0);
   };
 
   // Logic to process contacts and count stats
@@ -216,11 +173,7 @@ export default function EmailStats() {
     toast({ title: "Export successful", description: `Exported ${emails.split('\n').length} emails.` });
   };
 
-  const handleRefresh = () => {
-    sessionStorage.removeItem(`emailStats_startTime_${selectedAccountId}`);
-    setProgress(0);
-    refetch();
-  };
+  const handleRefresh = () => refresh();
 
   // Helper to make cards clickable
   const StatCardWrapper = ({ status, children }: { status: string, children: React.ReactNode }) => (
@@ -236,7 +189,17 @@ export default function EmailStats() {
     <div className="space-y-8">
       <div className="form-card">
         <div className="flex items-center justify-between mb-6">
-          <h3 className="text-lg font-semibold">Email Statistics</h3>
+          <div>
+            <h3 className="text-lg font-semibold">Email Statistics</h3>
+            <p className="text-xs text-muted-foreground">
+              {refreshedAt ? `Last refreshed at ${new Date(refreshedAt).toLocaleString()}` : 'Not collected yet'}
+              {refreshedAt && !isRunning && canRefresh && (
+                <button type="button" className="ml-2 underline hover:text-foreground" onClick={() => refresh(true)} disabled={isRefreshing}>
+                  Full refresh
+                </button>
+              )}
+            </p>
+          </div>
           <div className="flex items-center space-x-4">
             
             {/* Account Selector (FILTERED) */}
@@ -270,30 +233,44 @@ export default function EmailStats() {
                 </Select>
             </div>
 
-            <Button onClick={handleRefresh} disabled={isLoading || !selectedAccountId} variant="outline" size="sm" className="mt-5">
-              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
-            </Button>
+            {canRefresh && (
+              <Button onClick={handleRefresh} disabled={isRunning || isRefreshing || !selectedAccountId} variant="outline" size="sm" className="mt-5">
+                {isRunning || isRefreshing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              </Button>
+            )}
           </div>
         </div>
 
-        {isLoading ? (
+        {isLoading || (isRunning && !refreshedAt) ? (
           <div className="flex flex-col items-center justify-center py-12 space-y-6">
-            <div className="w-full max-w-md space-y-3">
-              <div className="flex justify-between text-sm font-medium text-muted-foreground">
-                <span className="flex items-center gap-2">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Analyzing account data...
-                </span>
-                <span>{Math.round(progress)}%</span>
-              </div>
-              <Progress value={progress} className="h-2 w-full transition-all duration-500" />
-              <p className="text-xs text-muted-foreground text-center pt-2">
-                This process runs in the background. You can navigate away and come back.
-              </p>
-            </div>
+            {job && isRunning ? <StatsJobProgress job={job} onCancel={canRefresh ? cancel : undefined} /> : <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
           </div>
         ) : (
           <>
+            {isRunning && job && (
+              <div className="flex justify-center mb-6">
+                <StatsJobProgress job={job} onCancel={canRefresh ? cancel : undefined} />
+              </div>
+            )}
+            {truncationReason && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Incomplete contact list</AlertTitle>
+                <AlertDescription>These statistics do not cover every contact. {truncationReason}</AlertDescription>
+              </Alert>
+            )}
+            {bulkReadError && (
+              <Alert className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Bulk Read not used</AlertTitle>
+                <AlertDescription>Zoho's Bulk Read export failed, so contacts were listed page by page, which is slower for large accounts. {bulkReadError}</AlertDescription>
+              </Alert>
+            )}
+            {job?.status === 'failed' && (
+              <p className="text-sm text-destructive mb-4">
+                The last refresh failed: {job.error}{refreshedAt ? ' Showing the previous results.' : ''}
+              </p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
               <StatCardWrapper status="sent">
                 <StatCard title="Sent" value={processedContacts.totalSent} icon={<Mail />} iconBg="bg-blue-100" iconColor="text-blue-600" description="Attempts" />
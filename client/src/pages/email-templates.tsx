@@ -8,6 +8,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Loader2, RefreshCw } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { sanitizeHtml } from "@/lib/sanitizeHtml";
 
 const modules = [
   "Leads", "Accounts", "Contacts", "Deals", "Tasks", "Events", "Calls",
@@ -162,7 +163,7 @@ export default function EmailTemplates() {
                 <div>
                   <h4 className="font-semibold">Content</h4>
                   <div className="border rounded-lg p-4 mt-2">
-                    <div dangerouslySetInnerHTML={{ __html: selectedTemplate?.content }} className="prose max-w-none" />
+                    <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(selectedTemplate?.content) }} className="prose max-w-none" />
                   </div>
                 </div>
               </div>
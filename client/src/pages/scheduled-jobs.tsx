@@ -0,0 +1,161 @@
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { JobSummary } from "@/components/job-history";
+import { WEEKDAYS, describeSendingWindow } from "@shared/jobSchedule";
+import { CalendarClock, ChevronLeft, ChevronRight, Loader2, XCircle } from "lucide-react";
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Where a job stands: waiting to start, waiting for its window or quota, or sending
+function describeState(job: JobSummary) {
+  if (job.status === 'scheduled' && job.scheduledFor) return `Starts ${new Date(job.scheduledFor).toLocaleString()}`;
+  if (job.status === 'paused' && job.resumeAt) {
+    const reason = job.waitingFor === 'quota' ? 'Send quota used up' : 'Outside window';
+    return `${reason}, resumes ${new Date(job.resumeAt).toLocaleString()}`;
+  }
+  if (job.status === 'queued') return 'Due; waiting for the account\'s current job';
+  return job.status === 'processing' ? 'Sending' : 'Paused';
+}
+
+// Bulk jobs with a start time or sending windows that have not finished, as a list and a month calendar.
+export default function ScheduledJobs() {
+  const { data: accounts = [] } = useAccounts();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const { data: jobs = [], isLoading } = useQuery<JobSummary[]>({
+    queryKey: ['/api/jobs/scheduled'],
+    refetchInterval: 10000,
+  });
+
+  const accountName = (accountId: string) => accounts.find(a => a.id.toString() === accountId)?.name || accountId;
+
+  const handleCancel = async (job: JobSummary) => {
+    if (!confirm(`Are you sure you want to cancel the job for ${accountName(job.accountId)}?`)) return;
+    await apiRequest('POST', `/api/jobs/${job.id}/cancel`);
+    await queryClient.invalidateQueries({ queryKey: ['/api/jobs/scheduled'] });
+    await queryClient.invalidateQueries({ queryKey: ['/api/jobs/status'] });
+    toast({ title: "Job Cancelled" });
+  };
+
+  // Six weeks from the Sunday on or before the 1st
+  const calendarDays = useMemo(() => {
+    const first = new Date(month.getFullYear(), month.getMonth(), 1 - month.getDay());
+    return Array.from({ length: 42 }, (_, i) => new Date(first.getFullYear(), first.getMonth(), first.getDate() + i));
+  }, [month]);
+
+  const jobsByDay = useMemo(() => {
+    const byDay = new Map<string, JobSummary[]>();
+    jobs.filter(job => job.status === 'scheduled' && job.scheduledFor).forEach(job => {
+      const key = dayKey(new Date(job.scheduledFor!));
+      byDay.set(key, [...(byDay.get(key) || []), job]);
+    });
+    return byDay;
+  }, [jobs]);
+
+  const today = dayKey(new Date());
+
+  return (
+    <div className="space-y-8">
+      <div className="form-card">
+        <h3 className="text-lg font-semibold mb-6 flex items-center gap-2"><CalendarClock className="w-5 h-5" /> Scheduled Jobs</h3>
+        {isLoading ? (
+          <div className="text-center py-8"><Loader2 className="w-8 h-8 text-primary mx-auto animate-spin" /></div>
+        ) : (
+          <Tabs defaultValue="list">
+            <TabsList className="mb-4">
+              <TabsTrigger value="list">List</TabsTrigger>
+              <TabsTrigger value="calendar">Calendar</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="list" className="mt-0">
+              {jobs.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No scheduled jobs. Schedule one from the Bulk Contacts pages.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-2">Account</th>
+                        <th className="text-left p-2">Subject</th>
+                        <th className="text-left p-2">State</th>
+                        <th className="text-left p-2">Sending windows</th>
+                        <th className="text-center p-2">Progress</th>
+                        <th className="text-right p-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {jobs.map(job => (
+                        <tr key={job.id} className="border-b">
+                          <td className="p-2">{accountName(job.accountId)} <Badge variant="outline">{job.platform}</Badge></td>
+                          <td className="p-2 truncate max-w-[200px]" title={job.subject}>{job.subject || '-'}</td>
+                          <td className="p-2">{describeState(job)}</td>
+                          <td className="p-2">
+                            {job.schedule?.windows?.length
+                              ? `${job.schedule.windows.map(describeSendingWindow).join('; ')} (${job.schedule.timeZone})`
+                              : 'Any time'}
+                          </td>
+                          <td className="p-2 text-center">{job.processed} / {job.total}</td>
+                          <td className="p-2 text-right">
+                            <Button variant="ghost" size="sm" onClick={() => handleCancel(job)}><XCircle className="w-4 h-4 mr-1" /> Cancel</Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="calendar" className="mt-0">
+              <div className="flex items-center justify-between mb-4">
+                <Button variant="outline" size="icon" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="font-medium">{month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}</span>
+                <Button variant="outline" size="icon" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-7 border-l border-t text-sm">
+                {WEEKDAYS.map(day => <div key={day} className="border-r border-b p-2 font-medium bg-muted">{day}</div>)}
+                {calendarDays.map(date => {
+                  const key = dayKey(date);
+                  return (
+                    <div
+                      key={key}
+                      className={cn("border-r border-b p-1 min-h-[90px]", date.getMonth() !== month.getMonth() && "bg-muted/40 text-muted-foreground")}
+                    >
+                      <div className={cn("text-xs mb-1", key === today && "font-bold text-primary")}>{date.getDate()}</div>
+                      {(jobsByDay.get(key) || []).map(job => (
+                        <div
+                          key={job.id}
+                          className="text-xs rounded bg-purple-100 text-purple-900 px-1 mb-1 truncate"
+                          title={`${accountName(job.accountId)}: ${job.subject || 'no subject'} (${job.total} recipients)`}
+                        >
+                          {new Date(job.scheduledFor!).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} {accountName(job.accountId)}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">Start times are shown in your time zone.</p>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
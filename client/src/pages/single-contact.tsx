@@ -9,11 +9,17 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useAccounts } from "@/hooks/use-accounts";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { RefreshCw, Send, Trash2, Eye, X, Plus } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
-import { getZohoFields } from "@/lib/api";
+import { getZohoFields, createContactAndSendEmail } from "@/lib/api";
+import ZohoFieldInput from "@/components/zoho-field-input";
+import EmailTemplatePicker from "@/components/email-template-picker";
+import LibraryTemplateLoader from "@/components/library-template-loader";
+import SendQuotaPanel from "@/components/send-quota-panel";
+import { prepareFieldValues } from "@shared/zohoFieldValues";
+import { sanitizeHtml } from "@/lib/sanitizeHtml";
 
 const initialResultState = { status: null, data: "" };
 
@@ -36,6 +42,8 @@ export default function SingleContact() {
     fromEmail: "",
     lastName: "",
     email: "",
+    // Zoho email template to send instead of the subject and content
+    templateId: "",
     subject: "",
     content: "",
     customFields: {} as Record<string, any>
@@ -46,6 +54,7 @@ export default function SingleContact() {
   const [selectedFieldToAdd, setSelectedFieldToAdd] = useState<string>("");
   const [visibleCustomFields, setVisibleCustomFields] = useState<string[]>([]);
   const [showCustomOnly, setShowCustomOnly] = useState(true);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const { data: users = [], refetch: refetchUsers, isLoading: isLoadingUsers } = useQuery({
     queryKey: ['/api/zoho/users', selectedAccountId],
@@ -70,7 +79,7 @@ export default function SingleContact() {
       
       const filtered = zohoFieldsData.fields.filter((f: any) => {
         if (ignoredFields.includes(f.api_name)) return false;
-        if (!f.view_type?.create) return false;
+        if (!f.creatable) return false;
         if (showCustomOnly && !f.custom_field) return false;
         return true;
       });
@@ -107,7 +116,7 @@ export default function SingleContact() {
   }, [users, selectedUserId]);
 
   const handleClearForm = () => {
-    setFormData({ fromEmail: fromAddresses[0]?.email || "", lastName: "", email: "", subject: "", content: "", customFields: {} });
+    setFormData({ fromEmail: fromAddresses[0]?.email || "", lastName: "", email: "", templateId: "", subject: "", content: "", customFields: {} });
     setVisibleCustomFields([]);
     setContactResult(initialResultState);
     setEmailResult(initialResultState);
@@ -137,20 +146,23 @@ export default function SingleContact() {
         }] 
       };
       
+      // A template brings its own subject and content, and Zoho counts the send in its statistics
       const emailData = { 
         data: [{ 
           from: { user_name: data.fromUserName, email: data.fromEmail }, 
           to: [{ user_name: data.lastName, email: data.email }], 
-          subject: data.subject, 
-          content: data.content, 
+          ...(data.templateId
+            ? { template: { id: data.templateId } }
+            : { subject: data.subject, content: data.content }),
           mail_format: "html" 
         }] 
       };
       
-      const response = await apiRequest('POST', `/api/zoho/contact-and-email/${data.accountId}`, { contactData, emailData });
-      return response.json();
+      // Refused up front (429) when the send quota is used up
+      return createContactAndSendEmail(parseInt(data.accountId), { contactData, emailData });
     },
     onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/send-quotas', selectedAccountId] });
       const contactResData = result.contact.data;
       const isContactSuccess = result.contact.success && contactResData?.data?.[0]?.status === 'success';
       setContactResult({
@@ -172,7 +184,7 @@ export default function SingleContact() {
       }
     },
     onError: (error: Error) => {
-      toast({ title: "Network Error", description: error.message, variant: "destructive" });
+      toast({ title: "Not Sent", description: error.message, variant: "destructive" });
       setContactResult({ status: 'Fail', data: error.message });
       setEmailResult({ status: 'Fail', data: "Request failed to send." });
     },
@@ -182,7 +194,7 @@ export default function SingleContact() {
     setSelectedAccountId(accountId);
     setSelectedUserId("");
     setUserFirstName("");
-    setFormData(prev => ({ ...prev, fromEmail: "" }));
+    setFormData(prev => ({ ...prev, fromEmail: "", templateId: "" }));
     setContactResult(initialResultState);
     setEmailResult(initialResultState);
   };
@@ -209,7 +221,13 @@ export default function SingleContact() {
       toast({ title: "Error", description: "Please select a valid from address", variant: "destructive" });
       return;
     }
-    createContactAndEmailMutation.mutate({ ...formData, accountId: selectedAccountId, fromUserName: fromAddress.user_name });
+    const { values: customFields, errors } = prepareFieldValues(zohoFieldsData?.fields || [], formData.customFields);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      toast({ title: "Invalid field values", description: Object.values(errors).join(' '), variant: "destructive" });
+      return;
+    }
+    createContactAndEmailMutation.mutate({ ...formData, customFields, accountId: selectedAccountId, fromUserName: fromAddress.user_name });
   };
 
   const handleAddCustomField = () => {
@@ -235,6 +253,7 @@ export default function SingleContact() {
         [apiName]: value
       }
     });
+    setFieldErrors(({ [apiName]: _cleared, ...rest }) => rest);
   };
 
   return (
@@ -318,6 +337,9 @@ export default function SingleContact() {
                   {(fromAddresses as any[]).map((address: any) => (<SelectItem key={address.email} value={address.email}>{address.email}</SelectItem>))}
                 </SelectContent>
               </Select>
+              <div className="mt-2">
+                <SendQuotaPanel accountId={selectedAccountId} fromEmail={formData.fromEmail} />
+              </div>
             </div>
             <div>
               <Label>Recipient Last Name</Label>
@@ -331,7 +353,6 @@ export default function SingleContact() {
             {visibleCustomFields.map(apiName => {
                 const fieldDef = zohoFieldsData?.fields?.find((f: any) => f.api_name === apiName);
                 if (!fieldDef) return null;
-                const currentValue = formData.customFields[apiName] || "";
 
                 return (
                     <div key={apiName} className="relative p-3 border rounded-md bg-background">
@@ -341,23 +362,21 @@ export default function SingleContact() {
                                 <X className="w-3 h-3 text-muted-foreground hover:text-destructive" />
                             </Button>
                         </div>
-                        {fieldDef.data_type === 'picklist' ? (
-                            <Select value={currentValue} onValueChange={(val) => handleCustomFieldChange(apiName, val)}>
-                                <SelectTrigger><SelectValue placeholder={`Select ${fieldDef.display_label}`} /></SelectTrigger>
-                                <SelectContent>{fieldDef.pick_list_values?.map((opt: any) => (<SelectItem key={opt.display_value} value={opt.actual_value}>{opt.display_value}</SelectItem>))}</SelectContent>
-                            </Select>
-                        ) : fieldDef.data_type === 'boolean' ? (
-                            <div className="flex items-center space-x-2">
-                                <Checkbox checked={currentValue} onCheckedChange={(val) => handleCustomFieldChange(apiName, val)} />
-                                <span className="text-sm text-muted-foreground">Yes</span>
-                            </div>
-                        ) : (
-                            <Input type={fieldDef.data_type === 'integer' || fieldDef.data_type === 'double' ? "number" : "text"} value={currentValue} onChange={(e) => handleCustomFieldChange(apiName, e.target.value)} />
-                        )}
+                        <ZohoFieldInput
+                            field={fieldDef}
+                            value={formData.customFields?.[apiName]}
+                            onChange={(val) => handleCustomFieldChange(apiName, val)}
+                            accountId={selectedAccountId}
+                            platform="crm"
+                            error={fieldErrors[apiName]}
+                        />
                     </div>
                 );
             })}
 
+            <EmailTemplatePicker accountId={selectedAccountId} value={formData.templateId} onChange={(templateId) => setFormData({ ...formData, templateId })} />
+            {!formData.templateId && (
+            <>
             <div>
               <Label>Subject</Label>
               <Input value={formData.subject} onChange={(e) => setFormData({ ...formData, subject: e.target.value })} required />
@@ -365,6 +384,12 @@ export default function SingleContact() {
             <div>
               <div className="flex items-center justify-between mb-2">
                 <Label htmlFor="single-content">Content</Label>
+                <div className="flex gap-2">
+                <LibraryTemplateLoader
+                  accountId={selectedAccountId}
+                  hasContent={!!(formData.subject || formData.content)}
+                  onLoad={(version) => setFormData(prev => ({ ...prev, subject: version.subject, content: version.html }))}
+                />
                 <Dialog>
                   <DialogTrigger asChild>
                     <Button type="button" variant="outline" size="sm" disabled={!formData.content}>
@@ -374,13 +399,16 @@ export default function SingleContact() {
                   <DialogContent className="max-w-2xl max-h-[80vh] overflow-auto">
                     <DialogHeader><DialogTitle>Email Content Preview</DialogTitle></DialogHeader>
                     <div className="border rounded-lg p-4 bg-white">
-                      <div dangerouslySetInnerHTML={{ __html: formData.content }} className="prose max-w-none" />
+                      <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(formData.content) }} className="prose max-w-none" />
                     </div>
                   </DialogContent>
                 </Dialog>
+                </div>
               </div>
               <Textarea rows={4} value={formData.content} onChange={(e) => setFormData({ ...formData, content: e.target.value })} required />
             </div>
+            </>
+            )}
             <div className="flex space-x-2">
               <Button type="submit" className="flex-1" disabled={createContactAndEmailMutation.isPending}>
                 <Send className="w-4 h-4 mr-2" />
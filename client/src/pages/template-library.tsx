@@ -0,0 +1,330 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useToast } from "@/hooks/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import RichTextEditor from "@/components/rich-text-editor";
+import TemplateHistory from "@/components/template-history";
+import { getLibraryTemplate, saveLibraryTemplate, deleteLibraryTemplate, duplicateLibraryTemplate } from "@/lib/api";
+import {
+  htmlToText, normalizeTemplateTags,
+  type LibraryTemplate, type LibraryTemplateInput, type LibraryTemplateSummary,
+} from "@shared/templateLibrary";
+import { Copy, History, Loader2, Plus, Save, Search, Trash2, LibraryBig } from "lucide-react";
+
+const NEW_TEMPLATE = "new";
+
+const emptyDraft = { name: "", tags: "", subject: "", html: "", text: "" };
+type Draft = typeof emptyDraft;
+
+const toDraft = (template: LibraryTemplate): Draft => {
+  const current = template.versions[template.versions.length - 1];
+  return { name: template.name, tags: template.tags.join(', '), subject: current.subject, html: current.html, text: current.text };
+};
+
+const toInput = (draft: Draft): LibraryTemplateInput => ({
+  name: draft.name, tags: normalizeTemplateTags(draft.tags.split(',')), subject: draft.subject, html: draft.html, text: draft.text,
+});
+
+export default function TemplateLibrary() {
+  const { data: accounts = [] } = useAccounts();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [selectedAccountId, setSelectedAccountId] = useState<string>("");
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  // The template and version the draft was loaded from; saving is refused if someone saved since
+  const [loaded, setLoaded] = useState<{ id: string; version: number } | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isDuplicateOpen, setIsDuplicateOpen] = useState(false);
+  const [duplicateAccountId, setDuplicateAccountId] = useState<string>("");
+
+  useEffect(() => {
+    if (accounts.length > 0) {
+        const isValid = accounts.find((a: any) => a.id.toString() === selectedAccountId);
+        if (!selectedAccountId || !isValid) {
+            setSelectedAccountId(accounts[0].id.toString());
+        }
+    }
+  }, [accounts, selectedAccountId]);
+
+  const { data: templates = [], isLoading } = useQuery<LibraryTemplateSummary[]>({
+    queryKey: ['/api/template-library', selectedAccountId],
+    enabled: !!selectedAccountId,
+  });
+
+  const isExisting = !!selectedTemplateId && selectedTemplateId !== NEW_TEMPLATE;
+  const { data: template, isLoading: isLoadingTemplate } = useQuery<LibraryTemplate>({
+    queryKey: ['/api/template-library', selectedAccountId, selectedTemplateId],
+    queryFn: () => getLibraryTemplate(selectedAccountId, selectedTemplateId!),
+    enabled: !!selectedAccountId && isExisting,
+  });
+
+  // Load a template into the editor once when it is opened, not on every refetch
+  useEffect(() => {
+    if (template && template.id === selectedTemplateId && loaded?.id !== template.id) {
+      setDraft(toDraft(template));
+      setLoaded({ id: template.id, version: template.versions[template.versions.length - 1].version });
+    }
+  }, [template, selectedTemplateId, loaded]);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(templates.flatMap(t => t.tags))).sort((a, b) => a.localeCompare(b)),
+    [templates],
+  );
+  const filteredTemplates = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return templates.filter(t =>
+      (!tagFilter || t.tags.includes(tagFilter)) &&
+      (!term || t.name.toLowerCase().includes(term) || t.subject.toLowerCase().includes(term)));
+  }, [templates, search, tagFilter]);
+
+  const isDirty = useMemo(() => {
+    if (selectedTemplateId === NEW_TEMPLATE) return JSON.stringify(draft) !== JSON.stringify(emptyDraft);
+    return !!template && JSON.stringify(toInput(draft)) !== JSON.stringify(toInput(toDraft(template)));
+  }, [draft, template, selectedTemplateId]);
+
+  const confirmDiscard = () => !isDirty || confirm('Discard your unsaved changes?');
+
+  const openTemplate = (templateId: string | null) => {
+    if (templateId === selectedTemplateId || !confirmDiscard()) return;
+    setSelectedTemplateId(templateId);
+    setLoaded(null);
+    setDraft(emptyDraft);
+  };
+
+  const handleAccountChange = (accountId: string) => {
+    if (!confirmDiscard()) return;
+    setSelectedAccountId(accountId);
+    setSelectedTemplateId(null);
+    setLoaded(null);
+    setDraft(emptyDraft);
+    setTagFilter(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveLibraryTemplate(selectedAccountId, toInput(draft), isExisting ? selectedTemplateId! : undefined, loaded?.version),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/template-library', selectedAccountId, saved.id], saved);
+      queryClient.invalidateQueries({ queryKey: ['/api/template-library', selectedAccountId], exact: true });
+      setSelectedTemplateId(saved.id);
+      setDraft(toDraft(saved));
+      setLoaded({ id: saved.id, version: saved.versions[saved.versions.length - 1].version });
+      toast({ title: "Template saved", description: `Version ${saved.versions[saved.versions.length - 1].version} of "${saved.name}".` });
+    },
+    onError: (error: Error) => toast({ title: "Save failed", description: error.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (templateId: string) => deleteLibraryTemplate(selectedAccountId, templateId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/template-library', selectedAccountId], exact: true });
+      setSelectedTemplateId(null);
+      setLoaded(null);
+      setDraft(emptyDraft);
+      toast({ title: "Template deleted" });
+    },
+    onError: (error: Error) => toast({ title: "Delete failed", description: error.message, variant: "destructive" }),
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: () => duplicateLibraryTemplate(selectedAccountId, selectedTemplateId!, duplicateAccountId),
+    onSuccess: (copy) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/template-library', duplicateAccountId], exact: true });
+      setIsDuplicateOpen(false);
+      const accountName = accounts.find((a: any) => a.id.toString() === duplicateAccountId)?.name;
+      toast({ title: "Template duplicated", description: `Saved as "${copy.name}" in ${accountName || 'the account'}.` });
+    },
+    onError: (error: Error) => toast({ title: "Duplicate failed", description: error.message, variant: "destructive" }),
+  });
+
+  const handleDelete = () => {
+    if (template && confirm(`Are you sure you want to delete template: ${template.name}?`)) {
+      deleteMutation.mutate(template.id);
+    }
+  };
+
+  const updateDraft = (field: keyof Draft, value: string) => setDraft(prev => ({ ...prev, [field]: value }));
+
+  return (
+    <div className="space-y-8">
+      <div className="form-card">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold">Template Library</h3>
+          <div className="flex items-center space-x-4">
+            <Label>Account:</Label>
+            <Select value={selectedAccountId} onValueChange={handleAccountChange}>
+              <SelectTrigger className="w-48"><SelectValue placeholder="Choose account" /></SelectTrigger>
+              <SelectContent>
+                {accounts.map((account: any) => (
+                  <SelectItem key={account.id} value={account.id.toString()}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => openTemplate(NEW_TEMPLATE)} disabled={!selectedAccountId} size="sm">
+              <Plus className="w-4 h-4 mr-2" /> New template
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-2 top-3 text-muted-foreground" />
+              <Input className="pl-8" placeholder="Search name or subject" value={search} onChange={e => setSearch(e.target.value)} />
+            </div>
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {allTags.map(tag => (
+                  <Badge
+                    key={tag}
+                    variant={tagFilter === tag ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {isLoading ? (
+              <div className="text-center py-8"><Loader2 className="w-8 h-8 text-primary mx-auto animate-spin" /></div>
+            ) : filteredTemplates.length === 0 ? (
+              <div className="text-center py-8">
+                <LibraryBig className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p>{templates.length === 0 ? 'No templates in this account yet.' : 'No templates match.'}</p>
+              </div>
+            ) : (
+              <ul className="border rounded-md divide-y max-h-[600px] overflow-auto">
+                {filteredTemplates.map(t => (
+                  <li
+                    key={t.id}
+                    className={cn("p-3 cursor-pointer hover:bg-muted", t.id === selectedTemplateId && "bg-muted")}
+                    onClick={() => openTemplate(t.id)}
+                  >
+                    <div className="font-medium truncate">{t.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">{t.subject}</div>
+                    <div className="text-xs text-muted-foreground">
+                      v{t.version} · {new Date(t.updatedAt).toLocaleDateString()} by {t.updatedBy}
+                    </div>
+                    {t.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {t.tags.map(tag => <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>)}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="lg:col-span-2">
+            {!selectedTemplateId ? (
+              <p className="text-center py-8 text-muted-foreground">Pick a template or create a new one.</p>
+            ) : isExisting && (isLoadingTemplate || !loaded) ? (
+              <div className="text-center py-8"><Loader2 className="w-8 h-8 text-primary mx-auto animate-spin" /></div>
+            ) : (
+              <form className="space-y-4" onSubmit={e => { e.preventDefault(); saveMutation.mutate(); }}>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label>Name</Label>
+                    <Input value={draft.name} onChange={e => updateDraft("name", e.target.value)} required />
+                  </div>
+                  <div>
+                    <Label>Tags (comma separated)</Label>
+                    <Input value={draft.tags} onChange={e => updateDraft("tags", e.target.value)} placeholder="newsletter, onboarding" />
+                  </div>
+                </div>
+                <div>
+                  <Label>Subject</Label>
+                  <Input value={draft.subject} onChange={e => updateDraft("subject", e.target.value)} required />
+                </div>
+                <div>
+                  <Label>HTML body</Label>
+                  <RichTextEditor value={draft.html} onChange={html => updateDraft("html", html)} />
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <Label>Plain-text alternative</Label>
+                    <Button type="button" variant="outline" size="sm" onClick={() => updateDraft("text", htmlToText(draft.html))} disabled={!draft.html}>
+                      Generate from HTML
+                    </Button>
+                  </div>
+                  <Textarea rows={6} value={draft.text} onChange={e => updateDraft("text", e.target.value)} />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button type="submit" disabled={saveMutation.isPending || !isDirty}>
+                    {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                    {isExisting ? `Save as version ${(loaded?.version ?? 0) + 1}` : 'Create template'}
+                  </Button>
+                  {isExisting && template && (
+                    <>
+                      <Button type="button" variant="outline" onClick={() => setIsHistoryOpen(true)}>
+                        <History className="w-4 h-4 mr-2" /> History ({template.versions.length})
+                      </Button>
+                      <Button type="button" variant="outline" onClick={() => { setDuplicateAccountId(selectedAccountId); setIsDuplicateOpen(true); }}>
+                        <Copy className="w-4 h-4 mr-2" /> Duplicate
+                      </Button>
+                      <Button type="button" variant="destructive" onClick={handleDelete} disabled={deleteMutation.isPending}>
+                        <Trash2 className="w-4 h-4 mr-2" /> Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
+          <DialogHeader><DialogTitle>History of {template?.name}</DialogTitle></DialogHeader>
+          {template && (
+            <TemplateHistory
+              template={template}
+              onRestore={version => {
+                setDraft(prev => ({ ...prev, subject: version.subject, html: version.html, text: version.text }));
+                setIsHistoryOpen(false);
+                toast({ title: `Version ${version.version} loaded`, description: "Save to make it the current version." });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDuplicateOpen} onOpenChange={setIsDuplicateOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader><DialogTitle>Duplicate {template?.name}</DialogTitle></DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Copy to account</Label>
+              <Select value={duplicateAccountId} onValueChange={setDuplicateAccountId}>
+                <SelectTrigger><SelectValue placeholder="Choose account" /></SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account: any) => (
+                    <SelectItem key={account.id} value={account.id.toString()}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-muted-foreground">The copy starts at version 1 with the current subject and bodies{isDirty ? '; unsaved changes are not copied' : ''}.</p>
+            <Button className="w-full" onClick={() => duplicateMutation.mutate()} disabled={!duplicateAccountId || duplicateMutation.isPending}>
+              <Copy className="w-4 h-4 mr-2" /> Duplicate
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
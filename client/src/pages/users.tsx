@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { USER_ROLES, type PublicUser, type UserRole } from "@shared/schema";
+import { Edit, Trash2, Plus } from "lucide-react";
+
+const emptyForm = { username: "", password: "", role: "operator" as UserRole, account_ids: [] as number[] };
+
+export default function Users() {
+  const { user: currentUser } = useAuth();
+  const { data: accounts = [] } = useAccounts();
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({ queryKey: ['/api/users'] });
+  const { toast } = useToast();
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingUser(null);
+  };
+
+  const saveUserMutation = useMutation({
+    mutationFn: async (data: typeof formData & { id?: string }) => {
+      if (data.id) {
+        const { username, ...updates } = data;
+        return apiRequest('PUT', `/api/users/${data.id}`, updates);
+      }
+      return apiRequest('POST', '/api/users', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      resetForm();
+      toast({ title: "Success", description: "User saved successfully!" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to save user: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/users/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({ title: "Success", description: "User deleted." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to delete user: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const handleEdit = (user: PublicUser) => {
+    setEditingUser(user);
+    setFormData({ username: user.username, password: "", role: user.role, account_ids: user.account_ids });
+  };
+
+  const handleDelete = (user: PublicUser) => {
+    if (confirm(`Are you sure you want to delete user: ${user.username}?`)) {
+      deleteUserMutation.mutate(user.id);
+    }
+  };
+
+  const toggleAccount = (accountId: number, checked: boolean) => {
+    setFormData({
+      ...formData,
+      account_ids: checked
+        ? [...formData.account_ids, accountId]
+        : formData.account_ids.filter(id => id !== accountId),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveUserMutation.mutate(editingUser ? { ...formData, id: editingUser.id } : formData);
+  };
+
+  const accountName = (id: number) => accounts.find(acc => acc.id === id)?.name || `#${id}`;
+
+  if (isLoading) {
+    return <div className="loading-spinner">Loading users...</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="form-card">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-foreground">Users</h3>
+          <Button onClick={resetForm} data-testid="button-new-user">
+            <Plus className="w-4 h-4 mr-2" />
+            New User
+          </Button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2">Username</th>
+                <th className="text-left p-2">Role</th>
+                <th className="text-left p-2">Accounts</th>
+                <th className="text-right p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((user) => (
+                <tr key={user.id} className="border-b">
+                  <td className="p-2 font-medium">{user.username}</td>
+                  <td className="p-2"><Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>{user.role}</Badge></td>
+                  <td className="p-2 text-muted-foreground">
+                    {user.role === 'admin' ? 'All accounts' : (user.account_ids.map(accountName).join(', ') || 'None')}
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(user)}><Edit className="w-4 h-4" /></Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(user)}
+                      disabled={user.id === currentUser?.id}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="form-card">
+        <h3 className="text-lg font-semibold text-foreground mb-6">{editingUser ? `Edit ${editingUser.username}` : "New User"}</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="user-username">Username</Label>
+            <Input
+              id="user-username"
+              value={formData.username}
+              onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+              disabled={!!editingUser}
+              required
+              data-testid="input-user-username"
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-password">Password</Label>
+            <Input
+              id="user-password"
+              type="password"
+              autoComplete="new-password"
+              value={formData.password}
+              onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+              placeholder={editingUser ? "Leave blank to keep the current password" : undefined}
+              required={!editingUser}
+              data-testid="input-user-password"
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-role">Role</Label>
+            <Select value={formData.role} onValueChange={(value) => setFormData({ ...formData, role: value as UserRole })}>
+              <SelectTrigger id="user-role" data-testid="select-user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{role}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Zoho Accounts</Label>
+            {formData.role === 'admin' ? (
+              <p className="text-sm text-muted-foreground mt-2">Admins can use every account.</p>
+            ) : (
+              <div className="space-y-2 mt-2 max-h-60 overflow-y-auto border border-border rounded-md p-3">
+                {accounts.map((account) => (
+                  <label key={account.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={formData.account_ids.includes(account.id)}
+                      onCheckedChange={(checked) => toggleAccount(account.id, !!checked)}
+                    />
+                    <span>{account.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex space-x-3 pt-4">
+            <Button type="submit" disabled={saveUserMutation.isPending} data-testid="button-submit-user">
+              {editingUser ? "Save Changes" : "Add User"}
+            </Button>
+            {editingUser && (
+              <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+CREATE TABLE "audit_log" (
+	"id" bigint PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "audit_log_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"actor_id" varchar,
+	"actor_username" text NOT NULL,
+	"action" text NOT NULL,
+	"account_id" bigint,
+	"target_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"summary" text NOT NULL,
+	"success" boolean NOT NULL,
+	"status_code" integer,
+	"zoho_code" text
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "audit_log" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_account_id_idx" ON "audit_log" USING btree ("account_id");
\ No newline at end of file
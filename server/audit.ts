@@ -0,0 +1,52 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { log } from "./vite";
+import type { AuditAction } from "@shared/schema";
+
+export interface AuditEvent {
+  action: AuditAction;
+  accountId?: number | null;
+  targetIds?: Array<string | number>;
+  summary: string;
+  // Axios response or error from the Zoho call, when there was one
+  response?: any;
+  error?: any;
+}
+
+// Zoho reports per-record results as data[0].code and whole-request errors as code.
+function extractZohoCode(body: any): string | null {
+  if (!body || typeof body !== 'object') return null;
+  const code = Array.isArray(body.data) ? body.data[0]?.code : body.code;
+  return code ? String(code) : null;
+}
+
+export interface AuditActor {
+  id: string;
+  username: string;
+}
+
+// Records an audit entry for the current user. Never throws: a failed audit
+// write is logged but must not turn a successful Zoho call into an error.
+export async function recordAudit(req: Request, event: AuditEvent) {
+  return recordAuditAs(req.user ? { id: req.user.id, username: req.user.username } : null, event);
+}
+
+// Same, for background jobs acting on behalf of the user who started them.
+export async function recordAuditAs(actor: AuditActor | null, event: AuditEvent) {
+  const source = event.error?.response ?? event.response;
+  try {
+    await storage.appendAuditEntry({
+      actor_id: actor?.id ?? null,
+      actor_username: actor?.username ?? 'system',
+      action: event.action,
+      account_id: event.accountId ?? null,
+      target_ids: (event.targetIds || []).map(String),
+      summary: event.summary,
+      success: !event.error,
+      status_code: source?.status ?? null,
+      zoho_code: extractZohoCode(source?.data),
+    });
+  } catch (error: any) {
+    log(`Failed to write audit entry for ${event.action}: ${error.message}`, 'audit');
+  }
+}
@@ -0,0 +1,169 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { type User as SelectUser, type PublicUser, type UserRole } from "@shared/schema";
+import { hasRole } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stored as "<hash>.<salt>", both hex.
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export async function toPublicUser(user: SelectUser): Promise<PublicUser> {
+  const { password, ...rest } = user;
+  return { ...rest, account_ids: await storage.getUserAccountIds(user.id) };
+}
+
+// null means "every account" (admins).
+export async function getAccessibleAccountIds(user: Express.User): Promise<number[] | null> {
+  if (user.role === 'admin') return null;
+  return storage.getUserAccountIds(user.id);
+}
+
+export async function canAccessAccount(user: Express.User | undefined, accountId: number) {
+  if (!user) return false;
+  const accountIds = await getAccessibleAccountIds(user);
+  return accountIds === null || accountIds.includes(accountId);
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: 'Not logged in.' });
+}
+
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (hasRole(req.user?.role, role)) return next();
+    res.status(403).json({ error: `This action requires the ${role} role.` });
+  };
+}
+
+function createSessionStore() {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPg(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Creates the first admin from ADMIN_USERNAME / ADMIN_PASSWORD when no users exist yet.
+async function seedAdminUser() {
+  const existingUsers = await storage.getAllUsers();
+  if (existingUsers.length > 0) return;
+
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) {
+    log('No users exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin.', 'auth-error');
+    return;
+  }
+
+  await storage.createUser({ username: ADMIN_USERNAME, password: await hashPassword(ADMIN_PASSWORD), role: 'admin' });
+  log(`Created admin user "${ADMIN_USERNAME}".`, 'auth');
+}
+
+export async function setupAuth(app: Express) {
+  let sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret) {
+    log('SESSION_SECRET is not set; using a random secret, so sessions end when the server restarts.', 'auth-error');
+    sessionSecret = randomBytes(32).toString("hex");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: sessionSecret,
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted user's session simply stops authenticating
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        log(`Failed login for "${req.body?.username}"`, 'auth-error');
+        return res.status(401).json({ error: 'Invalid username or password.' });
+      }
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(await toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.sendStatus(200));
+    });
+  });
+
+  app.get("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ error: 'Not logged in.' });
+    res.json(await toPublicUser(req.user));
+  });
+
+  // Everything else under /api needs a session
+  app.use('/api', requireAuth);
+
+  await seedAdminUser();
+}
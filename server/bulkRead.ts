@@ -0,0 +1,92 @@
+import { unzipSync } from "fflate";
+import zohoClient, { requireScope, type ZohoCredentials } from "./zohoClient";
+import { log } from "./vite";
+import { parseCsv } from "@shared/csv";
+
+// Zoho CRM Bulk Read: exports a whole module as a zipped CSV, up to 200,000 records per
+// job, for orgs too large to page through with the list API.
+
+const BULK_VERSION = 'bulk/v8';
+const BULK_READ_SCOPE = 'ZohoCRM.bulk.read';
+const POLL_INTERVAL_MS = 5000;
+const JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface BulkReadOptions {
+  // Called after each exported page with the number of records read so far
+  onPage?: (fetched: number) => void;
+  // Checked while waiting on Zoho; returning true stops after the current page
+  shouldStop?: () => boolean;
+}
+
+export interface BulkReadResult {
+  // One object per CSV row, keyed by field api_name (the record id is under `Id`)
+  records: Record<string, string>[];
+  // True when shouldStop() ended the export before its last page
+  stopped: boolean;
+}
+
+// Reads the first file of a zip archive. Bulk Read results hold a single CSV.
+function readFirstZipEntry(archive: Buffer): Buffer {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(archive.buffer, archive.byteOffset, archive.length));
+  } catch {
+    throw new Error('Bulk read result is not a zip archive.');
+  }
+  const first = Object.values(files)[0];
+  if (!first) throw new Error('Bulk read result has no files.');
+  return Buffer.from(first.buffer, first.byteOffset, first.length);
+}
+
+// Creates one export job and waits for it; returns the job's `result` block.
+async function runBulkReadJob(account: ZohoCredentials, module: string, fields: string[], page: number, shouldStop?: () => boolean) {
+  const api = zohoClient.api(account, 'crm', BULK_VERSION);
+  const created = await requireScope(BULK_READ_SCOPE, api.post('/read', {
+    query: { module: { api_name: module }, fields, page },
+  }));
+  const jobId = created.data?.data?.[0]?.details?.id;
+  if (!jobId) throw new Error(`Bulk read job was not created: ${JSON.stringify(created.data)}`);
+
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS);
+    if (shouldStop?.()) return null;
+
+    const status = await api.get(`/read/${jobId}`);
+    const job = status.data?.data?.[0];
+    if (job?.state === 'COMPLETED') return { jobId, ...job.result };
+    if (job?.state === 'FAILURE') throw new Error(`Bulk read job ${jobId} failed.`);
+  }
+  throw new Error(`Bulk read job ${jobId} did not finish within ${JOB_TIMEOUT_MS / 60000} minutes.`);
+}
+
+export async function bulkReadRecords(
+  account: ZohoCredentials,
+  module: string,
+  fields: string[],
+  options: BulkReadOptions = {},
+): Promise<BulkReadResult> {
+  const records: Record<string, string>[] = [];
+  let page = 1;
+
+  while (true) {
+    log(`[Bulk Read] Exporting ${module} page ${page} for account ${account.id}...`, 'bulk-read');
+    const result = await runBulkReadJob(account, module, fields, page, options.shouldStop);
+    if (!result) return { records, stopped: true };
+
+    const download = await zohoClient.api(account, 'crm', BULK_VERSION).get(`/read/${result.jobId}/result`, {
+      responseType: 'arraybuffer',
+    });
+    // A page can hold 200,000 rows, too many to spread into push()
+    for (const record of parseCsv(readFirstZipEntry(Buffer.from(download.data)).toString('utf8'))) {
+      records.push(record);
+    }
+    options.onPage?.(records.length);
+
+    if (!result.more_records) return { records, stopped: false };
+    if (options.shouldStop?.()) return { records, stopped: true };
+    page++;
+  }
+}
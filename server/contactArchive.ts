@@ -0,0 +1,243 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { log } from "./vite";
+import { FileJobStore } from "./jobStore";
+import zohoClient, { type ZohoCredentials } from "./zohoClient";
+import { recordAuditAs, type AuditActor } from "./audit";
+import type { DeletedBatchSource, DeletedBatchSummary, RestoredContact } from "@shared/contactArchive";
+
+const ARCHIVE_FILE_PATH = path.join(process.cwd(), 'contact-archive.json');
+// Zoho reads, creates and deletes at most 100 records per call
+const ARCHIVE_CHUNK_SIZE = 100;
+const SAMPLE_SIZE = 5;
+// Batches are kept this long after their delete, restored or not, then dropped
+export const ARCHIVE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Set by Zoho and refused (or ignored) when creating a record
+const SYSTEM_FIELDS = new Set([
+  'id', 'Created_Time', 'Modified_Time', 'Created_By', 'Modified_By',
+  'Full_Name', 'Last_Activity_Time', 'Tag', 'Record_Image',
+]);
+
+interface ArchivedBatch {
+  id: string;
+  accountId: number;
+  source: DeletedBatchSource;
+  deleteJobId?: string;
+  deletedAt: number;
+  deletedBy: string;
+  // Full records as Zoho returned them just before the delete
+  records: any[];
+  // Filled in once Zoho answers the delete; empty until then
+  deletedIds: string[];
+  restore?: DeletedBatchSummary['restore'];
+}
+
+// Keeps a copy of every CRM contact before it is deleted, one batch per delete call,
+// and restores a batch by re-creating its contacts. Zoho's API has no call to restore
+// records from the recycle bin, so restored contacts get new ids.
+class ContactArchive {
+  private static instance: ContactArchive;
+  private batches: Map<string, ArchivedBatch> = new Map();
+  private store = new FileJobStore(ARCHIVE_FILE_PATH);
+  // Batches with a restore in flight, so a double click does not create duplicates
+  private restoring = new Set<string>();
+
+  private constructor() {
+    this.restoreBatches();
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  public static getInstance(): ContactArchive {
+    if (!ContactArchive.instance) ContactArchive.instance = new ContactArchive();
+    return ContactArchive.instance;
+  }
+
+  private async restoreBatches() {
+    const saved = await this.store.loadJobs();
+    Object.values(saved).forEach((batch: ArchivedBatch) => this.batches.set(batch.id, batch));
+    this.prune();
+  }
+
+  private persist() {
+    this.store.saveJobs(this.batches);
+  }
+
+  // Drops batches past ARCHIVE_RETENTION_MS
+  private prune() {
+    const cutoff = Date.now() - ARCHIVE_RETENTION_MS;
+    const expired = Array.from(this.batches.values()).filter(batch => batch.deletedAt < cutoff && !this.restoring.has(batch.id));
+    if (expired.length === 0) return;
+    expired.forEach(batch => this.batches.delete(batch.id));
+    this.persist();
+    log(`[Archive] Dropped ${expired.length} deleted-contact batches older than ${ARCHIVE_RETENTION_MS / (24 * 60 * 60 * 1000)} days`, 'contact-archive');
+  }
+
+  // Snapshots the contacts about to be deleted and saves them to disk before returning the
+  // batch id and the ids that were archived; only those may be deleted. Ids Zoho did not
+  // return are left out. Throws when nothing could be archived or the archive could not be
+  // written, so the caller deletes nothing.
+  public async archive(
+    account: ZohoCredentials,
+    accountId: number,
+    ids: string[],
+    meta: { source: DeletedBatchSource; deleteJobId?: string; actor: AuditActor | null },
+  ): Promise<{ batchId: string; archivedIds: string[] }> {
+    const records: any[] = [];
+    for (let i = 0; i < ids.length; i += ARCHIVE_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + ARCHIVE_CHUNK_SIZE);
+      const response = await zohoClient.api(account, 'crm').get('/Contacts', { params: { ids: chunk.join(',') } });
+      records.push(...(response.data?.data || []));
+    }
+    const returned = new Set(records.map(record => String(record.id)));
+    const archivedIds = ids.filter(id => returned.has(id));
+    if (archivedIds.length === 0) throw new Error('Zoho returned none of these contacts to archive.');
+
+    const batch: ArchivedBatch = {
+      id: randomUUID(),
+      accountId,
+      source: meta.source,
+      deleteJobId: meta.deleteJobId,
+      deletedAt: Date.now(),
+      deletedBy: meta.actor?.username ?? 'system',
+      records,
+      deletedIds: [],
+    };
+    this.batches.set(batch.id, batch);
+    try {
+      await this.store.saveJobsNow(this.batches);
+    } catch (error: any) {
+      this.batches.delete(batch.id);
+      throw new Error(`Could not save the contact archive: ${error.message}`);
+    }
+    return { batchId: batch.id, archivedIds };
+  }
+
+  // Records which contacts Zoho actually deleted, from its per-record delete response.
+  // A batch where nothing was deleted has nothing to restore and is dropped.
+  public markDeleted(batchId: string, deleteResponse: any) {
+    const batch = this.batches.get(batchId);
+    if (!batch) return;
+    batch.deletedIds = (deleteResponse?.data || [])
+      .filter((item: any) => item.code === 'SUCCESS')
+      .map((item: any) => String(item.details?.id));
+    if (batch.deletedIds.length === 0) this.batches.delete(batchId);
+    this.persist();
+  }
+
+  // The delete call itself failed: nothing was deleted.
+  public discard(batchId: string) {
+    if (this.batches.delete(batchId)) this.persist();
+  }
+
+  // Newest first
+  public getAccountBatches(accountId: number): DeletedBatchSummary[] {
+    return Array.from(this.batches.values())
+      .filter(batch => batch.accountId === accountId && batch.deletedIds.length > 0)
+      .sort((a, b) => b.deletedAt - a.deletedAt)
+      .map(batch => this.summarize(batch));
+  }
+
+  public getBatch(batchId: string): DeletedBatchSummary | undefined {
+    const batch = this.batches.get(batchId);
+    return batch && batch.deletedIds.length > 0 ? this.summarize(batch) : undefined;
+  }
+
+  private summarize(batch: ArchivedBatch): DeletedBatchSummary {
+    const deleted = new Set(batch.deletedIds);
+    return {
+      id: batch.id,
+      accountId: batch.accountId,
+      source: batch.source,
+      deleteJobId: batch.deleteJobId,
+      deletedAt: batch.deletedAt,
+      deletedBy: batch.deletedBy,
+      deleted: batch.deletedIds.length,
+      sample: batch.records
+        .filter(record => deleted.has(String(record.id)))
+        .slice(0, SAMPLE_SIZE)
+        .map(record => ({ id: String(record.id), Full_Name: record.Full_Name, Email: record.Email ?? null })),
+      restore: batch.restore,
+    };
+  }
+
+  // Re-creates the batch's deleted contacts. Contacts restored by an earlier attempt are skipped.
+  public async restore(account: ZohoCredentials, batchId: string, actor: AuditActor | null): Promise<DeletedBatchSummary> {
+    const batch = this.batches.get(batchId)!;
+    if (this.restoring.has(batchId)) throw new Error('This batch is already being restored.');
+    this.restoring.add(batchId);
+
+    try {
+      const done = new Map((batch.restore?.results || [])
+        .filter(result => result.status === 'restored')
+        .map(result => [result.id, result]));
+      const deleted = new Set(batch.deletedIds);
+      const pending = batch.records.filter(record => deleted.has(String(record.id)) && !done.has(String(record.id)));
+      const results: RestoredContact[] = [];
+
+      for (let i = 0; i < pending.length; i += ARCHIVE_CHUNK_SIZE) {
+        const chunk = pending.slice(i, i + ARCHIVE_CHUNK_SIZE);
+        const ids = chunk.map(record => String(record.id));
+        try {
+          // An empty trigger list keeps workflows and approvals from firing on restored records
+          const response = await zohoClient.api(account, 'crm').post('/Contacts', {
+            data: chunk.map(toCreatableRecord),
+            trigger: [],
+          });
+          // Zoho answers per record, in request order
+          const outcomes: any[] = response.data?.data || [];
+          chunk.forEach((record, index) => {
+            const outcome = outcomes[index];
+            results.push(outcome?.code === 'SUCCESS'
+              ? { id: String(record.id), new_id: String(outcome.details.id), status: 'restored', message: outcome.message || 'record added' }
+              : { id: String(record.id), status: 'failed', message: outcome?.message || outcome?.code || 'No result from Zoho' });
+          });
+          recordAuditAs(actor, {
+            action: 'contact.restore',
+            accountId: batch.accountId,
+            targetIds: ids,
+            summary: `Restored ${outcomes.filter(outcome => outcome?.code === 'SUCCESS').length} of ${chunk.length} CRM contacts from deleted batch ${batch.id}`,
+            response,
+          });
+        } catch (error: any) {
+          const message = error.response?.data?.message || error.message;
+          chunk.forEach(record => results.push({ id: String(record.id), status: 'failed', message }));
+          recordAuditAs(actor, {
+            action: 'contact.restore',
+            accountId: batch.accountId,
+            targetIds: ids,
+            summary: `Failed to restore ${chunk.length} CRM contacts from deleted batch ${batch.id}`,
+            error,
+          });
+        }
+      }
+
+      const allResults = [...Array.from(done.values()), ...results];
+      batch.restore = {
+        restoredAt: Date.now(),
+        restoredBy: actor?.username ?? 'system',
+        restored: allResults.filter(result => result.status === 'restored').length,
+        failed: allResults.filter(result => result.status === 'failed').length,
+        results: allResults,
+      };
+      this.persist();
+      log(`[Archive] Batch ${batch.id}: ${batch.restore.restored} restored, ${batch.restore.failed} failed`, 'contact-archive');
+      return this.summarize(batch);
+    } finally {
+      this.restoring.delete(batchId);
+    }
+  }
+}
+
+// Drops the fields Zoho sets itself and empty values; lookups keep only their id.
+function toCreatableRecord(record: any) {
+  const data: Record<string, any> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (SYSTEM_FIELDS.has(key) || key.startsWith('$') || value === null || value === '') continue;
+    data[key] = value && typeof value === 'object' && !Array.isArray(value) && 'id' in value ? { id: (value as any).id } : value;
+  }
+  return data;
+}
+
+export default ContactArchive.getInstance();
@@ -0,0 +1,375 @@
+import zohoClient, { requireScope, type ZohoCredentials, type ZohoProduct } from "./zohoClient";
+import { log } from "./vite";
+import { bulkReadRecords } from "./bulkRead";
+import { CONTACT_SORT_FIELDS, DEFAULT_CONTACT_PAGE_SIZE, MAX_CONTACT_SEARCH_OFFSET, type ContactSearchParams, type ContactSearchPage } from "@shared/contactSearch";
+
+// Contact listing and per-contact email history for both Zoho CRM and Bigin.
+// The two products return emails under different keys and report statuses
+// differently, so everything here hands back the CRM shape.
+
+// The list APIs only return the fields they are asked for.
+const LIST_FIELDS = 'Full_Name,Email,Owner,Modified_Time';
+// CRM v2 has no page_token, so CRM listings use a newer version.
+const LIST_VERSIONS: Record<ZohoProduct, string | undefined> = { crm: 'v8', bigin: undefined };
+const PER_PAGE = 200;
+// Without a page_token Zoho refuses pages past the first 2,000 records.
+const PAGE_NUMBER_LIMIT = 2000 / PER_PAGE;
+// CRM orgs with more contacts than this are exported with Bulk Read instead of paged.
+const BULK_READ_THRESHOLD = 10000;
+// Allowance for clock differences between this server and Zoho when comparing Modified_Time.
+const MODIFIED_SINCE_MARGIN_MS = 5 * 60 * 1000;
+
+export interface EmailStatus {
+  // Lower-case status such as sent, opened, clicked or bounced
+  type: string;
+  [key: string]: any;
+}
+
+// CRM answers with email_related_list; Bigin with Emails or data depending on the version.
+export function extractEmails(responseData: any): any[] {
+  return responseData?.email_related_list || responseData?.Emails || responseData?.data || [];
+}
+
+// CRM reports status as an array of { type, ... }; Bigin sometimes as a single string.
+export function normalizeEmailStatuses(email: any): EmailStatus[] {
+  const statuses = Array.isArray(email?.status) ? email.status : email?.status ? [email.status] : [];
+  return statuses.map((status: any) =>
+    typeof status === 'string'
+      ? { type: status.toLowerCase() }
+      : { ...status, type: String(status.type || '').toLowerCase() }
+  );
+}
+
+function normalizeEmail(email: any) {
+  return { ...email, status: normalizeEmailStatuses(email) };
+}
+
+export interface FetchContactsOptions {
+    // Called after each page with the number of contacts fetched so far
+    onPage?: (fetched: number) => void;
+    // Checked before each page; returning true ends the listing early
+    shouldStop?: () => boolean;
+    // Throw when the first page fails instead of returning no contacts
+    failOnFirstPage?: boolean;
+    // Only list contacts modified since this time (ISO 8601); always paged, never Bulk Read
+    modifiedSince?: string;
+}
+
+export interface ContactListing {
+    contacts: any[];
+    // Set when Zoho has contacts that were not fetched; `truncation_reason` says why.
+    // Stopping through shouldStop() does not count as truncation.
+    truncated: boolean;
+    truncation_reason?: string;
+    source: 'pages' | 'bulk_read';
+    // Why a listing large enough for Bulk Read was paged instead
+    bulk_read_error?: string;
+}
+
+async function countContacts(account: ZohoCredentials): Promise<number | null> {
+    try {
+        const response = await zohoClient.api(account, 'crm', 'v8').get('/Contacts/actions/count');
+        return typeof response.data?.count === 'number' ? response.data.count : null;
+    } catch (error: any) {
+        log(`[Contacts] Could not count contacts for account ${account.id}: ${error.message}`, 'contacts');
+        return null;
+    }
+}
+
+// Bulk Read only returns owner ids, so names come from the user list.
+async function fetchUserNames(account: ZohoCredentials): Promise<Map<string, string>> {
+    try {
+        const response = await zohoClient.api(account, 'crm').get('/users', { params: { type: 'AllUsers', per_page: 200 } });
+        return new Map((response.data?.users || []).map((user: any) => [String(user.id), user.full_name]));
+    } catch (error: any) {
+        log(`[Contacts] Could not fetch users for account ${account.id}: ${error.message}`, 'contacts');
+        return new Map();
+    }
+}
+
+async function fetchContactsByBulkRead(account: ZohoCredentials, options: FetchContactsOptions): Promise<ContactListing> {
+    const { records } = await bulkReadRecords(account, 'Contacts', ['First_Name', 'Last_Name', 'Email', 'Owner', 'Modified_Time'], options);
+    const userNames = await fetchUserNames(account);
+
+    // Same shape as the list API
+    const contacts = records.map(record => ({
+        id: record.Id,
+        Full_Name: [record.First_Name, record.Last_Name].filter(Boolean).join(' '),
+        Email: record.Email || null,
+        Owner: record.Owner ? { id: record.Owner, name: userNames.get(record.Owner) } : null,
+        Modified_Time: record.Modified_Time,
+    }));
+    return { contacts, truncated: false, source: 'bulk_read' };
+}
+
+// Pages through the list API, following page_token past the first 2,000 records.
+async function fetchContactPages(account: ZohoCredentials, product: ZohoProduct, options: FetchContactsOptions): Promise<ContactListing> {
+    const contactsMap = new Map();
+    let page = 1;
+    let pageToken: string | undefined;
+    let moreRecords = true;
+    let truncationReason: string | undefined;
+    const modifiedSince = options.modifiedSince ? ifModifiedSince(options.modifiedSince) : undefined;
+
+    while (moreRecords && !options.shouldStop?.()) { 
+        try {
+            const response = await zohoClient.api(account, product, LIST_VERSIONS[product]).get('/Contacts', {
+                params: { ...(pageToken ? { page_token: pageToken } : { page }), per_page: PER_PAGE, fields: LIST_FIELDS },
+                // Zoho answers 304 when nothing changed since `modifiedSince`
+                ...(modifiedSince && { headers: modifiedSince, validateStatus: (status: number) => status < 300 || status === 304 }),
+            });
+
+            if (response.data && response.data.data) {
+                response.data.data.forEach((contact: any) => {
+                    contactsMap.set(contact.id, contact);
+                });
+            }
+            
+            const info = response.data?.info || {};
+            moreRecords = info.more_records || false;
+            pageToken = info.next_page_token || undefined;
+            page++;
+            options.onPage?.(contactsMap.size);
+
+            if (moreRecords && !pageToken && page > PAGE_NUMBER_LIMIT) {
+                truncationReason = `Zoho returned no page token after ${contactsMap.size} contacts.`;
+                moreRecords = false;
+            }
+        } catch (error: any) {
+            if (page === 1 && options.failOnFirstPage) throw error;
+            console.error("Error fetching page " + page, error);
+            truncationReason = `Listing stopped at page ${page}: ${error.response?.data?.message || error.message}`;
+            moreRecords = false; 
+        }
+    }
+
+    if (truncationReason) log(`[Contacts] Truncated listing for account ${account.id}: ${truncationReason}`, 'contacts');
+    return {
+        contacts: Array.from(contactsMap.values()),
+        truncated: !!truncationReason,
+        truncation_reason: truncationReason,
+        source: 'pages',
+    };
+}
+
+export async function fetchAllContacts(account: ZohoCredentials, product: ZohoProduct = 'crm', options: FetchContactsOptions = {}): Promise<ContactListing> {
+    if (product === 'crm' && !options.modifiedSince) {
+        const count = await countContacts(account);
+        if (count !== null && count > BULK_READ_THRESHOLD) {
+            try {
+                return await fetchContactsByBulkRead(account, options);
+            } catch (error: any) {
+                log(`[Contacts] Bulk read failed for account ${account.id}, paging instead: ${error.message}`, 'contacts');
+                return { ...(await fetchContactPages(account, product, options)), bulk_read_error: error.message };
+            }
+        }
+    }
+    return fetchContactPages(account, product, options);
+}
+
+// The If-Modified-Since header for changes since `since`, moved back by the clock margin
+function ifModifiedSince(since: string) {
+    const from = new Date(Date.parse(since) - MODIFIED_SINCE_MARGIN_MS);
+    return { 'If-Modified-Since': from.toISOString().replace(/\.\d{3}Z$/, '+00:00') };
+}
+
+// Ids of contacts deleted since `since`, whether in the recycle bin or gone for good.
+export async function fetchDeletedContactIds(account: ZohoCredentials, product: ZohoProduct, since: string, shouldStop?: () => boolean): Promise<string[]> {
+    const ids: string[] = [];
+    for (let page = 1, moreRecords = true; moreRecords && !shouldStop?.(); page++) {
+        const response = await zohoClient.api(account, product, LIST_VERSIONS[product]).get('/Contacts/deleted', {
+            params: { type: 'all', page, per_page: PER_PAGE },
+            headers: ifModifiedSince(since),
+            validateStatus: (status: number) => status < 300 || status === 304,
+        });
+        (response.data?.data || []).forEach((record: any) => ids.push(String(record.id)));
+        moreRecords = response.data?.info?.more_records || false;
+    }
+    return ids;
+}
+
+// The full contact list after an incremental listing: the contacts of the previous snapshot,
+// replaced by their changed version where there is one, without the deleted ones, followed by
+// the new ones. Unchanged contacts keep the Modified_Time saved with their stats.
+export function applyContactChanges(previous: any[], changed: any[], deletedIds: string[]) {
+    const deleted = new Set(deletedIds);
+    const changedById = new Map(changed.map(contact => [contact.id, contact]));
+    const contacts = previous
+        .filter(entry => !deleted.has(entry.contact_id))
+        .map(entry => changedById.get(entry.contact_id) ?? {
+            id: entry.contact_id,
+            Full_Name: entry.Full_Name,
+            Email: entry.Email,
+            Owner: entry.Owner,
+            Modified_Time: entry.Modified_Time,
+        });
+    const known = new Set(previous.map(entry => entry.contact_id));
+    return contacts.concat(changed.filter(contact => !known.has(contact.id) && !deleted.has(contact.id)));
+}
+
+const COQL_CONTACT_FIELDS = 'First_Name, Last_Name, Full_Name, Email, Owner, Created_Time, Modified_Time';
+// Every COQL query needs this scope; Zoho answers OAUTH_SCOPE_MISMATCH without it
+const COQL_SCOPE = 'ZohoCRM.coql.READ';
+
+// COQL string literals are single-quoted; quotes and backslashes inside are escaped with a backslash.
+function coqlString(value: string) {
+    return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
+
+function buildContactCriteria(params: ContactSearchParams) {
+    const conditions: string[] = [];
+    if (params.query) {
+        const pattern = coqlString(`%${params.query}%`);
+        conditions.push(`(First_Name like ${pattern} or Last_Name like ${pattern} or Email like ${pattern})`);
+    }
+    if (params.owner) conditions.push(`Owner = ${coqlString(params.owner)}`);
+    if (params.created_from) conditions.push(`Created_Time >= ${coqlString(`${params.created_from}T00:00:00+00:00`)}`);
+    if (params.created_to) conditions.push(`Created_Time <= ${coqlString(`${params.created_to}T23:59:59+00:00`)}`);
+    // COQL always needs a where clause
+    return conditions.length > 0 ? conditions.join(' and ') : 'id is not null';
+}
+
+// One page of CRM contacts matching the filters, plus the total across all pages.
+export async function searchContacts(account: ZohoCredentials, params: ContactSearchParams): Promise<ContactSearchPage> {
+    const page = params.page ?? 1;
+    const perPage = params.per_page ?? DEFAULT_CONTACT_PAGE_SIZE;
+    const criteria = buildContactCriteria(params);
+    const orderBy = `${CONTACT_SORT_FIELDS[params.sort ?? 'created']} ${params.direction ?? 'desc'}`;
+    const api = zohoClient.api(account, 'crm', 'v8');
+
+    const [response, total] = await Promise.all([
+        requireScope(COQL_SCOPE, api.post('/coql', {
+            select_query: `select ${COQL_CONTACT_FIELDS} from Contacts where ${criteria} order by ${orderBy} limit ${(page - 1) * perPage}, ${perPage}`
+        })),
+        api.post('/coql', { select_query: `select COUNT(id) from Contacts where ${criteria}` })
+            .then(countResponse => Number(countResponse.data?.data?.[0]?.['COUNT(id)'] ?? 0))
+            .catch((error: any) => {
+                log(`[Contacts] Could not count search results for account ${account.id}: ${error.message}`, 'contacts');
+                return null;
+            }),
+    ]);
+
+    // Zoho answers 204 with no body when nothing matches
+    const contacts = (response.data?.data || []).map((contact: any) => ({
+        ...contact,
+        Full_Name: contact.Full_Name || [contact.First_Name, contact.Last_Name].filter(Boolean).join(' '),
+    }));
+    return { contacts, page, per_page: perPage, total, more_records: response.data?.info?.more_records ?? false };
+}
+
+// COQL's largest page
+const COQL_PAGE_SIZE = 2000;
+
+// Every CRM contact matching the filters, up to the COQL offset limit (`truncated` beyond it).
+export async function findAllContacts(account: ZohoCredentials, params: ContactSearchParams) {
+    const criteria = buildContactCriteria(params);
+    const api = zohoClient.api(account, 'crm', 'v8');
+    const contacts: any[] = [];
+
+    for (let offset = 0; offset < MAX_CONTACT_SEARCH_OFFSET; offset += COQL_PAGE_SIZE) {
+        const response = await requireScope(COQL_SCOPE, api.post('/coql', {
+            select_query: `select ${COQL_CONTACT_FIELDS} from Contacts where ${criteria} order by id asc limit ${offset}, ${COQL_PAGE_SIZE}`
+        }));
+        for (const contact of response.data?.data || []) {
+            contacts.push({ ...contact, Full_Name: contact.Full_Name || [contact.First_Name, contact.Last_Name].filter(Boolean).join(' ') });
+        }
+        if (!response.data?.info?.more_records) return { contacts, truncated: false };
+    }
+    return { contacts, truncated: true };
+}
+
+// Contacts per batch of concurrent /Emails calls, and the pause between batches.
+export const CONTACT_STATS_BATCH_SIZE = 10;
+export const CONTACT_STATS_BATCH_DELAY_MS = 50;
+
+// Email history for one batch of contacts. A contact whose call fails is still
+// returned (with no emails) and counted in `failures`.
+export async function fetchContactStatsBatch(account: ZohoCredentials, batch: any[], product: ZohoProduct = 'crm') {
+    let failures = 0;
+
+    const results = await Promise.all(batch.map(async (contact) => {
+        const base = {
+            contact_id: contact.id,
+            Full_Name: contact.Full_Name,
+            Email: contact.Email,
+            Owner: contact.Owner,
+            Modified_Time: contact.Modified_Time,
+        };
+        try {
+            const statsResponse = await zohoClient.api(account, product).get(`/Contacts/${contact.id}/Emails`, {
+                timeout: 10000 
+            });
+            return { ...base, emails: extractEmails(statsResponse.data).map(normalizeEmail) };
+        } catch (error: any) {
+            failures++;
+            const errorMsg = error.code === 'ECONNABORTED' ? 'Timeout (10s)' : error.message;
+            log(`[Stats] [Error] Contact: ${contact.Email} | ID: ${contact.id} | Reason: ${errorMsg}`, 'stats-error');
+            // mergeContactStats keeps the previous stats of contacts marked this way
+            return { ...base, emails: [], fetch_failed: true };
+        }
+    }));
+
+    return { results, failures };
+}
+
+// Statuses after which an email's stats no longer change.
+const FINAL_EMAIL_STATUSES = ['clicked', 'bounced', 'failed'];
+// Unsettled emails older than this are no longer re-checked by incremental refreshes.
+const PENDING_EMAIL_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+function emailSentAt(email: any) {
+    return Date.parse(email.sent_time || email.time || '');
+}
+
+// Whether a contact's most recent email may still be opened, clicked or bounced.
+function hasPendingEmail(entry: any, now: number) {
+    if (!entry.emails?.length) return false;
+    const latest = entry.emails.reduce((a: any, b: any) => emailSentAt(b) > emailSentAt(a) ? b : a);
+    if ((latest.status || []).some((status: EmailStatus) => FINAL_EMAIL_STATUSES.includes(status.type))) return false;
+    const sentAt = emailSentAt(latest);
+    return isNaN(sentAt) || now - sentAt < PENDING_EMAIL_WINDOW_MS;
+}
+
+// Contacts whose email history has to be fetched again after a snapshot listed at `since`:
+// new ones, ones modified since, ones whose last fetch failed, and ones whose latest email
+// is still in a non-final state.
+export function selectContactsForRefresh(contacts: any[], previous: any[], since: string) {
+    const previousById = new Map(previous.map(entry => [entry.contact_id, entry]));
+    const cutoff = Date.parse(since) - MODIFIED_SINCE_MARGIN_MS;
+    const now = Date.now();
+
+    return contacts.filter(contact => {
+        const entry = previousById.get(contact.id);
+        if (!entry || entry.fetch_failed) return true;
+        const modified = Date.parse(contact.Modified_Time || '');
+        if (isNaN(modified) || modified >= cutoff) return true;
+        return hasPendingEmail(entry, now);
+    });
+}
+
+// The next snapshot, in listing order: fresh results where they were fetched, otherwise the
+// previous entry with the contact's current name, email and owner. A failed fetch keeps the
+// previous entry too, still marked as failed so the next refresh tries again. Contacts no longer
+// listed drop out, unless the listing was truncated and their absence proves nothing.
+export function mergeContactStats(contacts: any[], previous: any[], fetched: any[], truncated = false) {
+    const fetchedById = new Map(fetched.map(entry => [entry.contact_id, entry]));
+    const previousById = new Map(previous.map(entry => [entry.contact_id, entry]));
+
+    const merged = contacts.map(contact => {
+        const entry = fetchedById.get(contact.id);
+        if (entry && !(entry.fetch_failed && previousById.has(contact.id))) return entry;
+        return {
+            ...previousById.get(contact.id),
+            contact_id: contact.id,
+            Full_Name: contact.Full_Name,
+            Email: contact.Email,
+            Owner: contact.Owner,
+            Modified_Time: contact.Modified_Time,
+            ...(entry && { fetch_failed: true }),
+        };
+    });
+    if (!truncated) return merged;
+
+    const listed = new Set(contacts.map(contact => contact.id));
+    return merged.concat(previous.filter(entry => !listed.has(entry.contact_id)));
+}
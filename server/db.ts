@@ -0,0 +1,22 @@
+import pg from "pg";
+import path from "path";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+const MIGRATIONS_FOLDER = path.join(process.cwd(), 'migrations');
+
+// Uses node-postgres so the same code runs against a local Postgres, a hosted
+// one, or pg-mem's node-postgres adapter (pass its Pool in) for tests; server/storage.test.ts
+// shows the query options pg-mem needs stripped.
+export function createDb(connection: string | pg.Pool): Database {
+  const pool = typeof connection === 'string' ? new pg.Pool({ connectionString: connection }) : connection;
+  return drizzle(pool, { schema });
+}
+
+// Applies any pending SQL files from ./migrations (generated by `npm run db:generate`).
+export async function runMigrations(db: Database) {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
@@ -0,0 +1,272 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { FileJobStore } from "./jobStore";
+import zohoClient, { type ZohoCredentials } from "./zohoClient";
+import jobManager from "./jobManager";
+import statsJobManager from "./statsJobManager";
+import { findAllContacts } from "./contacts";
+import contactArchive from "./contactArchive";
+import { recordAuditAs, type AuditActor } from "./audit";
+import type { ContactDeleteCriteria, ContactDeleteJob, ContactDeletePreview } from "@shared/contactDelete";
+
+const DELETE_JOBS_FILE_PATH = path.join(process.cwd(), 'delete-jobs.json');
+// Zoho deletes at most 100 records per call
+const DELETE_BATCH_SIZE = 100;
+// Pause between batches so a large delete leaves API credits for everything else
+const DELETE_BATCH_DELAY_MS = 2000;
+const PREVIEW_SAMPLE_SIZE = 20;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Criteria that cannot be resolved (nothing given, no stats snapshot, unknown job).
+export class DeleteCriteriaError extends Error {}
+
+interface MatchedContact {
+  id: string;
+  Full_Name: string;
+  Email: string | null;
+}
+
+interface DeleteReportRow {
+  id: string;
+  email: string | null;
+  status: 'deleted' | 'failed';
+  message: string;
+}
+
+// The stored job: the summary the API returns, plus what it still has to delete and its report.
+interface StoredDeleteJob extends ContactDeleteJob {
+  actor: AuditActor | null;
+  contacts: MatchedContact[];
+  report: DeleteReportRow[];
+}
+
+// Deletes the CRM contacts matching a set of criteria in the background, one batch
+// of 100 at a time, keeping a report of every deleted or failed contact.
+class DeleteJobManager {
+  private static instance: DeleteJobManager;
+  private jobs: Map<string, StoredDeleteJob> = new Map();
+  private store = new FileJobStore(DELETE_JOBS_FILE_PATH);
+
+  private constructor() {
+    this.restoreJobs();
+  }
+
+  public static getInstance(): DeleteJobManager {
+    if (!DeleteJobManager.instance) DeleteJobManager.instance = new DeleteJobManager();
+    return DeleteJobManager.instance;
+  }
+
+  // A delete cut off by a restart is not resumed on its own; previewing again shows what is left.
+  private async restoreJobs() {
+    const saved = await this.store.loadJobs();
+    Object.values(saved).forEach((job: StoredDeleteJob) => {
+      if (job.status === 'running') {
+        job.status = 'failed';
+        job.error = 'Interrupted by a server restart.';
+        job.finishedAt = Date.now();
+      }
+      this.jobs.set(job.id, job);
+    });
+  }
+
+  private persist() {
+    this.store.saveJobs(this.jobs);
+  }
+
+  // Resolves each criterion to a list of contacts and keeps those matching all of them.
+  private async resolveCriteria(account: ZohoCredentials, accountId: number, criteria: ContactDeleteCriteria) {
+    const { query, owner, created_from, created_to, email_bounced, job_id } = criteria;
+    const lists: MatchedContact[][] = [];
+    let truncated = false;
+
+    if (query || owner || created_from || created_to) {
+      const found = await findAllContacts(account, { query, owner, created_from, created_to });
+      lists.push(found.contacts.map(contact => ({ id: String(contact.id), Full_Name: contact.Full_Name, Email: contact.Email ?? null })));
+      truncated = found.truncated;
+    }
+
+    if (email_bounced) {
+      const stats = statsJobManager.getStats(accountId, 'crm');
+      if (!stats.refreshed_at) throw new DeleteCriteriaError('Collect email statistics for this account before filtering by bounced emails.');
+      lists.push(stats.contacts
+        .filter(entry => (entry.emails || []).some((email: any) => (email.status || []).some((status: any) => status.type === 'bounced')))
+        .map(entry => ({ id: String(entry.contact_id), Full_Name: entry.Full_Name, Email: entry.Email ?? null })));
+    }
+
+    if (job_id) {
+      const job = jobManager.getJob(job_id);
+      if (!job || job.accountId !== String(accountId) || job.platform !== 'crm') {
+        throw new DeleteCriteriaError('Bulk job not found for this account.');
+      }
+      lists.push(job.results
+        .filter(result => result.response?.contact?.data?.[0]?.code === 'SUCCESS')
+        .map(result => ({ id: String(result.response.contact.data[0].details.id), Full_Name: '', Email: result.email })));
+    }
+
+    if (lists.length === 0) throw new DeleteCriteriaError('Choose at least one filter; deleting every contact is not supported.');
+
+    const [first, ...rest] = lists;
+    const restIds = rest.map(list => new Set(list.map(contact => contact.id)));
+    const contacts = first.filter(contact => restIds.every(ids => ids.has(contact.id)));
+    return { contacts, truncated };
+  }
+
+  public async preview(account: ZohoCredentials, accountId: number, criteria: ContactDeleteCriteria): Promise<ContactDeletePreview> {
+    const { contacts, truncated } = await this.resolveCriteria(account, accountId, criteria);
+    return { count: contacts.length, sample: contacts.slice(0, PREVIEW_SAMPLE_SIZE), truncated };
+  }
+
+  // Resolves the criteria again and only starts when the count still matches what the user confirmed.
+  public async startJob(
+    account: ZohoCredentials,
+    accountId: number,
+    criteria: ContactDeleteCriteria,
+    confirmCount: number,
+    actor: AuditActor | null,
+  ): Promise<ContactDeleteJob> {
+    const running = Array.from(this.jobs.values()).find(job => job.accountId === accountId && job.status === 'running');
+    if (running) throw new DeleteCriteriaError('A delete is already running for this account.');
+
+    const { contacts, truncated } = await this.resolveCriteria(account, accountId, criteria);
+    if (truncated) throw new DeleteCriteriaError('Too many contacts match; narrow the criteria.');
+    if (contacts.length !== confirmCount) {
+      throw new DeleteCriteriaError(`The matching contacts changed since the preview (now ${contacts.length}). Preview again.`);
+    }
+    if (contacts.length === 0) throw new DeleteCriteriaError('No contacts match these criteria.');
+
+    const job: StoredDeleteJob = {
+      id: randomUUID(),
+      accountId,
+      status: 'running',
+      criteria,
+      total: contacts.length,
+      deleted: 0,
+      failed: 0,
+      batches: [],
+      createdBy: actor?.username ?? 'system',
+      startedAt: Date.now(),
+      actor,
+      contacts,
+      report: [],
+    };
+    this.jobs.set(job.id, job);
+    this.persist();
+    this.run(job.id);
+    return this.summarize(job);
+  }
+
+  public cancelJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'running') return false;
+    job.status = 'cancelled';
+    job.finishedAt = Date.now();
+    this.persist();
+    return true;
+  }
+
+  public getJob(jobId: string): ContactDeleteJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job && this.summarize(job);
+  }
+
+  // Newest first
+  public getAccountJobs(accountId: number): ContactDeleteJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => job.accountId === accountId)
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .map(job => this.summarize(job));
+  }
+
+  // The report as CSV: one row per contact the job tried to delete.
+  public getReportCsv(jobId: string): string | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+    const escape = (value: string | null) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const rows = job.report.map(row => [row.id, row.email, row.status, row.message].map(escape).join(','));
+    return ['id,email,status,message', ...rows].join('\n');
+  }
+
+  private summarize(job: StoredDeleteJob): ContactDeleteJob {
+    const { actor, contacts, report, ...summary } = job;
+    return summary;
+  }
+
+  private async run(jobId: string) {
+    const job = this.jobs.get(jobId)!;
+
+    try {
+      const account = await storage.getAccount(job.accountId);
+      if (!account) throw new Error(`Account ${job.accountId} not found.`);
+
+      for (let i = 0; i < job.contacts.length; i += DELETE_BATCH_SIZE) {
+        if (job.status !== 'running') return;
+        const batch = job.contacts.slice(i, i + DELETE_BATCH_SIZE);
+        const ids = batch.map(contact => contact.id);
+        const result = { number: job.batches.length + 1, count: batch.length, deleted: 0, failed: 0, error: undefined as string | undefined };
+
+        let archiveId: string | null = null;
+        try {
+          // Nothing is deleted unless it was archived first, so the batch can be restored
+          const archived = await contactArchive.archive(account, job.accountId, ids, { source: 'filter', deleteJobId: job.id, actor: job.actor });
+          archiveId = archived.batchId;
+          const response = await zohoClient.api(account, 'crm').delete('/Contacts', { params: { ids: archived.archivedIds.join(',') } });
+          contactArchive.markDeleted(archiveId, response.data);
+          // Zoho answers per record
+          const outcomes: any[] = response.data?.data || [];
+          batch.forEach(contact => {
+            const outcome = outcomes.find(item => String(item.details?.id) === contact.id);
+            const deleted = outcome?.code === 'SUCCESS';
+            if (deleted) result.deleted++;
+            else result.failed++;
+            const message = archived.archivedIds.includes(contact.id)
+              ? outcome?.message || outcome?.code || 'No result from Zoho'
+              : 'Not deleted: Zoho did not return this contact to archive first.';
+            job.report.push({ id: contact.id, email: contact.Email, status: deleted ? 'deleted' : 'failed', message });
+          });
+          recordAuditAs(job.actor, {
+            action: 'contact.delete',
+            accountId: job.accountId,
+            targetIds: archived.archivedIds,
+            summary: `Delete-by-filter job ${job.id}: batch ${result.number} deleted ${result.deleted} of ${batch.length} CRM contacts`,
+            response,
+          });
+        } catch (error: any) {
+          if (archiveId) contactArchive.discard(archiveId);
+          result.failed = batch.length;
+          result.error = error.response?.data?.message || error.message;
+          batch.forEach(contact => job.report.push({ id: contact.id, email: contact.Email, status: 'failed', message: result.error! }));
+          recordAuditAs(job.actor, {
+            action: 'contact.delete',
+            accountId: job.accountId,
+            targetIds: ids,
+            summary: `Delete-by-filter job ${job.id}: batch ${result.number} failed`,
+            error,
+          });
+        }
+
+        job.batches.push(result);
+        job.deleted += result.deleted;
+        job.failed += result.failed;
+        this.persist();
+        log(`[Delete] Job ${job.id} batch ${result.number}: ${result.deleted} deleted, ${result.failed} failed`, 'delete-job');
+
+        if (i + DELETE_BATCH_SIZE < job.contacts.length) await sleep(DELETE_BATCH_DELAY_MS);
+      }
+      if (job.status === 'running') job.status = 'completed';
+    } catch (error: any) {
+      job.status = 'failed';
+      job.error = error.message;
+      log(`[Delete] Job ${job.id} failed: ${error.message}`, 'delete-job');
+    } finally {
+      job.finishedAt = job.finishedAt ?? Date.now();
+      // The report keeps what was done; the pending list is no longer needed
+      job.contacts = [];
+      this.persist();
+    }
+  }
+}
+
+export default DeleteJobManager.getInstance();
@@ -0,0 +1,86 @@
+import zohoClient, { type ZohoCredentials, type ZohoProduct } from "./zohoClient";
+import { log } from "./vite";
+import type { ZohoField, ZohoFieldsResponse } from "@shared/zohoFields";
+
+// Field layouts rarely change, so metadata is kept for an hour per account,
+// product and module. Account changes and ?refresh=true drop it early.
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const FIELDS_API_VERSIONS: Record<ZohoProduct, string> = { crm: 'v8', bigin: 'v1' };
+
+function normalizeField(raw: any): ZohoField {
+  // Newer API versions return lookup.module as { api_name, id }, older ones as a string
+  const lookupModule = raw.lookup?.module?.api_name ?? raw.lookup?.module;
+  return {
+    api_name: raw.api_name,
+    display_label: raw.display_label || raw.field_label || raw.api_name,
+    data_type: raw.data_type,
+    custom_field: !!raw.custom_field,
+    required: !!raw.system_mandatory,
+    read_only: !!raw.read_only,
+    creatable: raw.view_type ? !!raw.view_type.create : !raw.read_only,
+    max_length: typeof raw.length === 'number' ? raw.length : null,
+    pick_list_values: (raw.pick_list_values || []).map((value: any) => ({
+      display_value: value.display_value,
+      actual_value: value.actual_value ?? value.display_value,
+    })),
+    lookup: lookupModule ? { module: lookupModule, display_label: raw.lookup.display_label ?? null } : null,
+  };
+}
+
+class FieldMetadataService {
+  private static instance: FieldMetadataService;
+  private cache: Map<string, { data: ZohoFieldsResponse; expires_at: number }> = new Map();
+  private inFlight: Map<string, Promise<ZohoFieldsResponse>> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): FieldMetadataService {
+    if (!FieldMetadataService.instance) FieldMetadataService.instance = new FieldMetadataService();
+    return FieldMetadataService.instance;
+  }
+
+  private getCacheKey(accountId: number | string, product: ZohoProduct, module: string) {
+    return `${accountId}:${product}:${module}`;
+  }
+
+  public async getFields(account: ZohoCredentials, product: ZohoProduct, module: string, refresh = false): Promise<ZohoFieldsResponse> {
+    const key = this.getCacheKey(account.id, product, module);
+    const cached = this.cache.get(key);
+    if (!refresh && cached && cached.expires_at > Date.now()) return cached.data;
+
+    // Concurrent page loads share one Zoho call
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      try {
+        log(`Fetching ${product} field metadata for ${module} (account ${account.id})`, 'fields');
+        const response = await zohoClient.api(account, product, FIELDS_API_VERSIONS[product]).get('/settings/fields', {
+          params: { module }
+        });
+        const data: ZohoFieldsResponse = {
+          module,
+          fields: (response.data?.fields || []).map(normalizeField),
+          fetched_at: new Date().toISOString(),
+        };
+        this.cache.set(key, { data, expires_at: Date.now() + CACHE_TTL_MS });
+        return data;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  // Drops cached metadata for one account, optionally only one product.
+  public invalidate(accountId: number | string, product?: ZohoProduct) {
+    const prefix = product ? `${accountId}:${product}:` : `${accountId}:`;
+    Array.from(this.cache.keys()).forEach((key) => {
+      if (key.startsWith(prefix)) this.cache.delete(key);
+    });
+  }
+}
+
+export default FieldMetadataService.getInstance();
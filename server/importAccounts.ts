@@ -0,0 +1,27 @@
+// Copies accounts.json into the Postgres database named by DATABASE_URL.
+// Usage: npm run db:import-accounts [-- path/to/accounts.json]
+import pg from "pg";
+import path from "path";
+import { createDb } from "./db";
+import { DrizzleStorage } from "./storage";
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set to import accounts.");
+  }
+
+  const filePath = path.resolve(process.argv[2] || 'accounts.json');
+  const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  try {
+    const storage = new DrizzleStorage(createDb(pool));
+    const { imported, skipped } = await storage.importAccountsFromFile(filePath);
+    console.log(`Imported ${imported} account(s) from ${filePath}; ${skipped} already existed.`);
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(`Account import failed: ${error.message}`);
+  process.exit(1);
+});
@@ -1,10 +1,12 @@
 import { storage } from "./storage";
-import axios from "axios";
 import { log } from "./vite";
-
-const ZOHO_ACCOUNTS_URL = 'https://accounts.zoho.com';
-const accessTokenCache: Record<string, { token: string; expires_at: number }> = {};
-const tokenRefreshLocks: Record<string, Promise<string>> = {};
+import { jobStore } from "./jobStore";
+import zohoClient from "./zohoClient";
+import sendQuotas, { type SendReservation } from "./sendQuotas";
+import { extractEmails, normalizeEmailStatuses } from "./contacts";
+import { parseMergeTags, renderMergeTags, recipientMergeValues, hasMergeValue } from "@shared/mergeTags";
+import { isInSendingWindow, nextSendingTime, scheduledStartTime, type JobSchedule } from "@shared/jobSchedule";
+import { randomUUID } from "crypto";
 
 declare global {
   var jobStorage: Map<string, any>;
@@ -14,184 +16,449 @@ if (!global.jobStorage) {
   global.jobStorage = new Map();
 }
 
-async function getAccessToken(account: any): Promise<string> {
-  const { refresh_token, client_id, client_secret, id } = account;
-  const cachedToken = accessTokenCache[id];
-  if (cachedToken && cachedToken.expires_at > Date.now()) return cachedToken.token;
-  if (tokenRefreshLocks[id]) return await tokenRefreshLocks[id];
+export type JobPlatform = 'crm' | 'bigin';
+export type JobStatus = 'scheduled' | 'queued' | 'processing' | 'paused' | 'stopped' | 'completed' | 'failed';
+export type JobWait = 'window' | 'quota';
 
-  const refreshPromise = (async () => {
-    try {
-      const response = await axios.post(`${ZOHO_ACCOUNTS_URL}/oauth/v2/token`, null, {
-        params: { refresh_token, client_id, client_secret, grant_type: 'refresh_token' }
-      });
-      accessTokenCache[id] = {
-        token: response.data.access_token,
-        expires_at: Date.now() + (response.data.expires_in * 1000) - 60000
-      };
-      return response.data.access_token;
-    } catch (error: any) {
-      throw new Error('Invalid refresh token or other Zoho API error.');
-    } finally {
-      delete tokenRefreshLocks[id];
-    }
-  })();
-
-  tokenRefreshLocks[id] = refreshPromise;
-  return await refreshPromise;
-}
-
-interface Job {
+export interface Job {
+  id: string;
   accountId: string;
   emails: string[];
   results: any[];
-  status: 'processing' | 'paused' | 'stopped' | 'completed' | 'failed';
+  status: JobStatus;
   currentIndex: number;
   totalEmails: number;
   delay: number;
   formData: any;
+  // Zoho field values per email, from an imported file. Without them every contact
+  // gets formData.lastName and formData.customFields.
+  rows?: Record<string, any>[];
+  // The imported cells by column name, for merge tags
+  cells?: Record<string, string>[];
   error?: string;
   countdown: number;
-  platform: 'crm' | 'bigin'; 
+  platform: JobPlatform;
+  // Start time and sending windows; a job with a start time waits as 'scheduled' until then
+  schedule?: JobSchedule;
+  // Set while the job is paused outside its sending windows or over a send quota:
+  // when it resumes by itself, and which of the two it is waiting for
+  resumeAt?: number;
+  waitingFor?: JobWait;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
 }
 
+const ACTIVE_STATUSES: JobStatus[] = ['processing', 'paused'];
+const FINISHED_STATUSES: JobStatus[] = ['stopped', 'completed', 'failed'];
+// Finished jobs kept per account/platform lane for the history view.
+const MAX_FINISHED_JOBS_PER_LANE = 25;
+const BAD_LIVE_STATUSES = ['Bounced', 'Not Found', 'Failed', 'Failed Check', 'No Status'];
+// setTimeout fires early above ~24.8 days, so longer waits are re-armed in steps
+const MAX_TIMER_MS = 2147483647;
+
 class JobManager {
   private static instance: JobManager;
   private get jobs() { return global.jobStorage; }
   private timers: Map<string, NodeJS.Timeout> = new Map();
   private countdownIntervals: Map<string, NodeJS.Timeout> = new Map();
-
-  private constructor() {}
+  // Jobs with a processEmail call still running; it schedules the next send itself when done
+  private sending: Set<string> = new Set();
+  // Settles once jobs.json has been read; new jobs and saves wait for it so the
+  // restored jobs are never overwritten
+  private restored: Promise<void>;
+
+  private constructor() {
+    this.restored = this.restoreJobs().catch(error => {
+      log(`Error restoring jobs: ${error.message}`, 'job-manager-error');
+    });
+  }
 
   public static getInstance(): JobManager {
     if (!JobManager.instance) JobManager.instance = new JobManager();
     return JobManager.instance;
   }
 
-  private getJobKey(accountId: string, platform: 'crm' | 'bigin'): string {
+  // Reload jobs saved before the last shutdown. Anything that was mid-run comes
+  // back paused so it can be picked up again through /api/jobs/resume; jobs waiting
+  // for their start time, a sending window or a send quota keep waiting.
+  private async restoreJobs() {
+    if (this.jobs.size > 0) return;
+    const savedJobs = await jobStore.loadJobs();
+
+    Object.values(savedJobs).forEach((job: Job) => {
+      // Files written before job IDs existed are keyed by lane instead.
+      if (!job.id) job.id = randomUUID();
+      if (!job.createdAt) job.createdAt = Date.now();
+      if (job.status === 'processing') {
+        job.status = 'paused';
+        delete job.resumeAt;
+        delete job.waitingFor;
+      }
+      job.countdown = 0;
+      job.results.forEach((result: any) => {
+        if (result.liveStatus === 'Pending') {
+          result.liveStatus = 'Failed Check';
+          result.response.live = { error: 'Server restarted before the live status check ran.' };
+        }
+      });
+      this.jobs.set(job.id, job);
+    });
+
+    if (this.jobs.size > 0) {
+      log(`Restored ${this.jobs.size} job(s) from disk.`, 'job-manager');
+      this.persist();
+    }
+    this.jobs.forEach((job: Job) => {
+      if (job.status === 'scheduled') this.armStartTimer(job);
+      else if (job.status === 'paused' && job.resumeAt) this.waitUntil(job, job.resumeAt, job.waitingFor ?? 'window');
+    });
+  }
+
+  private persist() {
+    this.restored.then(() => jobStore.saveJobs(this.jobs));
+  }
+
+  private getLaneKey(accountId: string, platform: JobPlatform): string {
       return `${platform}-${accountId}`;
   }
 
-  public startJob(accountId: string, emails: string[], delay: number, formData: any, platform: 'crm' | 'bigin' = 'crm') {
-    const jobKey = this.getJobKey(String(accountId), platform);
+  // All jobs for one account/platform, oldest first.
+  private getLaneJobs(accountId: string, platform: JobPlatform): Job[] {
+    return Array.from(this.jobs.values())
+      .filter(job => job.accountId === String(accountId) && job.platform === platform)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
 
-    if (this.jobs.has(jobKey) && this.jobs.get(jobKey)?.status === 'processing') return;
+  private getActiveJob(accountId: string, platform: JobPlatform): Job | undefined {
+    return this.getLaneJobs(accountId, platform).find(job => ACTIVE_STATUSES.includes(job.status));
+  }
 
+  public async startJob(
+    accountId: string,
+    emails: string[],
+    delay: number,
+    formData: any,
+    platform: JobPlatform = 'crm',
+    rows?: Record<string, any>[],
+    cells?: Record<string, string>[],
+    schedule?: JobSchedule,
+  ): Promise<Job> {
+    await this.restored;
     const newJob: Job = {
+      id: randomUUID(),
       accountId: String(accountId),
       emails,
+      rows,
+      cells,
       results: [],
-      status: 'processing',
+      status: 'queued',
       currentIndex: 0,
       totalEmails: emails.length,
       delay,
       formData,
       countdown: 0,
-      platform 
+      platform,
+      schedule,
+      createdAt: Date.now()
     };
-    this.jobs.set(jobKey, newJob);
-    this.processEmail(jobKey);
+    this.jobs.set(newJob.id, newJob);
+    if (schedule?.startAt) {
+      newJob.status = 'scheduled';
+      this.persist();
+      this.armStartTimer(newJob);
+      return newJob;
+    }
+    this.persist();
+    this.startNextInLane(newJob.accountId, platform);
+    return newJob;
   }
 
-  public stopJob(accountId: string, platform: 'crm' | 'bigin' = 'crm') {
-    const jobKey = this.getJobKey(String(accountId), platform);
-    this.clearTimers(jobKey);
-    if (this.jobs.has(jobKey)) {
-      const job = this.jobs.get(jobKey)!;
-      job.status = 'stopped';
-      this.jobs.set(jobKey, job);
-    }
+  // Runs `callback` at `at`, through this job's timer so pausing or cancelling clears it
+  private setJobTimer(jobId: string, at: number, callback: () => void) {
+    const wait = at - Date.now();
+    const timer = setTimeout(() => {
+      this.timers.delete(jobId);
+      if (wait > MAX_TIMER_MS) this.setJobTimer(jobId, at, callback);
+      else callback();
+    }, Math.max(0, Math.min(wait, MAX_TIMER_MS)));
+    this.timers.set(jobId, timer);
   }
 
-  public pauseJob(accountId: string, platform: 'crm' | 'bigin' = 'crm') {
-    const jobKey = this.getJobKey(String(accountId), platform);
-    this.clearTimers(jobKey);
-    if (this.jobs.has(jobKey)) {
-      const job = this.jobs.get(jobKey)!;
-      if (job.status === 'processing') {
-        job.status = 'paused';
-        this.jobs.set(jobKey, job);
+  // A scheduled job joins its lane's queue at its start time
+  private armStartTimer(job: Job) {
+    const startAt = job.schedule ? scheduledStartTime(job.schedule) : undefined;
+    this.setJobTimer(job.id, startAt ?? Date.now(), () => {
+      const current = this.jobs.get(job.id);
+      if (!current || current.status !== 'scheduled') return;
+      current.status = 'queued';
+      this.persist();
+      log(`Scheduled job ${current.id} is due`, 'job-manager');
+      this.startNextInLane(current.accountId, current.platform);
+    });
+  }
+
+  // Pauses a job until its next sending window opens or its quota frees up.
+  // sendNext checks both again when the job resumes.
+  private waitUntil(job: Job, resumeAt: number, waitingFor: JobWait) {
+    this.clearTimers(job.id);
+    job.status = 'paused';
+    job.countdown = 0;
+    job.resumeAt = resumeAt;
+    job.waitingFor = waitingFor;
+    this.persist();
+    this.setJobTimer(job.id, resumeAt, () => {
+      const current = this.jobs.get(job.id);
+      if (!current || current.status !== 'paused' || !current.resumeAt) return;
+      delete current.resumeAt;
+      delete current.waitingFor;
+      current.status = 'processing';
+      this.persist();
+      this.sendNext(current.id);
+    });
+  }
+
+  // Sends to the next recipient, unless the job is outside its sending windows or
+  // its account or from address has used up a send quota
+  private sendNext(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'processing') return;
+    if (job.schedule && !isInSendingWindow(job.schedule)) {
+      log(`Job ${job.id} is outside its sending window; waiting`, 'job-manager');
+      this.waitUntil(job, nextSendingTime(job.schedule), 'window');
+      return;
+    }
+    let reservation: SendReservation | undefined;
+    if (job.formData.sendEmail) {
+      const claim = sendQuotas.reserve(job.accountId, job.formData.fromEmail || '');
+      if (!claim.reservation) {
+        log(`Job ${job.id} is over a send quota; waiting until ${new Date(claim.availableAt!).toISOString()}`, 'job-manager');
+        this.waitUntil(job, claim.availableAt!, 'quota');
+        return;
       }
+      reservation = claim.reservation;
     }
+    this.processEmail(jobId, reservation);
   }
 
-  public resumeJob(accountId: string, platform: 'crm' | 'bigin' = 'crm') {
-    const jobKey = this.getJobKey(String(accountId), platform);
-    if (this.jobs.has(jobKey)) {
-      const job = this.jobs.get(jobKey)!;
-      if (job.status === 'paused') {
-        job.status = 'processing';
-        this.jobs.set(jobKey, job);
-        this.scheduleNext(jobKey);
-      }
+  // Starts the oldest queued job of a lane once nothing else is running there.
+  private startNextInLane(accountId: string, platform: JobPlatform) {
+    if (this.getActiveJob(accountId, platform)) return;
+    const nextJob = this.getLaneJobs(accountId, platform).find(job => job.status === 'queued');
+    if (!nextJob) return;
+
+    nextJob.status = 'processing';
+    nextJob.startedAt = Date.now();
+    this.persist();
+    log(`Starting job ${nextJob.id} for ${this.getLaneKey(accountId, platform)}`, 'job-manager');
+    this.sendNext(nextJob.id);
+  }
+
+  private finishJob(job: Job, status: JobStatus) {
+    this.clearTimers(job.id);
+    job.status = status;
+    job.countdown = 0;
+    delete job.resumeAt;
+    delete job.waitingFor;
+    job.finishedAt = Date.now();
+    this.pruneHistory(job.accountId, job.platform);
+    this.persist();
+    this.startNextInLane(job.accountId, job.platform);
+  }
+
+  private pruneHistory(accountId: string, platform: JobPlatform) {
+    const finished = this.getLaneJobs(accountId, platform).filter(job => FINISHED_STATUSES.includes(job.status));
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS_PER_LANE))
+      .forEach(job => this.jobs.delete(job.id));
+  }
+
+  public stopJob(accountId: string, platform: JobPlatform = 'crm') {
+    const job = this.getActiveJob(accountId, platform);
+    if (job) this.finishJob(job, 'stopped');
+  }
+
+  // Stops a job by ID, whether it is running or still waiting in the queue.
+  public cancelJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || FINISHED_STATUSES.includes(job.status)) return false;
+    this.finishJob(job, 'stopped');
+    return true;
+  }
+
+  public pauseJob(accountId: string, platform: JobPlatform = 'crm') {
+    const job = this.getActiveJob(accountId, platform);
+    if (job && (job.status === 'processing' || job.resumeAt)) {
+      // A manual pause also stops waiting for the sending window
+      this.clearTimers(job.id);
+      job.status = 'paused';
+      delete job.resumeAt;
+      delete job.waitingFor;
+      this.persist();
     }
   }
 
+  public resumeJob(accountId: string, platform: JobPlatform = 'crm') {
+    const job = this.getActiveJob(accountId, platform);
+    if (job && job.status === 'paused') {
+      this.clearTimers(job.id);
+      delete job.resumeAt;
+      delete job.waitingFor;
+      job.status = 'processing';
+      this.persist();
+      this.scheduleNext(job.id);
+    }
+  }
+
+  // After an account's quotas change, jobs waiting on them check again right away
+  public quotasChanged(accountId: string) {
+    this.jobs.forEach((job: Job) => {
+      if (job.accountId === String(accountId) && job.status === 'paused' && job.waitingFor === 'quota') {
+        this.waitUntil(job, Date.now(), 'quota');
+      }
+    });
+  }
+
+  public getJob(jobId: string): Job | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  // Job history for one account, newest first, without the per-email results.
+  public getAccountJobs(accountId: string, platform?: JobPlatform) {
+    return Array.from(this.jobs.values())
+      .filter(job => job.accountId === String(accountId) && (!platform || job.platform === platform))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(job => this.summarizeJob(job));
+  }
+
+  private summarizeJob(job: Job) {
+    const successCount = job.results.filter(result =>
+      result.contactStatus === 'Success' &&
+      result.emailStatus !== 'Failed' &&
+      !BAD_LIVE_STATUSES.includes(result.liveStatus)
+    ).length;
+
+    return {
+      id: job.id,
+      accountId: job.accountId,
+      platform: job.platform,
+      status: job.status,
+      processed: job.currentIndex,
+      total: job.totalEmails,
+      successCount,
+      failCount: job.results.length - successCount,
+      error: job.error,
+      subject: job.formData?.subject,
+      schedule: job.schedule,
+      scheduledFor: job.schedule ? scheduledStartTime(job.schedule) : undefined,
+      resumeAt: job.resumeAt,
+      waitingFor: job.waitingFor,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt
+    };
+  }
+
+  // Jobs with a schedule that have not finished, across accounts, soonest first
+  public getScheduledJobs() {
+    return Array.from(this.jobs.values())
+      .filter(job => job.schedule && !FINISHED_STATUSES.includes(job.status))
+      .map(job => this.summarizeJob(job))
+      .sort((a, b) => (a.scheduledFor ?? a.createdAt) - (b.scheduledFor ?? b.createdAt));
+  }
+
+  // Current job per lane (running, else next queued, else the latest finished),
+  // keyed `${platform}-${accountId}` as the bulk pages expect.
   public getStatus() {
+    const lanes = new Map<string, Job[]>();
+    this.jobs.forEach(job => {
+      const laneKey = this.getLaneKey(job.accountId, job.platform);
+      lanes.set(laneKey, [...(lanes.get(laneKey) || []), job]);
+    });
+
     const statusReport: any = {};
-    this.jobs.forEach((job, key) => {
+    lanes.forEach((laneJobs, key) => {
+      laneJobs.sort((a, b) => a.createdAt - b.createdAt);
+      const queued = laneJobs.filter(job => job.status === 'queued');
+      const job = laneJobs.find(j => ACTIVE_STATUSES.includes(j.status))
+        || queued[0]
+        || laneJobs[laneJobs.length - 1];
+
       statusReport[key] = {
+        jobId: job.id,
+        accountId: job.accountId,
         status: job.status,
         processed: job.currentIndex,
         total: job.totalEmails,
         results: job.results,
         error: job.error,
         countdown: job.countdown,
-        platform: job.platform
+        platform: job.platform,
+        resumeAt: job.resumeAt,
+        waitingFor: job.waitingFor,
+        queued: queued.filter(j => j.id !== job.id).length,
+        scheduled: laneJobs.filter(j => j.status === 'scheduled').length
       };
     });
     return statusReport;
   }
   
-  private clearTimers(jobKey: string) {
-    if (this.timers.has(jobKey)) {
-      clearTimeout(this.timers.get(jobKey)!);
-      this.timers.delete(jobKey);
+  private clearTimers(jobId: string) {
+    if (this.timers.has(jobId)) {
+      clearTimeout(this.timers.get(jobId)!);
+      this.timers.delete(jobId);
     }
-    if (this.countdownIntervals.has(jobKey)) {
-      clearInterval(this.countdownIntervals.get(jobKey)!);
-      this.countdownIntervals.delete(jobKey);
+    if (this.countdownIntervals.has(jobId)) {
+      clearInterval(this.countdownIntervals.get(jobId)!);
+      this.countdownIntervals.delete(jobId);
     }
   }
 
-  private scheduleNext(jobKey: string) {
-    const job = this.jobs.get(jobKey);
-    if (!job || job.status !== 'processing') return;
+  private scheduleNext(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'processing' || this.sending.has(jobId)) return;
+    // Only one pending send per job, or a contact could be sent to twice
+    this.clearTimers(jobId);
 
     if (job.currentIndex >= job.totalEmails) {
-      job.status = 'completed';
-      this.jobs.set(jobKey, job);
-      this.clearTimers(jobKey);
+      this.finishJob(job, 'completed');
       return;
     }
 
     job.countdown = job.delay;
-    this.countdownIntervals.set(jobKey, setInterval(() => {
-        const currentJob = this.jobs.get(jobKey);
+    this.countdownIntervals.set(jobId, setInterval(() => {
+        const currentJob = this.jobs.get(jobId);
         if (currentJob && currentJob.countdown > 0) {
             currentJob.countdown--;
-            this.jobs.set(jobKey, currentJob);
         }
     }, 1000));
 
     const timer = setTimeout(() => {
-        this.clearTimers(jobKey);
-        this.processEmail(jobKey);
+        this.clearTimers(jobId);
+        this.sendNext(jobId);
     }, job.delay * 1000);
-    this.timers.set(jobKey, timer);
+    this.timers.set(jobId, timer);
   }
 
-  private async processEmail(jobKey: string) {
-    const job = this.jobs.get(jobKey);
-    if (!job || job.status !== 'processing') return;
+  // `reservation` is the quota slot sendNext claimed for this email
+  private async processEmail(jobId: string, reservation?: SendReservation) {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'processing' || this.sending.has(jobId)) {
+      if (reservation) sendQuotas.release(reservation);
+      return;
+    }
+    this.sending.add(jobId);
 
     const email = job.emails[job.currentIndex];
+    const row = job.rows?.[job.currentIndex];
     const { formData, accountId } = job;
-    
-    // --- SMART URL SELECTION ---
-    const apiBase = job.platform === 'bigin' 
-        ? 'https://www.zohoapis.com/bigin/v2' 
-        : 'https://www.zohoapis.com/crm/v2';
+    const recipientName = row ? [row.First_Name, row.Last_Name].filter(Boolean).join(' ') : formData.lastName;
+    const mergeValues = recipientMergeValues({
+      email,
+      lastName: row ? undefined : formData.lastName,
+      customFields: formData.customFields,
+      row,
+      cells: job.cells?.[job.currentIndex],
+    });
 
     let contactStatus: 'Success' | 'Failed' = 'Failed';
     let emailStatus: 'Success' | 'Failed' | 'Skipped' = 'Skipped';
@@ -203,16 +470,21 @@ class JobManager {
       const account = await storage.getAccount(parseInt(accountId));
       if (!account) throw new Error(`Account ${accountId} not found.`);
       
-      const accessToken = await getAccessToken(account);
+      // --- SMART PRODUCT SELECTION ---
+      const zoho = zohoClient.api(account, job.platform);
+      // Fail fast on bad credentials rather than recording it per contact.
+      await zohoClient.getAccessToken(account);
       const fromAddress = formData.fromAddresses?.find((addr:any) => addr.email === formData.fromEmail);
       if (formData.sendEmail && !fromAddress) throw new Error("From address not found");
 
       // 1. Create Contact
       try {
-        const contactData = { data: [{ Last_Name: formData.lastName, Email: email, ...formData.customFields }] };
-        const contactResponse = await axios.post(`${apiBase}/Contacts`, contactData, {
-          headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-        });
+        // Imported rows carry their own fields; the form's custom fields fill in what a row leaves empty
+        const record = row
+          ? { ...formData.customFields, ...row }
+          : { Last_Name: formData.lastName, Email: email, ...formData.customFields };
+        const contactData = { data: [record] };
+        const contactResponse = await zoho.post('/Contacts', contactData);
         contactResponsePayload = contactResponse.data;
 
         if (contactResponse.data.data[0].status === 'success' || contactResponse.data.data[0].code === 'DUPLICATE_DATA') {
@@ -226,9 +498,31 @@ class JobManager {
       // 2. Send Email
       if (contactId && formData.sendEmail) {
         try {
-            const emailData = { data: [{ from: { user_name: fromAddress.user_name, email: fromAddress.email }, to: [{ user_name: formData.lastName, email }], subject: formData.subject, content: formData.content, mail_format: "html" }] };
-            const emailResponse = await axios.post(`${apiBase}/Contacts/${contactId}/actions/send_mail`, emailData, {
-              headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}`, 'Content-Type': 'application/json' }
+            let message: Record<string, any>;
+            if (formData.templateId) {
+              // The template supplies the subject and content, and the send counts in its statistics
+              message = { template: { id: formData.templateId } };
+            } else {
+              // Tags the job has no value for (Account_Name, Owner, ...) come from the saved contact
+              const tags = parseMergeTags(formData.subject, formData.content);
+              if (tags.some(tag => !hasMergeValue(mergeValues, tag.name))) {
+                const contactRecord = (await zoho.get(`/Contacts/${contactId}`)).data?.data?.[0] || {};
+                tags.filter(tag => !hasMergeValue(mergeValues, tag.name))
+                  .forEach(tag => { mergeValues[tag.name] = contactRecord[tag.name]; });
+              }
+              const unresolved = tags.filter(tag => tag.fallback === undefined && !hasMergeValue(mergeValues, tag.name));
+              if (unresolved.length > 0) {
+                throw new Error(`No value for ${unresolved.map(tag => `{{${tag.name}}}`).join(', ')}; the email was not sent.`);
+              }
+              message = {
+                subject: renderMergeTags(formData.subject, mergeValues),
+                content: renderMergeTags(formData.content, mergeValues, { html: true }),
+              };
+            }
+
+            const emailData = { data: [{ from: { user_name: fromAddress.user_name, email: fromAddress.email }, to: [{ user_name: recipientName, email }], ...message, mail_format: "html" }] };
+            const emailResponse = await zoho.post(`/Contacts/${contactId}/actions/send_mail`, emailData, {
+              headers: { 'Content-Type': 'application/json' }
             });
             emailResponsePayload = emailResponse.data;
             emailStatus = (emailResponse.data.data[0].status === 'success') ? 'Success' : 'Failed';
@@ -242,10 +536,10 @@ class JobManager {
       }
 
     } catch (criticalError: any) {
-      log(`Error in job ${jobKey}: ${criticalError.message}`, 'job-manager-error');
-      job.status = 'failed';
+      log(`Error in job ${jobId}: ${criticalError.message}`, 'job-manager-error');
       job.error = criticalError.message;
     } finally {
+      if (reservation && emailStatus !== 'Success') sendQuotas.release(reservation);
       const initialLiveStatus = formData.checkStatus ? 'Pending' : 'Skipped';
       const resultItem: any = { 
           email, contactStatus, emailStatus, liveStatus: initialLiveStatus,
@@ -256,32 +550,24 @@ class JobManager {
       
       // --- LIVE CHECK ---
       if (formData.checkStatus && contactId) {
-          const checkApiBase = apiBase; 
+          const platform = job.platform;
           (async (idToMonitor, itemToUpdate) => {
             try {
               await new Promise(resolve => setTimeout(resolve, (formData.checkDelay || 10) * 1000));
               const account = await storage.getAccount(parseInt(accountId));
               if (!account) return;
-              const token = await getAccessToken(account);
 
-              const response = await axios.get(`${checkApiBase}/Contacts/${idToMonitor}/Emails`, {
-                headers: { 'Authorization': `Zoho-oauthtoken ${token}` }
-              });
+              const response = await zohoClient.api(account, platform).get(`/Contacts/${idToMonitor}/Emails`);
               
               itemToUpdate.response.live = response.data;
               
-              // --- BIGIN FIX: Look for 'Emails', 'email_related_list', or 'data' ---
-              const emails = response.data.Emails || response.data.email_related_list || response.data.data;
+              const emails = extractEmails(response.data);
               
-              if (emails && emails.length > 0) {
-                const latest = emails[0];
-                let type = 'Unknown';
-                // Check if status is array (Bigin) or string
-                if (Array.isArray(latest.status) && latest.status.length > 0) type = latest.status[0].type;
-                else if (typeof latest.status === 'string') type = latest.status;
-
-                if (type.toLowerCase() === 'sent') itemToUpdate.liveStatus = "Sent";
-                else if (type.toLowerCase() === 'bounced') itemToUpdate.liveStatus = "Bounced";
+              if (emails.length > 0) {
+                const type = normalizeEmailStatuses(emails[0])[0]?.type || 'Unknown';
+
+                if (type === 'sent') itemToUpdate.liveStatus = "Sent";
+                else if (type === 'bounced') itemToUpdate.liveStatus = "Bounced";
                 else itemToUpdate.liveStatus = type;
               } else {
                  itemToUpdate.liveStatus = "Not Found";
@@ -290,12 +576,18 @@ class JobManager {
               itemToUpdate.liveStatus = "Failed Check";
               itemToUpdate.response.live = { error: err.message };
             }
+            this.persist();
           })(contactId, resultItem);
       }
 
+      this.sending.delete(jobId);
       job.currentIndex++;
-      this.jobs.set(jobKey, job);
-      this.scheduleNext(jobKey);
+      if (job.error && job.status === 'processing') {
+        this.finishJob(job, 'failed');
+      } else {
+        this.persist();
+        this.scheduleNext(jobId);
+      }
     }
   }
 }
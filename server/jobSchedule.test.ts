@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isInSendingWindow, nextSendingTime, parseJobSchedule, scheduledStartTime, zonedTimeToEpoch, type JobSchedule } from "@shared/jobSchedule";
+
+const at = (iso: string) => Date.parse(iso);
+const SUNDAY = 0, MONDAY = 1, WEEKDAYS = [1, 2, 3, 4, 5];
+
+// Europe/Berlin: clocks go from 02:00 to 03:00 on Sunday 29 March 2026 and from
+// 03:00 back to 02:00 on Sunday 25 October 2026.
+const berlin = (windows: JobSchedule['windows']): JobSchedule => ({ timeZone: 'Europe/Berlin', windows });
+
+test('finds the next window across a spring-forward day', () => {
+  const schedule = berlin([{ days: [SUNDAY], start: '09:00', end: '17:00' }, { days: [MONDAY], start: '08:00', end: '09:00' }]);
+  // Saturday 23:30 CET: the Sunday window is the next morning, not a week later
+  assert.equal(nextSendingTime(schedule, at('2026-03-28T22:30:00Z')), at('2026-03-29T07:00:00Z'));
+  assert.equal(isInSendingWindow(schedule, at('2026-03-29T07:00:00Z')), true);
+  assert.equal(isInSendingWindow(schedule, at('2026-03-29T06:59:00Z')), false);
+  // Sunday 17:00 CEST: the Monday window, still in summer time
+  assert.equal(nextSendingTime(schedule, at('2026-03-29T15:00:00Z')), at('2026-03-30T06:00:00Z'));
+});
+
+test('opens a window that starts in the skipped hour when the clocks change', () => {
+  const schedule = berlin([{ days: [SUNDAY], start: '02:30', end: '04:00' }]);
+  assert.equal(nextSendingTime(schedule, at('2026-03-28T22:30:00Z')), at('2026-03-29T01:00:00Z'));
+});
+
+test('finds the next window across a fall-back day', () => {
+  const schedule = berlin([{ days: [SUNDAY], start: '09:00', end: '17:00' }, { days: [MONDAY], start: '08:00', end: '09:00' }]);
+  // Saturday 23:30 CEST
+  assert.equal(nextSendingTime(schedule, at('2026-10-24T21:30:00Z')), at('2026-10-25T08:00:00Z'));
+  // Sunday 17:00 CET
+  assert.equal(nextSendingTime(schedule, at('2026-10-25T16:00:00Z')), at('2026-10-26T07:00:00Z'));
+  assert.equal(isInSendingWindow(schedule, at('2026-10-25T15:59:00Z')), true);
+  assert.equal(isInSendingWindow(schedule, at('2026-10-25T16:00:00Z')), false);
+});
+
+test('sends in both passes of the repeated hour', () => {
+  const schedule = berlin([{ days: [SUNDAY], start: '02:00', end: '03:00' }]);
+  assert.equal(isInSendingWindow(schedule, at('2026-10-25T00:30:00Z')), true);
+  assert.equal(isInSendingWindow(schedule, at('2026-10-25T01:30:00Z')), true);
+  assert.equal(isInSendingWindow(schedule, at('2026-10-25T02:00:00Z')), false);
+});
+
+test('uses time zones with a 30-minute offset', () => {
+  // Asia/Kolkata is UTC+05:30 all year
+  const schedule: JobSchedule = { timeZone: 'Asia/Kolkata', windows: [{ days: WEEKDAYS, start: '09:00', end: '17:00' }] };
+  // Monday 08:59 IST
+  assert.equal(isInSendingWindow(schedule, at('2026-10-19T03:29:00Z')), false);
+  assert.equal(nextSendingTime(schedule, at('2026-10-19T03:29:00Z')), at('2026-10-19T03:30:00Z'));
+  // Monday 17:00 IST: Tuesday morning
+  assert.equal(nextSendingTime(schedule, at('2026-10-19T11:30:00Z')), at('2026-10-20T03:30:00Z'));
+  // Friday 17:00 IST: Monday morning
+  assert.equal(nextSendingTime(schedule, at('2026-10-23T11:30:00Z')), at('2026-10-26T03:30:00Z'));
+  assert.equal(zonedTimeToEpoch('2026-10-19T09:00', 'Asia/Kolkata'), at('2026-10-19T03:30:00Z'));
+});
+
+test('resolves start times in the account time zone', () => {
+  const now = at('2026-03-01T00:00:00Z');
+  const { schedule } = parseJobSchedule({ timeZone: 'Europe/Berlin', startAt: '2026-03-29T09:00' }, now);
+  assert.equal(scheduledStartTime(schedule!), at('2026-03-29T07:00:00Z'));
+  // A start time in the skipped hour starts just after the change
+  assert.equal(zonedTimeToEpoch('2026-03-29T02:30', 'Europe/Berlin'), at('2026-03-29T01:00:00Z'));
+  assert.equal(scheduledStartTime({ timeZone: 'Asia/Kolkata' }), undefined);
+
+  assert.equal(parseJobSchedule({ timeZone: 'Europe/Berlin', startAt: '2026-02-28T09:00' }, now).error, 'The start time is in the past.');
+  assert.equal(parseJobSchedule({ timeZone: 'Europe/Berlin', startAt: '2027-03-29T09:00' }, now).error, 'Schedule at most 365 days ahead.');
+  assert.equal(parseJobSchedule({ timeZone: 'Mars/Olympus', startAt: '2026-03-29T09:00' }, now).error, 'Choose a valid time zone.');
+});
@@ -0,0 +1,93 @@
+import { promises as fs, writeFileSync, renameSync } from "fs";
+import path from "path";
+import { log } from "./vite";
+
+const JOBS_FILE_PATH = path.join(process.cwd(), 'jobs.json');
+const SAVE_DEBOUNCE_MS = 500;
+
+// Persists the JobManager's job map to jobs.json (next to accounts.json), or
+// another background-job map to its own file.
+// Writes are coalesced so a busy job does not rewrite the file on every email.
+export class FileJobStore {
+  private static stores: FileJobStore[] = [];
+  private snapshot: (() => Record<string, any>) | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string = JOBS_FILE_PATH) {
+    // One shutdown handler flushes every store before exiting
+    if (FileJobStore.stores.length === 0) {
+      for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.once(signal, () => {
+          FileJobStore.stores.forEach(store => store.flushSync());
+          process.exit(0);
+        });
+      }
+    }
+    FileJobStore.stores.push(this);
+  }
+
+  async loadJobs(): Promise<Record<string, any>> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(data);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        log(`Error loading jobs: ${error.message}`, 'job-store-error');
+      }
+      return {};
+    }
+  }
+
+  // Schedules a write of the given jobs. The map is serialized when the write
+  // actually happens, so the latest state always wins.
+  saveJobs(jobs: Map<string, any>) {
+    this.snapshot = () => Object.fromEntries(jobs);
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.writing = this.writing.then(() => this.flush());
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  // Writes the given jobs right away, after any write in progress, and rejects when the
+  // write fails: for callers that must not go on unless the data is on disk.
+  saveJobsNow(jobs: Map<string, any>): Promise<void> {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    // This write covers any save still waiting
+    this.snapshot = null;
+    const write = this.writing.then(() => this.writeFile(JSON.stringify(Object.fromEntries(jobs))));
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  private async flush() {
+    if (!this.snapshot) return;
+    const data = JSON.stringify(this.snapshot());
+    this.snapshot = null;
+
+    try {
+      await this.writeFile(data);
+    } catch (error: any) {
+      log(`Error saving jobs: ${error.message}`, 'job-store-error');
+    }
+  }
+
+  private async writeFile(data: string) {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, data, 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  private flushSync() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    if (!this.snapshot) return;
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(this.snapshot()), 'utf8');
+    renameSync(tmpPath, this.filePath);
+  }
+}
+
+export const jobStore = new FileJobStore();
@@ -0,0 +1,43 @@
+import { randomBytes } from "crypto";
+import type { ZohoDataCenter } from "@shared/zohoDataCenters";
+
+// Zoho authorizations started from the Account Manager, waiting for the OAuth callback.
+// Only a random nonce travels through Zoho and the browser as `state`; the client
+// credentials stay in server memory until the callback consumes them.
+
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+export interface PendingAuthorization {
+  userId: string;
+  // Set when re-authorizing an existing account; otherwise the callback creates one
+  accountId?: number;
+  name: string;
+  client_id: string;
+  client_secret: string;
+  data_center: ZohoDataCenter;
+  expiresAt: number;
+}
+
+const pending = new Map<string, PendingAuthorization>();
+
+function removeExpired(now: number) {
+  pending.forEach((entry, nonce) => {
+    if (entry.expiresAt <= now) pending.delete(nonce);
+  });
+}
+
+export function createPendingAuthorization(data: Omit<PendingAuthorization, 'expiresAt'>): string {
+  const now = Date.now();
+  removeExpired(now);
+  const nonce = randomBytes(32).toString('base64url');
+  pending.set(nonce, { ...data, expiresAt: now + PENDING_TTL_MS });
+  return nonce;
+}
+
+// Single use: the entry is removed whether or not it is still valid.
+export function consumePendingAuthorization(nonce: string, userId: string): PendingAuthorization | undefined {
+  const entry = pending.get(nonce);
+  pending.delete(nonce);
+  if (!entry || entry.expiresAt <= Date.now() || entry.userId !== userId) return undefined;
+  return entry;
+}
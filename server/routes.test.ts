@@ -0,0 +1,73 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// The API routes with file storage in a temporary directory, as an admin. Only checks
+// that fail before any Zoho call are covered here.
+
+let dataDir: string;
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+
+before(async () => {
+  // Every store resolves its file from the working directory when it is imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'routes-test-'));
+  process.chdir(dataDir);
+  delete process.env.DATABASE_URL;
+  process.env.ACCOUNTS_MASTER_KEY = randomBytes(32).toString('base64');
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD = 'password';
+
+  const { default: express } = await import("express");
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const login = await fetch(`${baseUrl}/api/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: 'admin', password: 'password' }),
+  });
+  assert.equal(login.status, 200);
+  cookie = login.headers.get('set-cookie')!.split(';')[0];
+});
+
+after(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const startJob = (body: unknown) => fetch(`${baseUrl}/api/jobs/start/1`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', Cookie: cookie },
+  body: JSON.stringify(body),
+});
+
+test('rejects a job start with a malformed import', async () => {
+  const valid = { columns: ['Email', 'Last Name'], rows: [['a@example.com', 'A']], mapping: { Email: 'Email', 'Last Name': 'Last_Name' } };
+  const malformed = [
+    { rows: valid.rows, mapping: valid.mapping },
+    { columns: valid.columns, mapping: valid.mapping },
+    { columns: valid.columns, rows: valid.rows },
+    { ...valid, rows: [['a@example.com', 42]] },
+    { ...valid, rows: [['a@example.com', null]] },
+    { ...valid, rows: ['a@example.com,A'] },
+    { ...valid, columns: 'Email,Last Name' },
+    { ...valid, mapping: ['Email', 'Last_Name'] },
+    { ...valid, mapping: { Email: 1 } },
+  ];
+  for (const contactImport of malformed) {
+    const response = await startJob({ delay: 0, import: contactImport });
+    assert.equal(response.status, 400, JSON.stringify(contactImport));
+    assert.match((await response.json()).error, /^import must have/);
+  }
+});
@@ -1,14 +1,39 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import axios from "axios";
 import { log } from "./vite";
-import jobManager from "./jobManager";
+import jobManager, { type JobPlatform } from "./jobManager";
+import zohoClient, { ZohoScopeError, requireScope, type ZohoCredentials, type ZohoProduct } from "./zohoClient";
+import fieldMetadata from "./fieldMetadata";
+import { searchContacts } from "./contacts";
+import statsJobManager from "./statsJobManager";
+import deleteJobManager, { DeleteCriteriaError } from "./deleteJobManager";
+import contactArchive from "./contactArchive";
+import templateLibrary, { TemplateVersionConflictError } from "./templateLibrary";
+import sendQuotas from "./sendQuotas";
+import { prepareFieldValues } from "@shared/zohoFieldValues";
+import { mapImportRows, importedCells, isContactImportData } from "@shared/contactImport";
+import { parseMergeTags, recipientMergeValues, checkMergeTags } from "@shared/mergeTags";
+import {
+  CONTACT_SORT_FIELDS,
+  MAX_CONTACT_PAGE_SIZE,
+  MAX_CONTACT_SEARCH_OFFSET,
+  DEFAULT_CONTACT_PAGE_SIZE,
+  type ContactSearchParams,
+  type ContactSortKey,
+} from "@shared/contactSearch";
+import type { ContactDeleteCriteria } from "@shared/contactDelete";
+import { parseLibraryTemplateInput } from "@shared/templateLibrary";
+import { parseSendQuotaSettings, type SendQuotaLimits } from "@shared/sendQuotas";
+import { parseJobSchedule, describeSendingWindow, type JobSchedule } from "@shared/jobSchedule";
+import { setupAuth, requireRole, canAccessAccount, getAccessibleAccountIds, hashPassword, toPublicUser } from "./auth";
+import { recordAudit } from "./audit";
+import { decryptSecret } from "./secrets";
+import { createPendingAuthorization, consumePendingAuthorization } from "./oauthStates";
 import { randomUUID } from "crypto";
-
-const ZOHO_ACCOUNTS_URL = 'https://accounts.zoho.com';
-const accessTokenCache: Record<string, { token: string; expires_at: number }> = {};
-const tokenRefreshLocks: Record<string, Promise<string>> = {};
+import { REDACTED_SECRET, USER_ROLES, AUDIT_ACTIONS, type Account, type AuditAction } from "@shared/schema";
+import { ZOHO_DATA_CENTERS, DEFAULT_DATA_CENTER, detectDataCenter, getDataCenter, isZohoDataCenter, type ZohoDataCenter } from "@shared/zohoDataCenters";
 
 // --- SCOPES ORGANIZATION ---
 const CRM_SCOPES = [
@@ -20,7 +45,13 @@ const CRM_SCOPES = [
   'ZohoCRM.templates.email.READ',
   'ZohoCRM.settings.fields.READ',
   'ZohoCRM.settings.automation_actions.ALL',
-  'ZohoCRM.settings.workflow_rules.ALL'
+  'ZohoCRM.settings.workflow_rules.ALL',
+  // Contact search and delete-by-filter; accounts authorized earlier must re-authorize
+  'ZohoCRM.coql.READ',
+  // Bulk Read exports of orgs with more than 10,000 contacts
+  'ZohoCRM.bulk.read',
+  // The organization's time zone for scheduled jobs
+  'ZohoCRM.org.READ'
 ].join(',');
 
 const BIGIN_SCOPES = [
@@ -33,6 +64,105 @@ const BIGIN_SCOPES = [
 
 const COMBINED_SCOPES = `${CRM_SCOPES},${BIGIN_SCOPES}`;
 
+// Credentials never leave the server; the client only learns whether they are set.
+const redactAccount = (account: Account) => ({
+  ...account,
+  client_secret: account.client_secret ? REDACTED_SECRET : '',
+  refresh_token: account.refresh_token ? REDACTED_SECRET : '',
+});
+
+// Form submissions echo the placeholder (or leave the field empty) for secrets the user did not change.
+const withoutUnchangedSecrets = (data: Record<string, any>) => {
+  const result = { ...data };
+  for (const field of ['client_secret', 'refresh_token']) {
+    if (!result[field] || result[field] === REDACTED_SECRET) delete result[field];
+  }
+  return result;
+};
+
+// Zoho module API names: letters, digits and underscores (custom modules end in e.g. "__s").
+const MODULE_NAME_PATTERN = /^\w+$/;
+
+// Record name field per module for lookup search results; other modules fall back to Name.
+const LOOKUP_NAME_FIELDS: Record<string, string> = {
+  Accounts: 'Account_Name',
+  Contacts: 'Full_Name',
+  Leads: 'Full_Name',
+  Deals: 'Deal_Name',
+  Pipelines: 'Deal_Name',
+  Products: 'Product_Name',
+  Vendors: 'Vendor_Name',
+  Campaigns: 'Campaign_Name',
+  Price_Books: 'Price_Book_Name',
+  Cases: 'Subject',
+  Quotes: 'Subject',
+  Sales_Orders: 'Subject',
+  Purchase_Orders: 'Subject',
+  Invoices: 'Subject',
+};
+const LOOKUP_RESULT_LIMIT = 10;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Row errors returned when an import or its merge tags are rejected; the rest are only counted
+const MAX_REPORTED_ROW_ERRORS = 50;
+
+// Reads the Contact Manager's search parameters; returns an error message for anything invalid.
+function parseContactSearch(query: Record<string, any>): { params?: ContactSearchParams; error?: string } {
+  const text = (name: string) => typeof query[name] === 'string' ? query[name].trim() : '';
+  const params: ContactSearchParams = {};
+
+  if (text('query')) {
+    if (text('query').length > 100) return { error: 'Search text must be at most 100 characters.' };
+    params.query = text('query');
+  }
+  if (text('owner')) {
+    if (!/^\d+$/.test(text('owner'))) return { error: 'Invalid owner.' };
+    params.owner = text('owner');
+  }
+  for (const name of ['created_from', 'created_to'] as const) {
+    if (!text(name)) continue;
+    if (!DATE_PATTERN.test(text(name)) || isNaN(Date.parse(text(name)))) return { error: `${name} must be a date (YYYY-MM-DD).` };
+    params[name] = text(name);
+  }
+  if (text('sort')) {
+    if (!Object.prototype.hasOwnProperty.call(CONTACT_SORT_FIELDS, text('sort'))) return { error: `Unknown sort column: ${text('sort')}` };
+    params.sort = text('sort') as ContactSortKey;
+  }
+  if (text('direction')) {
+    if (text('direction') !== 'asc' && text('direction') !== 'desc') return { error: 'direction must be asc or desc.' };
+    params.direction = text('direction') as 'asc' | 'desc';
+  }
+
+  params.page = text('page') ? parseInt(text('page'), 10) : 1;
+  params.per_page = text('per_page') ? parseInt(text('per_page'), 10) : DEFAULT_CONTACT_PAGE_SIZE;
+  if (!(params.page >= 1)) return { error: 'page must be a positive number.' };
+  if (!(params.per_page >= 1 && params.per_page <= MAX_CONTACT_PAGE_SIZE)) {
+    return { error: `per_page must be between 1 and ${MAX_CONTACT_PAGE_SIZE}.` };
+  }
+  if ((params.page - 1) * params.per_page >= MAX_CONTACT_SEARCH_OFFSET) {
+    return { error: `Zoho only pages through the first ${MAX_CONTACT_SEARCH_OFFSET} results; narrow the search.` };
+  }
+  return { params };
+}
+
+// Delete-by-filter criteria from a request body: the search filters plus email_bounced and job_id.
+function parseDeleteCriteria(body: any): { criteria?: ContactDeleteCriteria; error?: string } {
+  const { params, error } = parseContactSearch({
+    query: body?.query, owner: body?.owner, created_from: body?.created_from, created_to: body?.created_to,
+  });
+  if (!params) return { error };
+
+  const criteria: ContactDeleteCriteria = {
+    query: params.query, owner: params.owner, created_from: params.created_from, created_to: params.created_to,
+  };
+  if (body?.email_bounced === true) criteria.email_bounced = true;
+  if (body?.job_id !== undefined && body?.job_id !== '') {
+    if (typeof body.job_id !== 'string') return { error: 'Invalid job_id.' };
+    criteria.job_id = body.job_id;
+  }
+  return { criteria };
+}
+
 // Helper function to generate a simple HTML page for the OAuth callback
 const generateCallbackHTML = (title: string, content: string) => `
   <!DOCTYPE html>
@@ -44,7 +174,6 @@ const generateCallbackHTML = (title: string, content: string) => `
     <script src="https://cdn.tailwindcss.com"></script>
     <style>
       body { font-family: 'Inter', sans-serif; }
-      .copy-btn:active { transform: scale(0.95); }
     </style>
   </head>
   <body class="bg-gray-100 flex items-center justify-center min-h-screen">
@@ -55,52 +184,8 @@ const generateCallbackHTML = (title: string, content: string) => `
   </html>
 `;
 
-async function getAccessToken(account: any): Promise<string> {
-  const { refresh_token, client_id, client_secret, id } = account;
-  
-  const cachedToken = accessTokenCache[id];
-  if (cachedToken && cachedToken.expires_at > Date.now()) {
-    return cachedToken.token;
-  }
-
-  if (tokenRefreshLocks[id]) {
-    return await tokenRefreshLocks[id];
-  }
-
-  const refreshPromise = (async () => {
-    try {
-      log(`[Auth Debug] Refreshing token for account ${id}...`, 'auth');
-      const response = await axios.post(`${ZOHO_ACCOUNTS_URL}/oauth/v2/token`, null, {
-        params: { refresh_token, client_id, client_secret, grant_type: 'refresh_token' }
-      });
-      const newAccessToken = response.data.access_token;
-      
-      if (!newAccessToken) {
-          throw new Error(response.data.error || 'No access token returned');
-      }
-
-      const expiresInMs = response.data.expires_in * 1000;
-      accessTokenCache[id] = {
-        token: newAccessToken,
-        expires_at: Date.now() + expiresInMs - 60000
-      };
-      log(`[Auth Debug] Token refreshed successfully for account ${id}`, 'auth');
-      return newAccessToken;
-    } catch (error: any) {
-      const errMsg = error.response?.data?.error || error.message;
-      log(`[Auth Debug] Failed to get access token for account ${id}: ${errMsg}`, 'auth-error');
-      throw new Error(`Token Refresh Failed: ${errMsg}`);
-    } finally {
-      delete tokenRefreshLocks[id];
-    }
-  })();
-
-  tokenRefreshLocks[id] = refreshPromise;
-  return await refreshPromise;
-}
-
 // --- HELPER: DETECT CAPABILITIES ---
-async function detectAccountCapabilities(accessToken: string) {
+async function detectAccountCapabilities(account: ZohoCredentials) {
     let supportsCrm = false;
     let supportsBigin = false;
 
@@ -109,9 +194,7 @@ async function detectAccountCapabilities(accessToken: string) {
     // 1. Check CRM Support
     try {
         log('[Auth Debug] Checking Zoho CRM support (v8/settings/fields)...', 'auth');
-        await axios.get('https://www.zohoapis.com/crm/v8/settings/fields?module=Contacts', {
-            headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-        });
+        await zohoClient.api(account, 'crm', 'v8').get('/settings/fields', { params: { module: 'Contacts' } });
         supportsCrm = true;
         log('[Auth Debug] ✅ Zoho CRM is SUPPORTED.', 'auth');
     } catch (e: any) {
@@ -123,9 +206,7 @@ async function detectAccountCapabilities(accessToken: string) {
     // 2. Check Bigin Support
     try {
         log('[Auth Debug] Checking Zoho Bigin support (v1/settings/fields)...', 'auth');
-        await axios.get('https://www.zohoapis.com/bigin/v1/settings/fields?module=Contacts', {
-            headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-        });
+        await zohoClient.api(account, 'bigin', 'v1').get('/settings/fields', { params: { module: 'Contacts' } });
         supportsBigin = true;
         log('[Auth Debug] ✅ Zoho Bigin is SUPPORTED.', 'auth');
     } catch (e: any) {
@@ -137,136 +218,191 @@ async function detectAccountCapabilities(accessToken: string) {
     return { supportsCrm, supportsBigin };
 }
 
-async function fetchAllContacts(accessToken: string) {
-    const contactsMap = new Map();
-    let page = 1;
-    let moreRecords = true;
+export async function registerRoutes(app: Express): Promise<Server> {
+  app.use('/api', (req, res, next) => {
+    res.setHeader('Cache-Control', 'no-store');
+    next();
+  });
 
-    while (moreRecords && page < 100) { 
-        try {
-            const response = await axios.get('https://www.zohoapis.com/crm/v2/Contacts', {
-                params: { page: page, per_page: 200 },
-                headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-            });
+  await setupAuth(app);
 
-            if (response.data && response.data.data) {
-                response.data.data.forEach((contact: any) => {
-                    contactsMap.set(contact.id, contact);
-                });
-            }
-            
-            moreRecords = (response.data.info && response.data.info.more_records) || false;
-            page++;
-        } catch (error) {
-            console.error("Error fetching page " + page, error);
-            moreRecords = false; 
-        }
+  // Every route with an :accountId (or /api/accounts/:id) param only works for
+  // users assigned to that account. Keep :id reserved for account ids.
+  const checkAccountAccess = async (req: Request, res: Response, next: NextFunction, value: string) => {
+    try {
+      if (await canAccessAccount(req.user, parseInt(value))) return next();
+      res.status(404).json({ error: 'Account not found.' });
+    } catch (error) {
+      next(error);
     }
-    return Array.from(contactsMap.values());
-}
+  };
+  app.param('accountId', checkAccountAccess);
+  app.param('id', checkAccountAccess);
+
+  // Shared by the CRM and Bigin field routes: ?module= (default Contacts), ?refresh=true skips the cache.
+  const sendFieldMetadata = async (req: Request, res: Response, product: ZohoProduct) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const module = (req.query.module as string | undefined) || 'Contacts';
+      if (!MODULE_NAME_PATTERN.test(module)) return res.status(400).json({ error: 'Invalid module name.' });
+
+      const account = await storage.getAccount(accountId);
+      if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-async function fetchAllContactStats(accessToken: string, allContacts: any[]) {
-    const BATCH_SIZE = 10;
-    const DELAY_MS = 50;
-    const allResults = [];
-    const totalContacts = allContacts.length;
-    const totalBatches = Math.ceil(totalContacts / BATCH_SIZE);
+      res.json(await fieldMetadata.getFields(account, product, module, req.query.refresh === 'true'));
+    } catch (error: any) {
+      log(`Failed to fetch ${product} fields: ${error.message}`, 'api-error');
+      res.status(500).json({
+        error: 'Failed to fetch fields',
+        details: error.response ? error.response.data : error.message
+      });
+    }
+  };
 
-    log(`[Stats] Starting bulk fetch for ${totalContacts} contacts. (Total Batches: ${totalBatches})`, 'stats-job');
+  // Record search for lookup fields: ?module= is the lookup's target module, ?q= the search text.
+  const sendLookupResults = async (req: Request, res: Response, product: ZohoProduct) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const module = req.query.module as string | undefined;
+      const query = ((req.query.q as string | undefined) || '').trim();
+      if (!module || !MODULE_NAME_PATTERN.test(module)) return res.status(400).json({ error: 'Invalid module name.' });
 
-    for (let i = 0; i < totalContacts; i += BATCH_SIZE) {
-        const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-        const batch = allContacts.slice(i, i + BATCH_SIZE);
-        
-        log(`[Stats] Processing Batch ${batchNum}/${totalBatches} (${batch.length} contacts)...`, 'stats-job');
-        
-        let batchSuccess = 0;
-        let batchFail = 0;
-
-        const batchPromises = batch.map(async (contact) => {
-            try {
-                const statsResponse = await axios.get(`https://www.zohoapis.com/crm/v2/Contacts/${contact.id}/Emails`, {
-                    headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` },
-                    timeout: 10000 
-                });
-                
-                batchSuccess++;
-                return {
-                    contact_id: contact.id,
-                    Full_Name: contact.Full_Name,
-                    Email: contact.Email,
-                    Owner: contact.Owner,
-                    emails: statsResponse.data.email_related_list || []
-                };
-            } catch (error: any) {
-                batchFail++;
-                const errorMsg = error.code === 'ECONNABORTED' ? 'Timeout (10s)' : error.message;
-                log(`[Stats] [Error] Contact: ${contact.Email} | ID: ${contact.id} | Reason: ${errorMsg}`, 'stats-error');
-                
-                return {
-                    contact_id: contact.id,
-                    Full_Name: contact.Full_Name,
-                    Email: contact.Email,
-                    Owner: contact.Owner,
-                    emails: [] 
-                };
-            }
-        });
+      const account = await storage.getAccount(accountId);
+      if (!account) return res.status(404).json({ error: 'Account not found.' });
+      // Zoho's word search needs at least two characters
+      if (query.length < 2) return res.json({ records: [] });
 
-        const batchResults = await Promise.all(batchPromises);
-        allResults.push(...batchResults);
+      const response = await zohoClient.api(account, product).get(`/${module}/search`, {
+        params: { word: query, per_page: LOOKUP_RESULT_LIMIT }
+      });
+      // Zoho answers 204 with no body when nothing matches
+      const records = (response.data?.data || []).map((record: any) => ({
+        id: String(record.id),
+        name: record[LOOKUP_NAME_FIELDS[module]] ?? record.Name ?? record.Full_Name ?? String(record.id),
+      }));
+      res.json({ records });
+    } catch (error: any) {
+      log(`Failed to search ${product} ${req.query.module}: ${error.message}`, 'api-error');
+      res.status(500).json({
+        error: 'Failed to search records',
+        details: error.response ? error.response.data : error.message
+      });
+    }
+  };
 
-        log(`[Stats] Batch ${batchNum} complete. Success: ${batchSuccess}, Failed: ${batchFail}`, 'stats-job');
+  // Email statistics come from a background crawl (see statsJobManager). The GET returns the
+  // last finished snapshot plus the current run, and starts the first run when there is neither.
+  const sendContactStats = async (req: Request, res: Response, product: ZohoProduct) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const account = await storage.getAccount(accountId);
+      if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-        if (i + BATCH_SIZE < totalContacts) {
-            await new Promise(resolve => setTimeout(resolve, DELAY_MS));
-        }
+      const stats = statsJobManager.getStats(accountId, product);
+      if (!stats.refreshed_at && !stats.job) {
+        stats.job = statsJobManager.startJob(accountId, product);
+      }
+      res.json(stats);
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to fetch contact stats', details: error.message });
     }
-    
-    log(`[Stats] Finished fetching stats. Total processed: ${allResults.length}`, 'stats-job');
-    return allResults;
-}
+  };
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  app.use('/api', (req, res, next) => {
-    res.setHeader('Cache-Control', 'no-store');
-    next();
-  });
+  // Re-checks only changed contacts once a snapshot exists; { full: true } crawls everything again.
+  const refreshContactStats = async (req: Request, res: Response, product: ZohoProduct) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const account = await storage.getAccount(accountId);
+      if (!account) return res.status(404).json({ error: 'Account not found.' });
+
+      res.status(202).json(statsJobManager.startJob(accountId, product, req.body?.full === true));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to start stats collection', details: error.message });
+    }
+  };
+
+  const cancelContactStats = (req: Request, res: Response, product: ZohoProduct) => {
+    const accountId = parseInt(req.params.accountId);
+    if (!statsJobManager.cancelJob(accountId, product)) {
+      return res.status(404).json({ error: 'No stats collection is running for this account.' });
+    }
+    res.json({ message: 'Stats collection cancelled.' });
+  };
 
   // --- OAuth Routes ---
 
-  app.get('/api/zoho/generate-auth-url', (req, res) => {
-    const { client_id, client_secret } = req.query;
+  // Starts a Zoho authorization for a new account, or for an existing one when account_id is given
+  // (blank fields then fall back to the saved credentials). Returns the Zoho consent URL.
+  app.post('/api/zoho/generate-auth-url', requireRole('operator'), async (req, res) => {
+    const { account_id, name, client_id, client_secret, data_center } = req.body;
     log('[Auth Debug] Generating Auth URL...', 'auth');
 
-    if (!client_id || !client_secret) {
-      return res.status(400).send('Client ID and Client Secret are required.');
-    }
+    try {
+      let existing: Account | undefined;
+      if (account_id !== undefined && account_id !== null && account_id !== '') {
+        const accountId = parseInt(account_id);
+        existing = await canAccessAccount(req.user, accountId) ? await storage.getAccount(accountId) : undefined;
+        if (!existing) return res.status(404).json({ error: 'Account not found.' });
+      }
 
-    const state = Buffer.from(JSON.stringify({ clientId: client_id, clientSecret: client_secret })).toString('base64');
-    const redirectUri = `${req.protocol}://${req.get('host')}/api/zoho/oauth-callback`;
+      const clientId = client_id || existing?.client_id;
+      const clientSecret = client_secret && client_secret !== REDACTED_SECRET
+        ? client_secret
+        : existing && decryptSecret(existing.client_secret);
+      const accountName = name || existing?.name;
+      if (!clientId || !clientSecret) {
+        return res.status(400).json({ error: 'Client ID and Client Secret are required.' });
+      }
+      if (!accountName) return res.status(400).json({ error: 'Account name is required.' });
+
+      // Start on the selected DC's login page; Zoho reports the org's real DC back in the callback.
+      const dataCenter: ZohoDataCenter = isZohoDataCenter(data_center) ? data_center
+        : isZohoDataCenter(existing?.data_center) ? existing.data_center
+        : DEFAULT_DATA_CENTER;
+      const state = createPendingAuthorization({
+        userId: req.user!.id,
+        accountId: existing?.id,
+        name: accountName,
+        client_id: clientId,
+        client_secret: clientSecret,
+        data_center: dataCenter,
+      });
+      const redirectUri = `${req.protocol}://${req.get('host')}/api/zoho/oauth-callback`;
 
-    const authUrl = new URL(`${ZOHO_ACCOUNTS_URL}/oauth/v2/auth`);
-    authUrl.searchParams.append('scope', COMBINED_SCOPES);
-    authUrl.searchParams.append('client_id', client_id as string);
-    authUrl.searchParams.append('response_type', 'code');
-    authUrl.searchParams.append('access_type', 'offline');
-    authUrl.searchParams.append('redirect_uri', redirectUri);
-    authUrl.searchParams.append('state', state);
-    
-    log(`[Auth Debug] Auth URL generated with scopes: ${COMBINED_SCOPES}`, 'auth');
-    res.redirect(authUrl.toString());
+      const authUrl = new URL(`${ZOHO_DATA_CENTERS[dataCenter].accountsUrl}/oauth/v2/auth`);
+      authUrl.searchParams.append('scope', COMBINED_SCOPES);
+      authUrl.searchParams.append('client_id', clientId);
+      authUrl.searchParams.append('response_type', 'code');
+      authUrl.searchParams.append('access_type', 'offline');
+      // Zoho only issues a refresh token on the consent screen, so always show it
+      authUrl.searchParams.append('prompt', 'consent');
+      authUrl.searchParams.append('redirect_uri', redirectUri);
+      authUrl.searchParams.append('state', state);
+
+      log(`[Auth Debug] Auth URL generated with scopes: ${COMBINED_SCOPES}`, 'auth');
+      res.json({ url: authUrl.toString() });
+    } catch (error: any) {
+      log(`[Auth Debug] Failed to generate auth URL: ${error.message}`, 'auth-error');
+      res.status(500).json({ error: 'Failed to generate authorization URL', details: error.message });
+    }
   });
 
-  app.get('/api/zoho/oauth-callback', async (req, res) => {
-    const { code, state, error } = req.query;
+  // Exchanges the code, saves the account and sends the user back to the Account Manager.
+  app.get('/api/zoho/oauth-callback', requireRole('operator'), async (req, res) => {
+    const { code, state, error, location } = req.query;
+    const accountsServer = req.query['accounts-server'] as string | undefined;
     log('[Auth Debug] OAuth Callback received.', 'auth');
 
+    const backLink = '<a href="/accounts" class="text-blue-600 hover:underline">Back to Account Manager</a>';
+
+    // Consume the nonce first so it cannot be replayed, even after a Zoho error
+    const pendingAuth = typeof state === 'string' ? consumePendingAuthorization(state, req.user!.id) : undefined;
+
     if (error) {
       log(`[Auth Debug] Error from Zoho: ${error}`, 'auth-error');
       const errorHtml = generateCallbackHTML(
         'Error',
-        `<h1 class="text-2xl font-bold text-red-600 mb-4">Authorization Failed</h1><p class="text-gray-700">Zoho returned an error: ${error}</p>`
+        `<h1 class="text-2xl font-bold text-red-600 mb-4">Authorization Failed</h1><p class="text-gray-700 mb-4">Zoho returned an error: ${error}</p>${backLink}`
       );
       return res.status(400).send(errorHtml);
     }
@@ -274,62 +410,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!code || !state) {
       const errorHtml = generateCallbackHTML(
         'Error',
-        `<h1 class="text-2xl font-bold text-red-600 mb-4">Invalid Request</h1><p class="text-gray-700">Missing authorization code or state from Zoho.</p>`
+        `<h1 class="text-2xl font-bold text-red-600 mb-4">Invalid Request</h1><p class="text-gray-700 mb-4">Missing authorization code or state from Zoho.</p>${backLink}`
+      );
+      return res.status(400).send(errorHtml);
+    }
+
+    if (!pendingAuth) {
+      const errorHtml = generateCallbackHTML(
+        'Error',
+        `<h1 class="text-2xl font-bold text-red-600 mb-4">Authorization Expired</h1><p class="text-gray-700 mb-4">This authorization is unknown or has expired. Start again from the Account Manager.</p>${backLink}`
       );
       return res.status(400).send(errorHtml);
     }
 
     try {
-      const decodedState = JSON.parse(Buffer.from(state as string, 'base64').toString('utf-8'));
-      const { clientId, clientSecret } = decodedState;
       const redirectUri = `${req.protocol}://${req.get('host')}/api/zoho/oauth-callback`;
 
-      log('[Auth Debug] Exchanging code for token...', 'auth');
-      const response = await axios.post(`${ZOHO_ACCOUNTS_URL}/oauth/v2/token`, null, {
+      // The code can only be exchanged on the accounts server of the org's data center
+      const dataCenter: ZohoDataCenter = detectDataCenter(accountsServer)
+        || (isZohoDataCenter(location) ? location : undefined)
+        || pendingAuth.data_center;
+
+      log(`[Auth Debug] Exchanging code for token on ${dataCenter} data center...`, 'auth');
+      const response = await axios.post(`${getDataCenter(dataCenter).accountsUrl}/oauth/v2/token`, null, {
         params: {
           grant_type: 'authorization_code',
-          client_id: clientId,
-          client_secret: clientSecret,
+          client_id: pendingAuth.client_id,
+          client_secret: pendingAuth.client_secret,
           redirect_uri: redirectUri,
           code,
         },
       });
 
       const refreshToken = response.data.refresh_token;
-      log('[Auth Debug] Refresh Token generated successfully.', 'auth');
-      
-      const successHtml = generateCallbackHTML(
-        'Token Generated',
-        `
-        <h1 class="text-2xl font-bold text-green-600 mb-4">Refresh Token Generated!</h1>
-        <p class="text-gray-600 mb-4">Copy the token below and paste it into the 'Refresh Token' field in the application.</p>
-        <div class="bg-gray-100 p-4 rounded-md border border-gray-300 break-all text-left mb-4">
-          <code id="refreshToken">${refreshToken}</code>
-        </div>
-        <button id="copyBtn" class="copy-btn bg-blue-500 text-white px-6 py-2 rounded-md hover:bg-blue-600 transition-colors">Copy Token</button>
-        <p id="copyMsg" class="text-green-500 mt-2 h-4"></p>
-        <script>
-          document.getElementById('copyBtn').addEventListener('click', () => {
-            const token = document.getElementById('refreshToken').innerText;
-            const textArea = document.createElement('textarea');
-            textArea.value = token;
-            document.body.appendChild(textArea);
-            textArea.select();
-            document.execCommand('copy');
-            document.body.removeChild(textArea);
-            const msg = document.getElementById('copyMsg');
-            msg.innerText = 'Copied to clipboard!';
-            setTimeout(() => { msg.innerText = ''; }, 2000);
-          });
-        </script>
-        `
-      );
-      res.send(successHtml);
+      if (!refreshToken) throw new Error(response.data.error || 'Zoho did not return a refresh token.');
+      const detectedDataCenter = detectDataCenter(response.data.api_domain) || dataCenter;
+      log(`[Auth Debug] Refresh Token generated successfully (data center: ${detectedDataCenter}).`, 'auth');
+
+      const credentials = {
+        client_id: pendingAuth.client_id,
+        client_secret: pendingAuth.client_secret,
+        refresh_token: refreshToken,
+        data_center: detectedDataCenter,
+      };
+
+      let account: Account | undefined;
+      if (pendingAuth.accountId !== undefined) {
+        zohoClient.invalidateToken(pendingAuth.accountId);
+        fieldMetadata.invalidate(pendingAuth.accountId);
+        const caps = await detectAccountCapabilities({ ...credentials, id: pendingAuth.accountId });
+        account = await storage.updateAccount(pendingAuth.accountId, {
+          ...credentials,
+          supports_crm: caps.supportsCrm,
+          supports_bigin: caps.supportsBigin,
+        });
+        if (!account) throw new Error('The account was deleted while it was being authorized.');
+        recordAudit(req, {
+          action: 'account.update',
+          accountId: account.id,
+          summary: `Re-authorized account "${account.name}" with Zoho (${detectedDataCenter})`,
+        });
+      } else {
+        const caps = await detectAccountCapabilities({ ...credentials, id: `temp-${randomUUID()}` });
+        account = await storage.createAccount({
+          name: pendingAuth.name,
+          ...credentials,
+          supports_crm: caps.supportsCrm,
+          supports_bigin: caps.supportsBigin,
+        });
+        await storage.grantAccountAccess(req.user!.id, account.id);
+        recordAudit(req, {
+          action: 'account.create',
+          accountId: account.id,
+          summary: `Created account "${account.name}" (${detectedDataCenter}) via Zoho authorization`,
+        });
+      }
+
+      res.redirect(`/accounts?selected=${account.id}`);
     } catch (err: any) {
       log(`[Auth Debug] OAuth callback error: ${err.message}`, 'auth-error');
       const errorHtml = generateCallbackHTML(
         'Error',
-        `<h1 class="text-2xl font-bold text-red-600 mb-4">Failed to Get Token</h1><p class="text-gray-700">${err.response?.data?.error || err.message}</p>`
+        `<h1 class="text-2xl font-bold text-red-600 mb-4">Failed to Get Token</h1><p class="text-gray-700 mb-4">${err.response?.data?.error || err.message}</p>${backLink}`
       );
       res.status(500).send(errorHtml);
     }
@@ -337,50 +499,265 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // --- JOB ROUTES ---
 
-  app.post('/api/jobs/start/:accountId', (req, res) => {
-    const { accountId } = req.params;
-    const { emails, delay, platform = 'crm', ...formData } = req.body;
-    // Pass platform to create specific key (crm-123 or bigin-123)
-    jobManager.startJob(accountId, emails, delay, formData, platform as 'crm' | 'bigin');
-    res.status(202).json({ message: 'Job started' });
+  app.post('/api/jobs/start/:accountId', requireRole('operator'), async (req, res) => {
+    try {
+      const { accountId } = req.params;
+      const { delay, platform = 'crm', import: contactImport, schedule: scheduleBody, ...formData } = req.body;
+      let { emails } = req.body;
+      delete formData.emails;
+
+      // Check the request before any storage or Zoho calls
+      if (!contactImport && (!Array.isArray(emails) || emails.length === 0 || !emails.every((email: unknown) => typeof email === 'string'))) {
+        return res.status(400).json({ error: 'emails must be a non-empty array of strings.' });
+      }
+      if (typeof delay !== 'number' || !Number.isFinite(delay) || delay < 0) {
+        return res.status(400).json({ error: 'delay must be a number of seconds, 0 or more.' });
+      }
+      if (contactImport && !isContactImportData(contactImport)) {
+        return res.status(400).json({ error: 'import must have string columns, rows of string cells and a column-to-field mapping.' });
+      }
+
+      // Optional start time and sending windows, in the account's time zone
+      let schedule: JobSchedule | undefined;
+      if (scheduleBody) {
+        const parsed = parseJobSchedule(scheduleBody);
+        if (!parsed.schedule) return res.status(400).json({ error: parsed.error });
+        schedule = parsed.schedule;
+      }
+
+      // Check custom field values against the module's field types before anything is sent
+      if (formData.customFields && Object.keys(formData.customFields).length > 0) {
+        const account = await storage.getAccount(parseInt(accountId));
+        if (!account) return res.status(404).json({ error: 'Account not found.' });
+        try {
+          const { fields } = await fieldMetadata.getFields(account, platform as JobPlatform, 'Contacts');
+          const { values, errors } = prepareFieldValues(fields, formData.customFields);
+          if (Object.keys(errors).length > 0) {
+            return res.status(400).json({ error: 'Invalid custom field values.', details: errors });
+          }
+          formData.customFields = values;
+        } catch (error: any) {
+          // Without metadata the job still runs; Zoho reports bad values per contact
+          log(`Could not validate custom fields for account ${accountId}: ${error.message}`, 'api-error');
+        }
+      }
+
+      // An imported file replaces the email list: one contact per row, with the mapped fields
+      let rows: Record<string, any>[] | undefined;
+      let cells: Record<string, string>[] | undefined;
+      if (contactImport) {
+        const account = await storage.getAccount(parseInt(accountId));
+        if (!account) return res.status(404).json({ error: 'Account not found.' });
+        let fields;
+        try {
+          ({ fields } = await fieldMetadata.getFields(account, platform as JobPlatform, 'Contacts'));
+        } catch (error: any) {
+          return res.status(500).json({ error: 'Could not load Contacts fields to check the column mapping.', details: error.message });
+        }
+        const { records, errors } = mapImportRows(fields, contactImport, Object.keys(formData.customFields || {}));
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid import.', details: errors.slice(0, MAX_REPORTED_ROW_ERRORS), total_errors: errors.length });
+        }
+        rows = records;
+        cells = records.map((_record, index) => importedCells(contactImport, index));
+        emails = records.map(record => record.Email);
+      }
+
+      // A Zoho template replaces the subject and content; Zoho resolves its merge fields itself
+      if (formData.sendEmail && formData.templateId) {
+        if (platform !== 'crm') return res.status(400).json({ error: 'Email templates are only available for CRM jobs.' });
+        const account = await storage.getAccount(parseInt(accountId));
+        if (!account) return res.status(404).json({ error: 'Account not found.' });
+        let template;
+        try {
+          const response = await zohoClient.api(account, 'crm', 'v8').get(`/settings/email_templates/${formData.templateId}`);
+          template = response.data?.email_templates?.[0];
+        } catch (error: any) {
+          return res.status(500).json({ error: 'Could not load the email template.', details: error.response ? error.response.data : error.message });
+        }
+        if (!template) return res.status(400).json({ error: 'Email template not found.' });
+        if (template.module?.api_name && template.module.api_name !== 'Contacts') {
+          return res.status(400).json({ error: `The template "${template.name}" is for ${template.module.api_name}, not Contacts.` });
+        }
+        // Kept for the job history; the email itself only references the template
+        formData.subject = template.subject;
+        formData.templateName = template.name;
+        delete formData.content;
+      } else {
+        delete formData.templateId;
+      }
+
+      // Merge tags without a fallback must resolve for every recipient before anything is sent
+      if (formData.sendEmail && !formData.templateId && parseMergeTags(formData.subject, formData.content).some(tag => tag.fallback === undefined)) {
+        const account = await storage.getAccount(parseInt(accountId));
+        if (!account) return res.status(404).json({ error: 'Account not found.' });
+        let fields;
+        try {
+          ({ fields } = await fieldMetadata.getFields(account, platform as JobPlatform, 'Contacts'));
+        } catch (error: any) {
+          return res.status(500).json({ error: 'Could not load Contacts fields to check the merge tags.', details: error.message });
+        }
+        const recipients = (emails || []).map((email: string, index: number) => recipientMergeValues({
+          email,
+          lastName: rows ? undefined : formData.lastName,
+          customFields: formData.customFields,
+          row: rows?.[index],
+          cells: cells?.[index],
+        }));
+        const errors = checkMergeTags([formData.subject, formData.content], recipients, {
+          fieldNames: fields.map(field => field.api_name),
+          columnNames: contactImport?.columns,
+          // Lookups arrive as bare ids, so their names come from the contact like unsupplied fields
+          suppliedNames: [...Object.keys(formData.customFields || {}), ...(rows ? Object.values<string>(contactImport.mapping) : ['Last_Name'])]
+            .filter(name => !recipients.some((values: Record<string, any>) => values[name]?.id && !values[name].name)),
+          firstLine: rows ? 2 : undefined,
+        });
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Unresolved merge tags.', details: errors.slice(0, MAX_REPORTED_ROW_ERRORS), total_errors: errors.length });
+        }
+      }
+
+      // Jobs queue per account and platform; this one runs once the lane is free
+      const job = await jobManager.startJob(accountId, emails, delay, formData, platform as JobPlatform, rows, cells, schedule);
+      recordAudit(req, {
+        action: 'job.start',
+        accountId: parseInt(accountId),
+        targetIds: [job.id],
+        summary: `${schedule?.startAt ? `Scheduled ${platform} job for ${schedule.startAt} ${schedule.timeZone}` : `Started ${platform} job`}`
+          + ` for ${emails?.length ?? 0} ${rows ? 'imported rows' : 'emails'} (delay ${delay}s`
+          + `${schedule?.windows ? `; sending ${schedule.windows.map(describeSendingWindow).join(', ')}` : ''})`,
+      });
+      res.status(202).json({
+        message: job.status === 'scheduled' ? 'Job scheduled' : job.status === 'queued' ? 'Job queued' : 'Job started',
+        jobId: job.id,
+        status: job.status
+      });
+    } catch (error: any) {
+      log(`Failed to start job for account ${req.params.accountId}: ${error.message}`, 'api-error');
+      res.status(500).json({ error: 'Failed to start job', details: error.message });
+    }
   });
 
-  app.get('/api/jobs/status', (req, res) => {
-    res.json(jobManager.getStatus());
+  app.get('/api/jobs/status', requireRole('operator'), async (req, res) => {
+    try {
+      const status = jobManager.getStatus();
+      const accountIds = await getAccessibleAccountIds(req.user!);
+      if (accountIds === null) return res.json(status);
+      res.json(Object.fromEntries(
+        Object.entries(status).filter(([, job]: [string, any]) => accountIds.includes(parseInt(job.accountId)))
+      ));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to fetch job status', details: error.message });
+    }
+  });
+
+  // Jobs waiting for their start time or running with sending windows, for the Scheduled Jobs page
+  app.get('/api/jobs/scheduled', requireRole('operator'), async (req, res) => {
+    try {
+      const jobs = jobManager.getScheduledJobs();
+      const accountIds = await getAccessibleAccountIds(req.user!);
+      res.json(accountIds === null ? jobs : jobs.filter(job => accountIds.includes(parseInt(job.accountId))));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to fetch scheduled jobs', details: error.message });
+    }
   });
 
-  app.post('/api/jobs/pause/:accountId', (req, res) => {
+  app.get('/api/jobs/:jobId', requireRole('operator'), async (req, res) => {
+    try {
+      const job = jobManager.getJob(req.params.jobId);
+      if (!job || !(await canAccessAccount(req.user, parseInt(job.accountId)))) {
+        return res.status(404).json({ error: 'Job not found.' });
+      }
+      res.json(job);
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to fetch job', details: error.message });
+    }
+  });
+
+  app.post('/api/jobs/:jobId/cancel', requireRole('operator'), async (req, res) => {
+    try {
+      const job = jobManager.getJob(req.params.jobId);
+      if (!job || !(await canAccessAccount(req.user, parseInt(job.accountId)))) {
+        return res.status(404).json({ error: 'No running or queued job with that ID.' });
+      }
+      const cancelled = jobManager.cancelJob(req.params.jobId);
+      if (!cancelled) return res.status(404).json({ error: 'No running or queued job with that ID.' });
+      recordAudit(req, {
+        action: 'job.cancel',
+        accountId: parseInt(job.accountId),
+        targetIds: [job.id],
+        summary: `Cancelled ${job.platform} job`,
+      });
+      res.json({ message: 'Job cancelled' });
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to cancel job', details: error.message });
+    }
+  });
+
+  app.post('/api/jobs/pause/:accountId', requireRole('operator'), (req, res) => {
     const { accountId } = req.params;
     const { platform = 'crm' } = req.body; 
     jobManager.pauseJob(accountId, platform);
+    recordAudit(req, { action: 'job.pause', accountId: parseInt(accountId), summary: `Paused ${platform} job` });
     res.json({ message: 'Job paused' });
   });
 
-  app.post('/api/jobs/resume/:accountId', (req, res) => {
+  app.post('/api/jobs/resume/:accountId', requireRole('operator'), (req, res) => {
     const { accountId } = req.params;
     const { platform = 'crm' } = req.body; 
     jobManager.resumeJob(accountId, platform);
+    recordAudit(req, { action: 'job.resume', accountId: parseInt(accountId), summary: `Resumed ${platform} job` });
     res.json({ message: 'Job resumed' });
   });
 
-  app.post('/api/jobs/stop/:accountId', (req, res) => {
+  app.post('/api/jobs/stop/:accountId', requireRole('operator'), (req, res) => {
     const { accountId } = req.params;
     const { platform = 'crm' } = req.body; 
     jobManager.stopJob(accountId, platform);
+    recordAudit(req, { action: 'job.stop', accountId: parseInt(accountId), summary: `Stopped ${platform} job` });
     res.json({ message: 'Job stopped' });
   });
 
+  // --- Send quotas: hourly and daily email limits per account and per from address (see server/sendQuotas.ts) ---
+
+  // ?from= lists from addresses to report on even if they have not sent today
+  app.get('/api/send-quotas/:accountId', requireRole('operator'), (req, res) => {
+    const from = typeof req.query.from === 'string' && req.query.from ? req.query.from.split(',') : [];
+    res.json(sendQuotas.getStatus(req.params.accountId, from));
+  });
+
+  app.put('/api/send-quotas/:accountId', requireRole('admin'), async (req, res) => {
+    try {
+      const { accountId } = req.params;
+      if (!(await storage.getAccount(parseInt(accountId)))) return res.status(404).json({ error: 'Account not found.' });
+      const { settings, error } = parseSendQuotaSettings(req.body);
+      if (!settings) return res.status(400).json({ error });
+      sendQuotas.setSettings(accountId, settings);
+      jobManager.quotasChanged(accountId);
+
+      const describe = (limits: SendQuotaLimits) => `${limits.hourly ?? 'no limit'}/hour, ${limits.daily ?? 'no limit'}/day`;
+      recordAudit(req, {
+        action: 'quota.update',
+        accountId: parseInt(accountId),
+        summary: `Set send quotas: account ${describe(settings.account)}; each from address ${describe(settings.fromAddress)}`,
+      });
+      res.json(sendQuotas.getStatus(accountId));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to save send quotas', details: error.message });
+    }
+  });
+
   // --- BIGIN SPECIFIC ENDPOINTS ---
 
+  // Open to viewers: Bigin Email Stats filters by owner
   app.get('/api/bigin/users/:accountId', async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
-      const response = await axios.get('https://www.zohoapis.com/bigin/v2/users?type=AllUsers', {
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
+      const response = await zohoClient.api(account, 'bigin').get('/users', {
+        params: { type: 'AllUsers' }
       });
       
       const usersList = response.data.users || response.data.data || [];
@@ -392,7 +769,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/bigin/users/:accountId/:userId', async (req, res) => {
+  app.get('/api/bigin/all-contact-stats/:accountId', (req, res) => sendContactStats(req, res, 'bigin'));
+
+  app.post('/api/bigin/all-contact-stats/:accountId/refresh', requireRole('operator'), (req, res) => refreshContactStats(req, res, 'bigin'));
+
+  app.post('/api/bigin/all-contact-stats/:accountId/cancel', requireRole('operator'), (req, res) => cancelContactStats(req, res, 'bigin'));
+
+  app.put('/api/bigin/users/:accountId/:userId', requireRole('operator'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
       const userId = req.params.userId;
@@ -402,21 +785,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!account) return res.status(404).json({ error: 'Account not found.' });
       if (!first_name) return res.status(400).json({ error: 'First name is required.' });
       
-      const accessToken = await getAccessToken(account);
 
       const updateData = {
         users: [{ id: userId, first_name: first_name }]
       };
 
-      const response = await axios.put(`https://www.zohoapis.com/bigin/v2/users/${userId}`, updateData, {
-        headers: {
-          'Authorization': `Zoho-oauthtoken ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
+      const response = await zohoClient.api(account, 'bigin').put(`/users/${userId}`, updateData, {
+        headers: { 'Content-Type': 'application/json' }
+      });
+      recordAudit(req, {
+        action: 'zoho_user.update',
+        accountId,
+        targetIds: [userId],
+        summary: `Renamed Bigin user to "${first_name}"`,
+        response,
       });
       res.json(response.data);
     } catch (error: any) {
       log(`Failed to update Bigin user ${req.params.userId}: ${error.message}`, 'api-error');
+      if (error.response) {
+        recordAudit(req, {
+          action: 'zoho_user.update',
+          accountId: parseInt(req.params.accountId),
+          targetIds: [req.params.userId],
+          summary: `Failed to rename Bigin user to "${req.body.first_name}"`,
+          error,
+        });
+      }
       res.status(500).json({ 
         error: 'Failed to update user in Bigin',
         details: error.response ? error.response.data : error.message 
@@ -424,34 +819,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/bigin/fields/:accountId', async (req, res) => {
-    try {
-      const accountId = parseInt(req.params.accountId);
-      const account = await storage.getAccount(accountId);
-      if (!account) return res.status(404).json({ error: 'Account not found.' });
+  app.get('/api/bigin/fields/:accountId', requireRole('operator'), (req, res) => sendFieldMetadata(req, res, 'bigin'));
 
-      const accessToken = await getAccessToken(account);
-      const response = await axios.get('https://www.zohoapis.com/bigin/v1/settings/fields', {
-        params: { module: 'Contacts' },
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-      });
-      res.json(response.data);
-    } catch (error: any) {
-      log(`Failed to fetch Bigin fields: ${error.message}`, 'api-error');
-      res.status(500).json({ error: 'Failed', details: error.message });
-    }
-  });
+  app.get('/api/bigin/lookup/:accountId', requireRole('operator'), (req, res) => sendLookupResults(req, res, 'bigin'));
 
-  app.get('/api/bigin/from_addresses/:accountId', async (req, res) => {
+  app.get('/api/bigin/from_addresses/:accountId', requireRole('operator'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
-      const response = await axios.get('https://www.zohoapis.com/bigin/v2/settings/emails/actions/from_addresses', {
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-      });
+      const response = await zohoClient.api(account, 'bigin').get('/settings/emails/actions/from_addresses');
       
       const rawAddresses = response.data.from_address || response.data.from_addresses || [];
       
@@ -470,16 +848,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // --- ACCOUNT ENDPOINTS ---
 
   app.get('/api/accounts', async (req, res) => {
-    const accounts = await storage.getAllAccounts();
-    res.json(accounts);
+    try {
+      const accounts = await storage.getAllAccounts();
+      const accountIds = await getAccessibleAccountIds(req.user!);
+      const visible = accountIds === null ? accounts : accounts.filter(acc => accountIds.includes(acc.id));
+      res.json(visible.map(redactAccount));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to fetch accounts', details: error.message });
+    }
   });
   
-  app.get('/api/accounts/:id/token', async (req, res) => {
+  app.get('/api/accounts/:id/jobs', requireRole('operator'), (req, res) => {
+    const { platform } = req.query;
+    res.json(jobManager.getAccountJobs(req.params.id, platform as JobPlatform | undefined));
+  });
+
+  app.get('/api/accounts/:id/token', requireRole('admin'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.id);
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found' });
-      const accessToken = await getAccessToken(account);
+      const accessToken = await zohoClient.getAccessToken(account);
+      recordAudit(req, { action: 'account.token_view', accountId, summary: `Viewed access token for "${account.name}"` });
       res.json({ access_token: accessToken });
     } catch (error: any) {
       log(`Failed to get access token for account ${req.params.id}: ${error.message}`, 'auth-error');
@@ -488,8 +878,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST: Create New Account (Perform Capability Check)
-  app.post('/api/accounts', async (req, res) => {
-    const newAccountData = req.body;
+  app.post('/api/accounts', requireRole('operator'), async (req, res) => {
+    const newAccountData = {
+      ...req.body,
+      data_center: isZohoDataCenter(req.body.data_center) ? req.body.data_center : DEFAULT_DATA_CENTER
+    };
     log(`[Auth Debug] Creating new account: ${newAccountData.name}`, 'auth');
 
     let caps = { supportsCrm: false, supportsBigin: false };
@@ -497,10 +890,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
         const tempId = `temp-${randomUUID()}`;
         const tempAccount = { ...newAccountData, id: tempId };
-        const accessToken = await getAccessToken(tempAccount); 
+        await zohoClient.getAccessToken(tempAccount); 
         
         // Use shared logic for detection
-        caps = await detectAccountCapabilities(accessToken);
+        caps = await detectAccountCapabilities(tempAccount);
 
     } catch (e: any) {
         log(`[Auth Debug] Critical validation error during add: ${e.message}`, 'auth-error');
@@ -512,17 +905,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         supports_bigin: caps.supportsBigin 
     };
     
-    const account = await storage.createAccount(accountToSave);
-    res.status(201).json(account);
+    try {
+      const account = await storage.createAccount(accountToSave);
+      // Whoever adds an account can use it right away
+      await storage.grantAccountAccess(req.user!.id, account.id);
+      recordAudit(req, {
+        action: 'account.create',
+        accountId: account.id,
+        summary: `Created account "${account.name}" (${account.data_center})`,
+      });
+      res.status(201).json(redactAccount(account));
+    } catch (error: any) {
+      log(`Failed to save account: ${error.message}`, 'auth-error');
+      res.status(500).json({ error: 'Failed to save account', details: error.message });
+    }
   });
   
   // PUT: Update Account (RE-RUN Capability Check)
-  app.put('/api/accounts/:id', async (req, res) => {
+  app.put('/api/accounts/:id', requireRole('operator'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.id);
-      const updatedData = req.body;
+      const updatedData = withoutUnchangedSecrets(req.body);
       log(`[Auth Debug] Updating account ${accountId}...`, 'auth');
 
+      if (updatedData.data_center !== undefined && !isZohoDataCenter(updatedData.data_center)) {
+        return res.status(400).json({ error: 'Unknown data center.' });
+      }
+
       // We need to re-verify capabilities in case credentials changed
       // Create a temporary object merging old data with new to check token
       const existingAccount = await storage.getAccount(accountId);
@@ -533,10 +942,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let caps = { supportsCrm: false, supportsBigin: false };
       try {
           // Clear cache to force new token generation with new creds
-          delete accessTokenCache[accountId];
+          zohoClient.invalidateToken(accountId);
+          fieldMetadata.invalidate(accountId);
           
-          const accessToken = await getAccessToken(mergedForCheck);
-          caps = await detectAccountCapabilities(accessToken);
+          await zohoClient.getAccessToken(mergedForCheck);
+          caps = await detectAccountCapabilities(mergedForCheck);
       } catch (e: any) {
           log(`[Auth Debug] Validation error during update: ${e.message}`, 'auth-error');
       }
@@ -549,32 +959,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const account = await storage.updateAccount(accountId, finalDataToSave);
-      res.json(account);
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to update account' });
+      if (!account) return res.status(404).json({ error: 'Account not found' });
+      recordAudit(req, {
+        action: 'account.update',
+        accountId,
+        // Field names only, so secrets never end up in the log
+        summary: `Updated account "${account.name}": ${Object.keys(updatedData).join(', ') || 'no fields'}`,
+      });
+      res.json(redactAccount(account));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to update account', details: error.message });
     }
   });
 
-  app.delete('/api/accounts/:id', async (req, res) => {
+  app.delete('/api/accounts/:id', requireRole('admin'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.id);
+      const account = await storage.getAccount(accountId);
       const deleted = await storage.deleteAccount(accountId);
       if (!deleted) return res.status(404).json({ error: 'Account not found.' });
+      zohoClient.invalidateToken(accountId);
+      fieldMetadata.invalidate(accountId);
+      recordAudit(req, { action: 'account.delete', accountId, summary: `Deleted account "${account?.name}"` });
       res.status(204).end();
     } catch (error) {
       res.status(500).json({ error: 'Failed to delete account' });
     }
   });
   
-  app.post('/api/accounts/validate', async (req, res) => {
-    const { client_id, client_secret, refresh_token } = req.body;
+  app.post('/api/accounts/validate', requireRole('operator'), async (req, res) => {
+    const { account_id, ...submitted } = req.body;
     log('[Auth Debug] Validating credentials...', 'auth');
 
+    // With an account_id, anything not re-entered in the form falls back to the saved credentials
+    let credentials = submitted;
+    if (account_id) {
+      let existingAccount;
+      try {
+        existingAccount = await canAccessAccount(req.user, parseInt(account_id))
+          ? await storage.getAccount(parseInt(account_id))
+          : undefined;
+      } catch (error: any) {
+        return res.status(500).json({ error: 'Failed to load account', details: error.message });
+      }
+      if (!existingAccount) return res.status(404).json({ error: 'Account not found.' });
+      credentials = { ...existingAccount, ...withoutUnchangedSecrets(submitted) };
+    }
+
+    const { client_id, client_secret, refresh_token, data_center } = credentials;
     if (!client_id || !client_secret || !refresh_token) {
       return res.status(400).json({ error: 'All credentials are required.' });
     }
     try {
-      await getAccessToken({ client_id, client_secret, refresh_token, id: `validation-${randomUUID()}` });
+      await zohoClient.getAccessToken({ client_id, client_secret, refresh_token, data_center, id: `validation-${randomUUID()}` });
       log('[Auth Debug] Credentials Valid!', 'auth');
       return res.json({ connected: true });
     } catch (error: any) {
@@ -583,9 +1020,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // --- USER ENDPOINTS (admin only) ---
+
+  app.get('/api/users', requireRole('admin'), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(await Promise.all(users.map(toPublicUser)));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to fetch users', details: error.message });
+    }
+  });
+
+  app.post('/api/users', requireRole('admin'), async (req, res) => {
+    const { username, password, role = 'operator', account_ids = [] } = req.body;
+    if (!username || !password) {
+      return res.status(400).json({ error: 'Username and password are required.' });
+    }
+    if (!USER_ROLES.includes(role)) return res.status(400).json({ error: 'Unknown role.' });
+
+    try {
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: 'Username already exists.' });
+      }
+      const user = await storage.createUser({ username, password: await hashPassword(password), role });
+      await storage.setUserAccountIds(user.id, account_ids);
+      log(`User "${username}" created by ${req.user!.username}`, 'auth');
+      res.status(201).json(await toPublicUser(user));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to create user', details: error.message });
+    }
+  });
+
+  app.put('/api/users/:userId', requireRole('admin'), async (req, res) => {
+    const { userId } = req.params;
+    const { password, role, account_ids } = req.body;
+    if (role !== undefined && !USER_ROLES.includes(role)) return res.status(400).json({ error: 'Unknown role.' });
+    // Keeps at least one admin able to manage users
+    if (userId === req.user!.id && role !== undefined && role !== 'admin') {
+      return res.status(400).json({ error: 'You cannot remove your own admin role.' });
+    }
+
+    try {
+      const updates: Record<string, any> = {};
+      if (password) updates.password = await hashPassword(password);
+      if (role !== undefined) updates.role = role;
+
+      const user = Object.keys(updates).length > 0
+        ? await storage.updateUser(userId, updates)
+        : await storage.getUser(userId);
+      if (!user) return res.status(404).json({ error: 'User not found.' });
+      if (Array.isArray(account_ids)) await storage.setUserAccountIds(userId, account_ids);
+
+      log(`User "${user.username}" updated by ${req.user!.username}`, 'auth');
+      res.json(await toPublicUser(user));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to update user', details: error.message });
+    }
+  });
+
+  app.delete('/api/users/:userId', requireRole('admin'), async (req, res) => {
+    if (req.params.userId === req.user!.id) {
+      return res.status(400).json({ error: 'You cannot delete your own user.' });
+    }
+    try {
+      const deleted = await storage.deleteUser(req.params.userId);
+      if (!deleted) return res.status(404).json({ error: 'User not found.' });
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to delete user', details: error.message });
+    }
+  });
+
+  // --- AUDIT LOG ---
+
+  app.get('/api/audit', requireRole('admin'), async (req, res) => {
+    try {
+      const { action, accountId, actor, from, to, limit, offset } = req.query as Record<string, string | undefined>;
+      if (action && !(AUDIT_ACTIONS as readonly string[]).includes(action)) {
+        return res.status(400).json({ error: 'Unknown audit action.' });
+      }
+      const result = await storage.getAuditEntries({
+        action: action as AuditAction | undefined,
+        accountId: accountId ? parseInt(accountId) : undefined,
+        actor: actor || undefined,
+        from: from || undefined,
+        to: to || undefined,
+        limit: limit ? Math.min(parseInt(limit), 500) : undefined,
+        offset: offset ? parseInt(offset) : undefined,
+      });
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to fetch audit log', details: error.message });
+    }
+  });
+
   // --- ZOHO CRM ENDPOINTS ---
 
-  app.post('/api/zoho/contact-and-email/:accountId', async (req, res) => {
+  app.get('/api/zoho/fields/:accountId', requireRole('operator'), (req, res) => sendFieldMetadata(req, res, 'crm'));
+
+  app.get('/api/zoho/lookup/:accountId', requireRole('operator'), (req, res) => sendLookupResults(req, res, 'crm'));
+
+  app.post('/api/zoho/contact-and-email/:accountId', requireRole('operator'), async (req, res) => {
     const accountId = parseInt(req.params.accountId);
     let contactResult: any = { success: false, data: null };
     let emailResult: any = { success: false, data: null };
@@ -594,20 +1129,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { contactData, emailData } = req.body;
       const account = await storage.getAccount(accountId);
       if (!account) throw new Error('Account not found');
-      
-      const accessToken = await getAccessToken(account);
 
-      try {
-        const contactResponse = await axios.post('https://www.zohoapis.com/crm/v2/Contacts', contactData, {
-          headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
+      // Counts against the same send quotas as bulk jobs; refused before the contact is created
+      const from = emailData?.data?.[0]?.from?.email;
+      const claim = from ? sendQuotas.reserve(String(accountId), from) : {};
+      if (from && !claim.reservation) {
+        return res.status(429).json({
+          error: `The send quota for this account or ${from} is used up until ${new Date(claim.availableAt!).toLocaleString('en-US', { timeZone: 'UTC' })} UTC.`,
+          availableAt: claim.availableAt,
         });
+      }
+
+      try {
+        const contactResponse = await zohoClient.api(account, 'crm').post('/Contacts', contactData);
         contactResult = { success: true, data: contactResponse.data };
         
         const newContactId = contactResponse.data.data[0].details.id;
+        recordAudit(req, {
+          action: 'contact.create',
+          accountId,
+          targetIds: [newContactId],
+          summary: 'Created CRM contact',
+          response: contactResponse,
+        });
         
         try {
-            const emailResponse = await axios.post(`https://www.zohoapis.com/crm/v2/Contacts/${newContactId}/actions/send_mail`, emailData, {
-              headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}`, 'Content-Type': 'application/json' }
+            const emailResponse = await zohoClient.api(account, 'crm').post(`/Contacts/${newContactId}/actions/send_mail`, emailData, {
+              headers: { 'Content-Type': 'application/json' }
             });
             emailResult = { success: true, data: emailResponse.data };
         } catch (emailError: any) {
@@ -615,7 +1163,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       } catch (contactError: any) {
         contactResult = { success: false, data: contactError.response?.data || { message: contactError.message } };
+        recordAudit(req, { action: 'contact.create', accountId, summary: 'Failed to create CRM contact', error: contactError });
       }
+      if (claim.reservation && emailResult.data?.data?.[0]?.status !== 'success') sendQuotas.release(claim.reservation);
       res.status(200).json({ contact: contactResult, email: emailResult });
     } catch (error: any) {
       res.status(500).json({ 
@@ -625,15 +1175,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The Zoho organization, whose time_zone is the default for scheduled jobs
+  app.get('/api/zoho/org/:accountId', requireRole('operator'), async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const platform = req.query.platform === 'bigin' ? 'bigin' : 'crm';
+      const account = await storage.getAccount(accountId);
+      if (!account) return res.status(404).json({ error: 'Account not found.' });
+
+      const request = zohoClient.api(account, platform).get('/org');
+      const response = await (platform === 'crm' ? requireScope('ZohoCRM.org.READ', request) : request);
+      res.json(response.data.org?.[0] || {});
+    } catch (error: any) {
+      if (error instanceof ZohoScopeError) return res.status(403).json({ error: error.message, scope: error.scope });
+      res.status(500).json({ error: 'Failed to fetch organization', details: error.response ? error.response.data : error.message });
+    }
+  });
+
+  // Open to viewers: Email Stats filters by owner
   app.get('/api/zoho/users/:accountId', async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
       
-      const accessToken = await getAccessToken(account);
-      const response = await axios.get('https://www.zohoapis.com/crm/v2/users?type=AllUsers', {
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
+      const response = await zohoClient.api(account, 'crm').get('/users', {
+        params: { type: 'AllUsers' }
       });
       res.json(response.data.users);
     } catch (error: any) {
@@ -641,7 +1208,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/zoho/users/:accountId/:userId', async (req, res) => {
+  app.put('/api/zoho/users/:accountId/:userId', requireRole('operator'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
       const userId = req.params.userId;
@@ -651,21 +1218,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!account) return res.status(404).json({ error: 'Account not found.' });
       if (!first_name) return res.status(400).json({ error: 'First name is a required field.' });
       
-      const accessToken = await getAccessToken(account);
 
       const updateData = {
         users: [{ id: userId, first_name: first_name }]
       };
 
-      const response = await axios.put(`https://www.zohoapis.com/crm/v2/users/${userId}`, updateData, {
-        headers: {
-          'Authorization': `Zoho-oauthtoken ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
+      const response = await zohoClient.api(account, 'crm').put(`/users/${userId}`, updateData, {
+        headers: { 'Content-Type': 'application/json' }
+      });
+      recordAudit(req, {
+        action: 'zoho_user.update',
+        accountId,
+        targetIds: [userId],
+        summary: `Renamed CRM user to "${first_name}"`,
+        response,
       });
       res.json(response.data);
     } catch (error: any) {
       log(`Failed to update user ${req.params.userId} for account ${req.params.accountId}`, 'api-error');
+      if (error.response) {
+        recordAudit(req, {
+          action: 'zoho_user.update',
+          accountId: parseInt(req.params.accountId),
+          targetIds: [req.params.userId],
+          summary: `Failed to rename CRM user to "${req.body.first_name}"`,
+          error,
+        });
+      }
       res.status(500).json({ 
         error: 'Failed to update user in Zoho CRM',
         details: error.response ? error.response.data : error.message 
@@ -673,51 +1252,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/zoho/from_addresses/:accountId', async (req, res) => {
+  app.get('/api/zoho/from_addresses/:accountId', requireRole('operator'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
-      const response = await axios.get('https://www.zohoapis.com/crm/v2/settings/emails/actions/from_addresses', {
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-      });
+      const response = await zohoClient.api(account, 'crm').get('/settings/emails/actions/from_addresses');
       res.json(response.data.from_addresses);
     } catch (error: any) {
       res.status(500).json({ error: 'Failed to fetch from addresses', details: error.message });
     }
   });
 
-  app.get('/api/zoho/all-contact-stats/:accountId', async (req, res) => {
-    try {
-      const accountId = parseInt(req.params.accountId);
-      const account = await storage.getAccount(accountId);
-      if (!account) return res.status(404).json({ error: 'Account not found.' });
-      
-      const accessToken = await getAccessToken(account);
-      const allContacts = await fetchAllContacts(accessToken);
-      const allStats = await fetchAllContactStats(accessToken, allContacts);
-      res.json(allStats);
-    } catch (error: any) {
-      res.status(500).json({ error: 'Failed to fetch contact stats', details: error.message });
-    }
-  });
+  app.get('/api/zoho/all-contact-stats/:accountId', (req, res) => sendContactStats(req, res, 'crm'));
+
+  app.post('/api/zoho/all-contact-stats/:accountId/refresh', requireRole('operator'), (req, res) => refreshContactStats(req, res, 'crm'));
 
-  app.get('/api/zoho/contacts/:accountId', async (req, res) => {
+  app.post('/api/zoho/all-contact-stats/:accountId/cancel', requireRole('operator'), (req, res) => cancelContactStats(req, res, 'crm'));
+
+  // Paged contact search: ?query=&owner=&created_from=&created_to=&sort=&direction=&page=&per_page=
+  app.get('/api/zoho/contacts/:accountId', requireRole('operator'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
+      const { params, error } = parseContactSearch(req.query);
+      if (!params) return res.status(400).json({ error });
+
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
       
-      const accessToken = await getAccessToken(account);
-      const allContacts = await fetchAllContacts(accessToken);
-      res.json(allContacts);
+      res.json(await searchContacts(account, params));
     } catch (error: any) {
-      res.status(500).json({ error: 'Failed to fetch contacts', details: error.message });
+      if (error instanceof ZohoScopeError) return res.status(403).json({ error: error.message, scope: error.scope });
+      res.status(500).json({
+        error: 'Failed to fetch contacts',
+        details: error.response ? error.response.data : error.message
+      });
     }
   });
   
+  // Open to viewers, like the Email Templates page
   app.get('/api/zoho/email-templates/:accountId', async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
@@ -726,10 +1300,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
-      const response = await axios.get('https://www.zohoapis.com/crm/v8/settings/email_templates', {
-        params: { module },
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
+      const response = await zohoClient.api(account, 'crm', 'v8').get('/settings/email_templates', {
+        params: { module }
       });
       res.json(response.data.email_templates);
     } catch (error: any) {
@@ -748,10 +1320,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const account = await storage.getAccount(parseInt(accountId));
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
-      const response = await axios.get(`https://www.zohoapis.com/crm/v8/settings/email_templates/${templateId}`, {
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-      });
+      const response = await zohoClient.api(account, 'crm', 'v8').get(`/settings/email_templates/${templateId}`);
       res.json(response.data.email_templates[0]);
     } catch (error: any) {
       log(`Failed to fetch email template for account ${req.params.accountId}: ${error.response?.data?.message || error.message}`, 'api-error');
@@ -762,23 +1331,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/zoho/leads/:accountId', async (req, res) => {
+  // --- Template library: our own subjects and bodies, kept per account (see server/templateLibrary.ts) ---
+
+  app.get('/api/template-library/:accountId', requireRole('operator'), (req, res) => {
+    res.json(templateLibrary.getAccountTemplates(parseInt(req.params.accountId)));
+  });
+
+  app.get('/api/template-library/:accountId/:templateId', requireRole('operator'), (req, res) => {
+    const template = templateLibrary.getTemplate(req.params.templateId);
+    if (!template || template.accountId !== parseInt(req.params.accountId)) return res.status(404).json({ error: 'Template not found.' });
+    res.json(template);
+  });
+
+  app.post('/api/template-library/:accountId', requireRole('operator'), (req, res) => {
+    const accountId = parseInt(req.params.accountId);
+    const { input, error } = parseLibraryTemplateInput(req.body);
+    if (!input) return res.status(400).json({ error });
+
+    const template = templateLibrary.create(accountId, input, req.user!.username);
+    recordAudit(req, { action: 'template.create', accountId, targetIds: [template.id], summary: `Created library template "${template.name}"` });
+    res.status(201).json(template);
+  });
+
+  // Body: the template fields plus base_version, the version the editor loaded
+  app.put('/api/template-library/:accountId/:templateId', requireRole('operator'), (req, res) => {
+    const accountId = parseInt(req.params.accountId);
+    const existing = templateLibrary.getTemplate(req.params.templateId);
+    if (!existing || existing.accountId !== accountId) return res.status(404).json({ error: 'Template not found.' });
+    const { input, error } = parseLibraryTemplateInput(req.body);
+    if (!input) return res.status(400).json({ error });
+    const baseVersion = req.body.base_version;
+    if (baseVersion !== undefined && !Number.isInteger(baseVersion)) return res.status(400).json({ error: 'Invalid base_version.' });
+
+    try {
+      const template = templateLibrary.update(existing.id, input, req.user!.username, baseVersion);
+      const version = template.versions[template.versions.length - 1].version;
+      recordAudit(req, { action: 'template.update', accountId, targetIds: [template.id], summary: `Saved library template "${template.name}" (version ${version})` });
+      res.json(template);
+    } catch (error: any) {
+      if (error instanceof TemplateVersionConflictError) return res.status(409).json({ error: error.message });
+      res.status(500).json({ error: 'Failed to save template', details: error.message });
+    }
+  });
+
+  app.delete('/api/template-library/:accountId/:templateId', requireRole('operator'), (req, res) => {
+    const accountId = parseInt(req.params.accountId);
+    const template = templateLibrary.getTemplate(req.params.templateId);
+    if (!template || template.accountId !== accountId) return res.status(404).json({ error: 'Template not found.' });
+    templateLibrary.remove(template.id);
+    recordAudit(req, { action: 'template.delete', accountId, targetIds: [template.id], summary: `Deleted library template "${template.name}"` });
+    res.json({ message: 'Template deleted' });
+  });
+
+  // Body: { target_account_id }; may be the template's own account
+  app.post('/api/template-library/:accountId/:templateId/duplicate', requireRole('operator'), async (req, res) => {
+    try {
+      const template = templateLibrary.getTemplate(req.params.templateId);
+      if (!template || template.accountId !== parseInt(req.params.accountId)) return res.status(404).json({ error: 'Template not found.' });
+      const targetAccountId = parseInt(req.body?.target_account_id);
+      if (!targetAccountId || !(await canAccessAccount(req.user, targetAccountId)) || !(await storage.getAccount(targetAccountId))) {
+        return res.status(404).json({ error: 'Account not found.' });
+      }
+
+      const copy = templateLibrary.duplicate(template.id, targetAccountId, req.user!.username);
+      recordAudit(req, {
+        action: 'template.create',
+        accountId: targetAccountId,
+        targetIds: [copy.id],
+        summary: `Duplicated library template "${template.name}" from account ${template.accountId} as "${copy.name}"`,
+      });
+      res.status(201).json(copy);
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to duplicate template', details: error.message });
+    }
+  });
+
+  app.get('/api/zoho/leads/:accountId', requireRole('operator'), async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
-      const response = await axios.get('https://www.zohoapis.com/crm/v2/Leads', {
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-      });
+      const response = await zohoClient.api(account, 'crm').get('/Leads');
       res.json(response.data);
     } catch (error: any) {
       res.status(500).json({ error: 'Failed to fetch leads', details: error.message });
     }
   });
 
-  app.delete('/api/zoho/contacts/:accountId', async (req, res) => {
+  // Contacts are archived before they are deleted; see the deleted-batches routes below to restore them.
+  app.delete('/api/zoho/contacts/:accountId', requireRole('admin'), async (req, res) => {
+    let archiveId: string | null = null;
     try {
       const accountId = parseInt(req.params.accountId);
       const contactIds: string[] = req.body.ids;
@@ -789,19 +1432,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
       
-      const accessToken = await getAccessToken(account);
-      const contactIdsString = contactIds.join(',');
+      const actor = req.user ? { id: req.user.id, username: req.user.username } : null;
+      let archivedIds: string[];
+      try {
+        ({ batchId: archiveId, archivedIds } = await contactArchive.archive(account, accountId, contactIds.map(String), { source: 'manual', actor }));
+      } catch (error: any) {
+        return res.status(500).json({
+          error: 'Failed to archive contacts before deleting; nothing was deleted.',
+          details: error.response ? error.response.data : error.message
+        });
+      }
 
-      const response = await axios.delete('https://www.zohoapis.com/crm/v2/Contacts', {
-        params: { ids: contactIdsString },
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
+      // Contacts that could not be archived are not deleted
+      const response = await zohoClient.api(account, 'crm').delete('/Contacts', {
+        params: { ids: archivedIds.join(',') }
+      });
+      contactArchive.markDeleted(archiveId, response.data);
+      recordAudit(req, {
+        action: 'contact.delete',
+        accountId,
+        targetIds: archivedIds,
+        summary: `Deleted ${archivedIds.length} CRM contacts`,
+        response,
+      });
+      const skipped = contactIds.map(String).filter(id => !archivedIds.includes(id));
+      res.json({
+        ...response.data,
+        // Same per-record shape as Zoho's answer
+        data: [...(response.data?.data || []), ...skipped.map(id => ({
+          code: 'NOT_ARCHIVED',
+          status: 'error',
+          message: 'Not deleted: Zoho did not return this contact to archive first.',
+          details: { id },
+        }))],
       });
-      res.json(response.data);
     } catch (error: any) {
+      if (archiveId) contactArchive.discard(archiveId);
+      if (error.response) {
+        recordAudit(req, {
+          action: 'contact.delete',
+          accountId: parseInt(req.params.accountId),
+          targetIds: req.body.ids,
+          summary: `Failed to delete ${req.body.ids.length} CRM contacts`,
+          error,
+        });
+      }
       res.status(500).json({ error: 'Failed to delete contacts', details: error.message });
     }
   });
 
+  // --- Deleted batches: contacts archived before each delete, restored by re-creating them ---
+
+  app.get('/api/zoho/contacts/:accountId/deleted-batches', requireRole('admin'), (req, res) => {
+    res.json(contactArchive.getAccountBatches(parseInt(req.params.accountId)));
+  });
+
+  app.post('/api/zoho/contacts/:accountId/deleted-batches/:batchId/restore', requireRole('admin'), async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const batch = contactArchive.getBatch(req.params.batchId);
+      if (!batch || batch.accountId !== accountId) return res.status(404).json({ error: 'Deleted batch not found.' });
+      if (batch.restore && batch.restore.failed === 0) return res.status(409).json({ error: 'This batch has already been restored.' });
+
+      const account = await storage.getAccount(accountId);
+      if (!account) return res.status(404).json({ error: 'Account not found.' });
+
+      const actor = req.user ? { id: req.user.id, username: req.user.username } : null;
+      res.json(await contactArchive.restore(account, batch.id, actor));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to restore contacts', details: error.message });
+    }
+  });
+
+  // --- Delete by filter: preview first, then a background job (see deleteJobManager) ---
+
+  app.post('/api/zoho/contacts/:accountId/delete-preview', requireRole('admin'), async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const { criteria, error } = parseDeleteCriteria(req.body?.criteria);
+      if (!criteria) return res.status(400).json({ error });
+
+      const account = await storage.getAccount(accountId);
+      if (!account) return res.status(404).json({ error: 'Account not found.' });
+
+      res.json(await deleteJobManager.preview(account, accountId, criteria));
+    } catch (error: any) {
+      if (error instanceof DeleteCriteriaError) return res.status(400).json({ error: error.message });
+      if (error instanceof ZohoScopeError) return res.status(403).json({ error: error.message, scope: error.scope });
+      res.status(500).json({
+        error: 'Failed to preview contacts',
+        details: error.response ? error.response.data : error.message
+      });
+    }
+  });
+
+  // confirm_count must equal the preview's count, so the job deletes exactly what the user saw.
+  app.post('/api/zoho/contacts/:accountId/delete-jobs', requireRole('admin'), async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const { criteria, error } = parseDeleteCriteria(req.body?.criteria);
+      if (!criteria) return res.status(400).json({ error });
+      const confirmCount = req.body?.confirm_count;
+      if (!Number.isInteger(confirmCount)) return res.status(400).json({ error: 'confirm_count is required.' });
+
+      const account = await storage.getAccount(accountId);
+      if (!account) return res.status(404).json({ error: 'Account not found.' });
+
+      const actor = req.user ? { id: req.user.id, username: req.user.username } : null;
+      res.status(202).json(await deleteJobManager.startJob(account, accountId, criteria, confirmCount, actor));
+    } catch (error: any) {
+      if (error instanceof DeleteCriteriaError) return res.status(400).json({ error: error.message });
+      if (error instanceof ZohoScopeError) return res.status(403).json({ error: error.message, scope: error.scope });
+      res.status(500).json({
+        error: 'Failed to start delete job',
+        details: error.response ? error.response.data : error.message
+      });
+    }
+  });
+
+  app.get('/api/zoho/contacts/:accountId/delete-jobs', requireRole('admin'), (req, res) => {
+    res.json(deleteJobManager.getAccountJobs(parseInt(req.params.accountId)));
+  });
+
+  app.get('/api/zoho/contacts/:accountId/delete-jobs/:jobId', requireRole('admin'), (req, res) => {
+    const job = deleteJobManager.getJob(req.params.jobId);
+    if (!job || job.accountId !== parseInt(req.params.accountId)) return res.status(404).json({ error: 'Delete job not found.' });
+    res.json(job);
+  });
+
+  app.get('/api/zoho/contacts/:accountId/delete-jobs/:jobId/report', requireRole('admin'), (req, res) => {
+    const job = deleteJobManager.getJob(req.params.jobId);
+    if (!job || job.accountId !== parseInt(req.params.accountId)) return res.status(404).json({ error: 'Delete job not found.' });
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="delete-report-${job.id}.csv"`);
+    res.send(deleteJobManager.getReportCsv(job.id));
+  });
+
+  app.post('/api/zoho/contacts/:accountId/delete-jobs/:jobId/cancel', requireRole('admin'), (req, res) => {
+    const job = deleteJobManager.getJob(req.params.jobId);
+    if (!job || job.accountId !== parseInt(req.params.accountId)) return res.status(404).json({ error: 'Delete job not found.' });
+    if (!deleteJobManager.cancelJob(job.id)) return res.status(409).json({ error: 'Delete job is not running.' });
+    recordAudit(req, {
+      action: 'job.cancel',
+      accountId: job.accountId,
+      targetIds: [job.id],
+      summary: `Cancelled delete-by-filter job after ${job.deleted} of ${job.total} contacts`,
+    });
+    res.json({ message: 'Delete job cancelled.' });
+  });
+
+  // Open to viewers, like the Workflow Report page
   app.get('/api/zoho/workflow-rules/:accountId', async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
@@ -810,11 +1590,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const account = await storage.getAccount(accountId);
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
       
-      const response = await axios.get('https://www.zohoapis.com/crm/v8/settings/automation/workflow_rules', {
-        params: { module },
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
+      const response = await zohoClient.api(account, 'crm', 'v8').get('/settings/automation/workflow_rules', {
+        params: { module }
       });
 
       res.json(response.data);
@@ -834,11 +1612,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const account = await storage.getAccount(parseInt(accountId));
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
       
-      const response = await axios.get(`https://www.zohoapis.com/crm/v8/settings/automation/workflow_rules/${ruleId}`, {
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
-      });
+      const response = await zohoClient.api(account, 'crm', 'v8').get(`/settings/automation/workflow_rules/${ruleId}`);
 
       res.json(response.data);
     } catch (error: any) {
@@ -862,11 +1637,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const account = await storage.getAccount(parseInt(accountId));
       if (!account) return res.status(404).json({ error: 'Account not found.' });
 
-      const accessToken = await getAccessToken(account);
       
-      const response = await axios.get(`https://www.zohoapis.com/crm/v8/settings/automation/workflow_rules/${ruleId}/actions/usage`, {
-        params: { executed_from, executed_till },
-        headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }
+      const response = await zohoClient.api(account, 'crm', 'v8').get(`/settings/automation/workflow_rules/${ruleId}/actions/usage`, {
+        params: { executed_from, executed_till }
       });
 
       res.json(response.data);
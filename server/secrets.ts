@@ -0,0 +1,81 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Envelope encryption for account credentials at rest. Every value gets its own
+// random data key; the data key is wrapped with the master key from
+// ACCOUNTS_MASTER_KEY, so the master key never touches the secrets directly.
+//
+// Stored format: enc:v1:<wrapped key>.<key iv>.<key tag>.<iv>.<tag>.<ciphertext> (base64url)
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+let masterKey: Buffer | null = null;
+
+export class MasterKeyError extends Error {}
+
+function getMasterKey(): Buffer {
+  if (masterKey) return masterKey;
+
+  const raw = process.env.ACCOUNTS_MASTER_KEY;
+  if (!raw) {
+    throw new MasterKeyError(
+      "ACCOUNTS_MASTER_KEY is not set. Generate one with: node -e \"console.log(require('crypto').randomBytes(32).toString('base64'))\""
+    );
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new MasterKeyError('ACCOUNTS_MASTER_KEY must be 32 bytes, encoded as base64 or hex.');
+  }
+  masterKey = key;
+  return masterKey;
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer) {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  if (isEncrypted(plaintext)) return plaintext;
+
+  const dataKey = randomBytes(KEY_BYTES);
+  const wrapped = seal(getMasterKey(), dataKey);
+  const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  return PREFIX + [
+    wrapped.ciphertext, wrapped.iv, wrapped.tag,
+    sealed.iv, sealed.tag, sealed.ciphertext,
+  ].map(part => part.toString('base64url')).join('.');
+}
+
+// Values that were never encrypted (e.g. credentials typed into the form and
+// being validated before they are saved) are returned unchanged.
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const parts = value.slice(PREFIX.length).split('.').map(part => Buffer.from(part, 'base64url'));
+  if (parts.length !== 6) throw new Error('Malformed encrypted secret.');
+  const [wrappedKey, keyIv, keyTag, iv, tag, ciphertext] = parts;
+
+  try {
+    const dataKey = open(getMasterKey(), keyIv, keyTag, wrappedKey);
+    return open(dataKey, iv, tag, ciphertext).toString('utf8');
+  } catch (error) {
+    if (error instanceof MasterKeyError) throw error;
+    throw new Error('Could not decrypt secret. Was ACCOUNTS_MASTER_KEY changed?');
+  }
+}
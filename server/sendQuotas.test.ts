@@ -0,0 +1,96 @@
+import { test, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { quotaUsage, HOUR_MS, DAY_MS } from "@shared/sendQuotas";
+import type sendQuotasInstance from "./sendQuotas";
+
+const START = Date.parse('2026-10-19T08:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+let dataDir: string;
+let sendQuotas: typeof sendQuotasInstance;
+let now: number;
+let accountCount = 0;
+let accountId: string;
+
+before(async () => {
+  // send-quotas.json is resolved from the working directory on import
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'send-quotas-test-'));
+  process.chdir(dataDir);
+  mock.method(Date, 'now', () => now);
+  ({ default: sendQuotas } = await import("./sendQuotas"));
+});
+
+after(async () => {
+  mock.restoreAll();
+  // Let the debounced save to send-quotas.json finish before its directory goes
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+// Each test gets its own account, so the singleton's state does not carry over
+beforeEach(() => {
+  now = START;
+  accountId = String(++accountCount);
+});
+
+test('counts sends in the rolling hour and day', () => {
+  const sends = [START - DAY_MS, START - DAY_MS + MINUTE_MS, START - HOUR_MS + MINUTE_MS, START - MINUTE_MS];
+  assert.deepEqual(quotaUsage(sends, {}, START), { sentLastHour: 2, sentLastDay: 3 });
+
+  const usage = quotaUsage(sends, { hourly: 2, daily: 5 }, START);
+  assert.equal(usage.remainingHourly, 0);
+  assert.equal(usage.remainingDaily, 2);
+  // The oldest send of the last hour leaves it first
+  assert.equal(usage.availableAt, START + MINUTE_MS);
+  assert.equal(quotaUsage(sends, { hourly: 2 }, START + MINUTE_MS).availableAt, undefined);
+});
+
+test('does not count a released reservation', () => {
+  sendQuotas.setSettings(accountId, { account: { hourly: 2 }, fromAddress: {} });
+  const first = sendQuotas.reserve(accountId, 'a@example.com').reservation!;
+  assert.ok(sendQuotas.reserve(accountId, 'a@example.com').reservation);
+  assert.equal(sendQuotas.reserve(accountId, 'a@example.com').availableAt, START + HOUR_MS);
+
+  sendQuotas.release(first);
+  assert.equal(sendQuotas.getStatus(accountId).account.sentLastHour, 1);
+  assert.equal(sendQuotas.getStatus(accountId).fromAddresses['a@example.com'].sentLastDay, 1);
+  assert.ok(sendQuotas.reserve(accountId, 'a@example.com').reservation);
+
+  // Releasing twice gives back nothing more
+  sendQuotas.release(first);
+  assert.equal(sendQuotas.getStatus(accountId).account.sentLastHour, 2);
+});
+
+test('frees the hourly quota after an hour', () => {
+  sendQuotas.setSettings(accountId, { account: {}, fromAddress: { hourly: 1 } });
+  assert.ok(sendQuotas.reserve(accountId, 'A@example.com').reservation);
+  // Addresses are counted case-insensitively, each on its own
+  assert.equal(sendQuotas.reserve(accountId, 'a@example.com').availableAt, START + HOUR_MS);
+  assert.ok(sendQuotas.reserve(accountId, 'b@example.com').reservation);
+
+  now = START + HOUR_MS - 1;
+  assert.equal(sendQuotas.reserve(accountId, 'a@example.com').availableAt, START + HOUR_MS);
+  now = START + HOUR_MS;
+  assert.ok(sendQuotas.reserve(accountId, 'a@example.com').reservation);
+  assert.equal(sendQuotas.getStatus(accountId).fromAddresses['a@example.com'].sentLastDay, 2);
+});
+
+test('frees the daily quota after 24 hours', () => {
+  sendQuotas.setSettings(accountId, { account: { hourly: 10, daily: 2 }, fromAddress: {} });
+  assert.ok(sendQuotas.reserve(accountId, 'a@example.com').reservation);
+  now = START + 2 * HOUR_MS;
+  assert.ok(sendQuotas.reserve(accountId, 'a@example.com').reservation);
+
+  now = START + 3 * HOUR_MS;
+  assert.equal(sendQuotas.getStatus(accountId).account.sentLastHour, 0);
+  assert.equal(sendQuotas.reserve(accountId, 'a@example.com').availableAt, START + DAY_MS);
+
+  now = START + DAY_MS;
+  assert.equal(sendQuotas.getStatus(accountId).account.sentLastDay, 1);
+  assert.ok(sendQuotas.reserve(accountId, 'a@example.com').reservation);
+  now = START + 2 * HOUR_MS + DAY_MS;
+  assert.equal(sendQuotas.getStatus(accountId).account.sentLastDay, 1);
+});
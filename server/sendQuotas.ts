@@ -0,0 +1,121 @@
+import path from "path";
+import { FileJobStore } from "./jobStore";
+import {
+  DAY_MS, EMPTY_SEND_QUOTAS, quotaUsage,
+  type SendQuotaSettings, type SendQuotaStatus,
+} from "@shared/sendQuotas";
+
+const QUOTAS_FILE_PATH = path.join(process.cwd(), 'send-quotas.json');
+
+interface QuotaSend {
+  at: number;
+  from: string;
+}
+
+interface AccountQuotas {
+  accountId: string;
+  settings: SendQuotaSettings;
+  // Emails sent (or about to be) in the last 24 hours, oldest first
+  sends: QuotaSend[];
+}
+
+// A slot claimed for one email; released again if the email is not sent
+export interface SendReservation {
+  accountId: string;
+  send: QuotaSend;
+}
+
+// Send quota settings and the sends counted against them, per account, saved to
+// send-quotas.json. Every job of an account counts here, CRM and Bigin alike.
+class SendQuotas {
+  private static instance: SendQuotas;
+  private accounts: Map<string, AccountQuotas> = new Map();
+  private store = new FileJobStore(QUOTAS_FILE_PATH);
+
+  private constructor() {
+    this.restoreQuotas();
+  }
+
+  public static getInstance(): SendQuotas {
+    if (!SendQuotas.instance) SendQuotas.instance = new SendQuotas();
+    return SendQuotas.instance;
+  }
+
+  private async restoreQuotas() {
+    const saved = await this.store.loadJobs();
+    Object.values(saved).forEach((quotas: AccountQuotas) => this.accounts.set(quotas.accountId, quotas));
+  }
+
+  private persist() {
+    this.store.saveJobs(this.accounts);
+  }
+
+  // Accounts without quotas or sends get an entry only once something is saved for them
+  private getAccount(accountId: string, create = false): AccountQuotas {
+    let quotas = this.accounts.get(String(accountId));
+    if (!quotas) {
+      quotas = { accountId: String(accountId), settings: EMPTY_SEND_QUOTAS, sends: [] };
+      if (create) this.accounts.set(quotas.accountId, quotas);
+    }
+    // Older sends no longer count against any quota
+    const cutoff = Date.now() - DAY_MS;
+    if (quotas.sends.length > 0 && quotas.sends[0].at <= cutoff) {
+      quotas.sends = quotas.sends.filter(send => send.at > cutoff);
+    }
+    return quotas;
+  }
+
+  public setSettings(accountId: string, settings: SendQuotaSettings) {
+    this.getAccount(accountId, true).settings = settings;
+    this.persist();
+  }
+
+  // Claims a slot for one email from `from`, or says when the next one frees up. The check
+  // and the claim happen with no await in between, so two jobs of the same account (its CRM
+  // and Bigin lanes, or a job and Single Contact) cannot both take the last slot.
+  public reserve(accountId: string, from: string): { reservation?: SendReservation; availableAt?: number } {
+    const availableAt = this.nextAvailableTime(accountId, from);
+    if (availableAt > Date.now()) return { availableAt };
+    const send = { at: Date.now(), from: from.toLowerCase() };
+    this.getAccount(accountId, true).sends.push(send);
+    this.persist();
+    return { reservation: { accountId: String(accountId), send } };
+  }
+
+  // Gives back the slot of an email that was not sent
+  public release(reservation: SendReservation) {
+    const quotas = this.accounts.get(reservation.accountId);
+    const index = quotas ? quotas.sends.indexOf(reservation.send) : -1;
+    if (index < 0) return;
+    quotas!.sends.splice(index, 1);
+    this.persist();
+  }
+
+  // When the account may next send from `from`: now, or when a used-up quota frees up
+  private nextAvailableTime(accountId: string, from?: string): number {
+    const now = Date.now();
+    const { settings, sends } = this.getAccount(accountId);
+    const account = quotaUsage(sends.map(send => send.at), settings.account, now);
+    const address = from
+      ? quotaUsage(sends.filter(send => send.from === from.toLowerCase()).map(send => send.at), settings.fromAddress, now)
+      : undefined;
+    return Math.max(now, account.availableAt ?? now, address?.availableAt ?? now);
+  }
+
+  public getStatus(accountId: string, fromAddresses: string[] = []): SendQuotaStatus {
+    const now = Date.now();
+    const { settings, sends } = this.getAccount(accountId);
+    const addresses = new Set([...sends.map(send => send.from), ...fromAddresses.map(from => from.toLowerCase())]);
+    const status: SendQuotaStatus = {
+      settings,
+      account: quotaUsage(sends.map(send => send.at), settings.account, now),
+      fromAddresses: {},
+    };
+    addresses.forEach(from => {
+      status.fromAddresses[from] = quotaUsage(sends.filter(send => send.from === from).map(send => send.at), settings.fromAddress, now);
+    });
+    return status;
+  }
+}
+
+export default SendQuotas.getInstance();
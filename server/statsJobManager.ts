@@ -0,0 +1,308 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { FileJobStore } from "./jobStore";
+import type { ZohoCredentials, ZohoProduct } from "./zohoClient";
+import {
+  fetchAllContacts,
+  fetchDeletedContactIds,
+  applyContactChanges,
+  fetchContactStatsBatch,
+  selectContactsForRefresh,
+  mergeContactStats,
+  CONTACT_STATS_BATCH_SIZE,
+  CONTACT_STATS_BATCH_DELAY_MS,
+  type ContactListing,
+} from "./contacts";
+
+const STATS_FILE_PATH = path.join(process.cwd(), 'stats-jobs.json');
+const STATS_DATA_FILE_PATH = path.join(process.cwd(), 'stats-data.json');
+// How often a running crawl's per-contact data is saved; progress counters are saved on every step
+const CHECKPOINT_INTERVAL_MS = 30 * 1000;
+
+export type StatsJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Progress of one email-stats crawl, as returned by the API.
+export interface StatsJob {
+  id: string;
+  accountId: number;
+  product: ZohoProduct;
+  status: StatsJobStatus;
+  // Only re-checks contacts that changed since the last snapshot, see selectContactsForRefresh()
+  incremental: boolean;
+  // Listing contacts first, then one /Emails call per contact in batches
+  phase: 'contacts' | 'emails';
+  contactsFetched: number;
+  // Contacts whose email history is fetched, and those carried over from the last snapshot
+  totalContacts: number;
+  reusedContacts: number;
+  batchesDone: number;
+  totalBatches: number;
+  failures: number;
+  startedAt: number;
+  // When the contact listing began; the next incremental run compares Modified_Time against it
+  listedAt?: number;
+  // Set when Zoho had more contacts than the listing returned
+  truncated?: boolean;
+  truncation_reason?: string;
+  // Set when Bulk Read failed and the contacts were paged instead
+  bulk_read_error?: string;
+  finishedAt?: number;
+  error?: string;
+}
+
+export interface StatsSnapshot {
+  refreshed_at: string;
+  listed_at?: string;
+  contacts: any[];
+  truncated?: boolean;
+  truncation_reason?: string;
+  bulk_read_error?: string;
+}
+
+// The per-contact data of the crawl in progress, as of its last checkpoint
+interface StatsCrawl {
+  jobId: string;
+  contacts: any[];
+  // The contacts whose email history this run fetches
+  queue: any[];
+  results: any[];
+  // job.failures when `results` was last saved
+  failures: number;
+}
+
+// Everything kept per account and product. The job's counters go to stats-jobs.json on
+// every page and batch; the crawl and the snapshot, which hold every contact, go to
+// stats-data.json at checkpoints, so a restarted server carries on from the last one.
+interface StatsLane {
+  job?: StatsJob;
+  crawl?: StatsCrawl;
+  snapshot?: StatsSnapshot;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Collects the email statistics pages' data in the background: lists all contacts,
+// fetches each one's email history and keeps the finished result until the next refresh.
+class StatsJobManager {
+  private static instance: StatsJobManager;
+  private lanes: Map<string, StatsLane> = new Map();
+  private progressStore = new FileJobStore(STATS_FILE_PATH);
+  private dataStore = new FileJobStore(STATS_DATA_FILE_PATH);
+
+  private constructor() {
+    this.restoreLanes();
+  }
+
+  public static getInstance(): StatsJobManager {
+    if (!StatsJobManager.instance) StatsJobManager.instance = new StatsJobManager();
+    return StatsJobManager.instance;
+  }
+
+  // Crawls cut off by a restart pick up again on their own: they only read from Zoho.
+  private async restoreLanes() {
+    const jobs = await this.progressStore.loadJobs();
+    const data = await this.dataStore.loadJobs();
+    Object.entries(data).forEach(([key, saved]: [string, Omit<StatsLane, 'job'>]) => this.lanes.set(key, saved));
+    Object.entries(jobs).forEach(([key, job]: [string, StatsJob]) => {
+      const lane = this.lanes.get(key) ?? {};
+      lane.job = job;
+      this.lanes.set(key, lane);
+      if (job.status !== 'running') return;
+
+      // The counters may be ahead of the last checkpoint: go back to it, or list the
+      // contacts again if this run never reached one
+      if (job.phase === 'emails' && lane.crawl?.jobId === job.id) {
+        job.batchesDone = Math.ceil(lane.crawl.results.length / CONTACT_STATS_BATCH_SIZE);
+        job.failures = lane.crawl.failures;
+      } else {
+        job.phase = 'contacts';
+      }
+      log(`Resuming ${job.product} stats collection for account ${job.accountId}.`, 'stats-job');
+      this.run(key);
+    });
+  }
+
+  // Progress counters only; cheap enough to save on every page and batch
+  private persistProgress() {
+    this.progressStore.saveJobs(new Map(Array.from(this.lanes, ([key, lane]) => [key, lane.job])));
+  }
+
+  private persistData() {
+    this.dataStore.saveJobs(new Map(Array.from(this.lanes, ([key, lane]) => [key, { crawl: lane.crawl, snapshot: lane.snapshot }])));
+  }
+
+  private getLaneKey(accountId: number, product: ZohoProduct) {
+    return `${product}-${accountId}`;
+  }
+
+  private getLane(accountId: number, product: ZohoProduct): StatsLane {
+    const key = this.getLaneKey(accountId, product);
+    if (!this.lanes.has(key)) this.lanes.set(key, {});
+    return this.lanes.get(key)!;
+  }
+
+  public getStats(accountId: number, product: ZohoProduct) {
+    const lane = this.lanes.get(this.getLaneKey(accountId, product));
+    return {
+      refreshed_at: lane?.snapshot?.refreshed_at ?? null,
+      contacts: lane?.snapshot?.contacts ?? [],
+      truncated: lane?.snapshot?.truncated ?? false,
+      truncation_reason: lane?.snapshot?.truncation_reason,
+      bulk_read_error: lane?.snapshot?.bulk_read_error,
+      job: lane?.job ?? null,
+    };
+  }
+
+  // Starts a crawl unless one is already running for this account and product. Once a
+  // snapshot exists the crawl is incremental unless `full` is set.
+  public startJob(accountId: number, product: ZohoProduct, full = false): StatsJob {
+    const lane = this.getLane(accountId, product);
+    if (lane.job?.status === 'running') return lane.job;
+
+    lane.job = {
+      id: randomUUID(),
+      accountId,
+      product,
+      status: 'running',
+      incremental: !full && !!lane.snapshot,
+      phase: 'contacts',
+      contactsFetched: 0,
+      totalContacts: 0,
+      reusedContacts: 0,
+      batchesDone: 0,
+      totalBatches: 0,
+      failures: 0,
+      startedAt: Date.now(),
+    };
+    lane.crawl = undefined;
+    this.persistProgress();
+    this.persistData();
+    this.run(this.getLaneKey(accountId, product));
+    return lane.job;
+  }
+
+  // The previous snapshot stays in place when a crawl is cancelled.
+  public cancelJob(accountId: number, product: ZohoProduct): boolean {
+    const lane = this.lanes.get(this.getLaneKey(accountId, product));
+    if (!lane?.job || lane.job.status !== 'running') return false;
+    lane.job.status = 'cancelled';
+    lane.job.finishedAt = Date.now();
+    this.persistProgress();
+    return true;
+  }
+
+  // Every contact of the account. An incremental run only lists the contacts changed and
+  // deleted since the previous snapshot and applies them to it; if Zoho cannot list those,
+  // it lists everything like a full run.
+  private async listContacts(account: ZohoCredentials, job: StatsJob, previous?: StatsSnapshot): Promise<ContactListing> {
+    const options = {
+      onPage: (fetched: number) => {
+        job.contactsFetched = fetched;
+        this.persistProgress();
+      },
+      shouldStop: () => job.status !== 'running',
+      // An empty result would replace the last snapshot; fail the run instead
+      failOnFirstPage: true,
+    };
+    if (previous) {
+      const since = previous.listed_at ?? previous.refreshed_at;
+      try {
+        const changed = await fetchAllContacts(account, job.product, { ...options, modifiedSince: since });
+        const deletedIds = await fetchDeletedContactIds(account, job.product, since, options.shouldStop);
+        log(`[Stats] ${changed.contacts.length} contacts changed and ${deletedIds.length} deleted since ${since}.`, 'stats-job');
+        return { ...changed, contacts: applyContactChanges(previous.contacts, changed.contacts, deletedIds) };
+      } catch (error: any) {
+        log(`[Stats] Could not list changed contacts for account ${job.accountId}, listing all: ${error.message}`, 'stats-job');
+        job.contactsFetched = 0;
+      }
+    }
+    return fetchAllContacts(account, job.product, options);
+  }
+
+  private async run(key: string) {
+    const lane = this.lanes.get(key)!;
+    const job = lane.job!;
+    const isStopped = () => job.status !== 'running';
+
+    try {
+      const account = await storage.getAccount(job.accountId);
+      if (!account) throw new Error(`Account ${job.accountId} not found.`);
+
+      if (job.phase === 'contacts') {
+        job.contactsFetched = 0;
+        job.listedAt = Date.now();
+        const previous = job.incremental ? lane.snapshot : undefined;
+        const listing = await this.listContacts(account, job, previous);
+        if (isStopped()) return;
+        job.truncated = listing.truncated;
+        job.truncation_reason = listing.truncation_reason;
+        job.bulk_read_error = listing.bulk_read_error;
+
+        const queue = previous
+          ? selectContactsForRefresh(listing.contacts, previous.contacts, previous.listed_at ?? previous.refreshed_at)
+          : listing.contacts;
+        lane.crawl = { jobId: job.id, contacts: listing.contacts, queue, results: [], failures: 0 };
+        job.phase = 'emails';
+        job.totalContacts = queue.length;
+        job.reusedContacts = listing.contacts.length - queue.length;
+        job.totalBatches = Math.ceil(queue.length / CONTACT_STATS_BATCH_SIZE);
+        job.batchesDone = 0;
+        job.failures = 0;
+        this.persistData();
+        this.persistProgress();
+        log(`[Stats] Starting bulk fetch for ${job.totalContacts} contacts, reusing ${job.reusedContacts}. (Total Batches: ${job.totalBatches})`, 'stats-job');
+      }
+
+      // Resumes after the last saved batch
+      const crawl = lane.crawl!;
+      let checkpointAt = Date.now();
+      for (let i = crawl.results.length; i < crawl.queue.length; i += CONTACT_STATS_BATCH_SIZE) {
+        if (isStopped()) return;
+        const batch = crawl.queue.slice(i, i + CONTACT_STATS_BATCH_SIZE);
+        const { results, failures } = await fetchContactStatsBatch(account, batch, job.product);
+        if (isStopped()) return;
+
+        crawl.results.push(...results);
+        job.failures += failures;
+        job.batchesDone++;
+        this.persistProgress();
+        if (Date.now() - checkpointAt >= CHECKPOINT_INTERVAL_MS) {
+          crawl.failures = job.failures;
+          checkpointAt = Date.now();
+          this.persistData();
+        }
+        log(`[Stats] Batch ${job.batchesDone}/${job.totalBatches} complete. Failed: ${failures}`, 'stats-job');
+
+        if (i + CONTACT_STATS_BATCH_SIZE < crawl.queue.length) await sleep(CONTACT_STATS_BATCH_DELAY_MS);
+      }
+
+      lane.snapshot = {
+        refreshed_at: new Date().toISOString(),
+        listed_at: new Date(job.listedAt ?? job.startedAt).toISOString(),
+        contacts: lane.snapshot
+          ? mergeContactStats(crawl.contacts, lane.snapshot.contacts, crawl.results, job.truncated)
+          : crawl.results,
+        truncated: job.truncated,
+        truncation_reason: job.truncation_reason,
+        bulk_read_error: job.bulk_read_error,
+      };
+      job.status = 'completed';
+      log(`[Stats] Finished fetching stats. Total processed: ${crawl.results.length}`, 'stats-job');
+    } catch (error: any) {
+      job.status = 'failed';
+      job.error = error.message;
+      log(`[Stats] Collection failed for ${key}: ${error.message}`, 'stats-error');
+    } finally {
+      if (isStopped()) {
+        job.finishedAt = job.finishedAt ?? Date.now();
+        lane.crawl = undefined;
+        this.persistProgress();
+        this.persistData();
+      }
+    }
+  }
+}
+
+export default StatsJobManager.getInstance();
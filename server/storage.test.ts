@@ -0,0 +1,157 @@
+import { test, before, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { newDb, DataType, type IMemoryDb } from "pg-mem";
+import { createDb } from "./db";
+import type { DrizzleStorage as DrizzleStorageClass } from "./storage";
+
+// DrizzleStorage against pg-mem, with the schema built from ./migrations directly:
+// the `{ migrate: false }` path.
+
+const MIGRATIONS_FOLDER = path.join(process.cwd(), 'migrations');
+
+let DrizzleStorage: typeof DrizzleStorageClass;
+let storage: DrizzleStorageClass;
+
+before(async () => {
+  process.env.ACCOUNTS_MASTER_KEY = randomBytes(32).toString('base64');
+  // Importing storage.ts also builds its default instance; with DATABASE_URL set that is a
+  // DrizzleStorage, which never connects, instead of a FileStorage that reads accounts.json.
+  process.env.DATABASE_URL ??= 'postgres://unused.invalid/tests';
+  ({ DrizzleStorage } = await import("./storage"));
+});
+
+// pg-mem's node-postgres adapter rejects two options drizzle sends: custom type parsers
+// (pg-mem already returns JS values) and array row mode, which drizzle uses for selects
+// and reads by column position. pg-mem keeps columns in select order, so the object
+// rows are turned into arrays here. Queries with repeated column names would not survive this.
+function adaptForDrizzle<T extends { query: (...args: any[]) => any }>(target: T): T {
+  const query = target.query.bind(target);
+  target.query = (async (config: any, values?: any) => {
+    if (typeof config !== 'object') return query(config, values);
+    const { types, rowMode, ...rest } = config;
+    const result = await query(rest, values);
+    if (rowMode === 'array') result.rows = result.rows.map((row: object) => Object.values(row));
+    return result;
+  }) as T['query'];
+  return target;
+}
+
+async function createMemoryDb(): Promise<IMemoryDb> {
+  const mem = newDb();
+  mem.public.registerFunction({ name: 'gen_random_uuid', returns: DataType.uuid, implementation: randomUUID, impure: true });
+  const files = (await fs.readdir(MIGRATIONS_FOLDER)).filter(file => file.endsWith('.sql')).sort();
+  for (const file of files) {
+    const statements = (await fs.readFile(path.join(MIGRATIONS_FOLDER, file), 'utf8')).split('--> statement-breakpoint');
+    statements.forEach(statement => mem.public.none(statement));
+  }
+  return mem;
+}
+
+beforeEach(async () => {
+  const { Pool } = (await createMemoryDb()).adapters.createPg();
+  const pool = adaptForDrizzle(new Pool());
+  const connect = pool.connect.bind(pool);
+  // Transactions run on a client from connect()
+  pool.connect = async () => adaptForDrizzle(await connect());
+  storage = new DrizzleStorage(createDb(pool), { migrate: false });
+});
+
+const newAccount = (name: string) => ({ name, client_id: `${name}-client`, client_secret: 'secret', refresh_token: 'refresh' });
+
+test('creates, lists, updates and deletes accounts', async () => {
+  const first = await storage.createAccount(newAccount('First'));
+  const second = await storage.createAccount({ ...newAccount('Second'), supports_bigin: true, data_center: 'eu' });
+  assert.equal(first.id, 1);
+  assert.equal(second.id, 2);
+  assert.equal(first.supports_crm, true);
+  assert.equal(first.data_center, 'us');
+
+  assert.deepEqual((await storage.getAllAccounts()).map(account => account.name), ['First', 'Second']);
+  assert.equal((await storage.getAccount(2))?.data_center, 'eu');
+  assert.equal(await storage.getAccount(3), undefined);
+
+  const updated = await storage.updateAccount(1, { name: 'Renamed' });
+  assert.equal(updated?.name, 'Renamed');
+  assert.equal(updated?.client_id, 'First-client');
+  assert.equal(await storage.updateAccount(3, { name: 'Missing' }), undefined);
+
+  assert.equal(await storage.deleteAccount(1), true);
+  assert.equal(await storage.deleteAccount(1), false);
+  assert.deepEqual((await storage.getAllAccounts()).map(account => account.id), [2]);
+});
+
+test('stores account secrets encrypted', async () => {
+  const account = await storage.createAccount(newAccount('Secret'));
+  assert.match(account.client_secret, /^enc:v1:/);
+  assert.match(account.refresh_token, /^enc:v1:/);
+
+  const updated = await storage.updateAccount(account.id, { refresh_token: 'new-refresh' });
+  assert.match(updated!.refresh_token, /^enc:v1:/);
+  assert.notEqual(updated!.refresh_token, account.refresh_token);
+  assert.equal(updated!.client_secret, account.client_secret);
+});
+
+test('creates, finds, updates and deletes users', async () => {
+  const admin = await storage.createUser({ username: 'admin', password: 'hash', role: 'admin' });
+  const operator = await storage.createUser({ username: 'operator', password: 'hash' });
+  assert.match(admin.id, /^[0-9a-f-]{36}$/);
+  assert.equal(operator.role, 'operator');
+
+  assert.equal((await storage.getUser(admin.id))?.username, 'admin');
+  assert.equal((await storage.getUserByUsername('operator'))?.id, operator.id);
+  assert.equal(await storage.getUserByUsername('nobody'), undefined);
+  assert.deepEqual((await storage.getAllUsers()).map(user => user.username), ['admin', 'operator']);
+  await assert.rejects(storage.createUser({ username: 'admin', password: 'other' }));
+
+  assert.equal((await storage.updateUser(operator.id, { role: 'viewer' }))?.role, 'viewer');
+  assert.equal(await storage.deleteUser(operator.id), true);
+  assert.equal(await storage.getUser(operator.id), undefined);
+  assert.equal(await storage.deleteUser(operator.id), false);
+});
+
+test('assigns accounts to users', async () => {
+  const user = await storage.createUser({ username: 'operator', password: 'hash' });
+  const [first, second, third] = await Promise.all(['A', 'B', 'C'].map(name => storage.createAccount(newAccount(name))));
+
+  await storage.setUserAccountIds(user.id, [first.id, second.id, first.id]);
+  assert.deepEqual((await storage.getUserAccountIds(user.id)).sort(), [first.id, second.id].sort());
+
+  // Granting twice is a no-op
+  await storage.grantAccountAccess(user.id, third.id);
+  await storage.grantAccountAccess(user.id, third.id);
+  assert.equal((await storage.getUserAccountIds(user.id)).length, 3);
+
+  await storage.setUserAccountIds(user.id, [second.id]);
+  assert.deepEqual(await storage.getUserAccountIds(user.id), [second.id]);
+
+  // Deleting the account or the user removes the assignment with it
+  await storage.deleteAccount(second.id);
+  assert.deepEqual(await storage.getUserAccountIds(user.id), []);
+  await storage.setUserAccountIds(user.id, [first.id]);
+  await storage.deleteUser(user.id);
+  assert.deepEqual(await storage.getUserAccountIds(user.id), []);
+});
+
+test('appends and filters audit entries', async () => {
+  const entry = { actor_username: 'admin', summary: 'done', success: true };
+  await storage.appendAuditEntry({ ...entry, action: 'account.create', account_id: 1 });
+  await storage.appendAuditEntry({ ...entry, action: 'contact.delete', account_id: 1, target_ids: ['10', '11'] });
+  await storage.appendAuditEntry({ ...entry, action: 'contact.delete', account_id: 2, actor_username: 'operator' });
+
+  const all = await storage.getAuditEntries({});
+  assert.equal(all.total, 3);
+  assert.deepEqual(all.entries.map(e => e.id), [3, 2, 1]);
+  assert.deepEqual(all.entries[1].target_ids, ['10', '11']);
+
+  const deletes = await storage.getAuditEntries({ action: 'contact.delete', accountId: 1 });
+  assert.equal(deletes.total, 1);
+  assert.equal(deletes.entries[0].id, 2);
+
+  assert.equal((await storage.getAuditEntries({ actor: 'OPER' })).total, 1);
+  const page = await storage.getAuditEntries({ limit: 1, offset: 1 });
+  assert.equal(page.total, 3);
+  assert.deepEqual(page.entries.map(e => e.id), [2]);
+});
@@ -1,12 +1,29 @@
-import { type User, type InsertUser, type Account, type InsertAccount } from "@shared/schema";
+import {
+  users, accounts, userAccounts, auditLog,
+  type User, type InsertUser, type Account, type InsertAccount,
+  type AuditEntry, type InsertAuditEntry, type AuditFilter,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
 import { promises as fs } from "fs";
 import path from "path";
+import { eq, asc, desc, sql, and, gte, lte, ilike, type SQL } from "drizzle-orm";
+import { encryptSecret, isEncrypted } from "./secrets";
+import { createDb, runMigrations, type Database } from "./db";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+
+  getUserAccountIds(userId: string): Promise<number[]>;
+  setUserAccountIds(userId: string, accountIds: number[]): Promise<void>;
+  grantAccountAccess(userId: string, accountId: number): Promise<void>;
+
+  appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditEntries(filter: AuditFilter): Promise<{ entries: AuditEntry[]; total: number }>;
   
   getAllAccounts(): Promise<Account[]>;
   getAccount(id: number): Promise<Account | undefined>;
@@ -16,21 +33,59 @@ export interface IStorage {
 }
 
 const ACCOUNTS_FILE_PATH = path.join(process.cwd(), 'accounts.json');
+const USERS_FILE_PATH = path.join(process.cwd(), 'users.json');
+const AUDIT_FILE_PATH = path.join(process.cwd(), 'audit.jsonl');
+const DEFAULT_AUDIT_PAGE_SIZE = 100;
+const SECRET_FIELDS = ['client_secret', 'refresh_token'] as const;
+
+// Secrets are encrypted before they reach accounts.json; only the Zoho client
+// decrypts them when it refreshes a token.
+function encryptAccountSecrets<T extends Partial<InsertAccount>>(account: T): T {
+  const encrypted = { ...account };
+  for (const field of SECRET_FIELDS) {
+    const value = encrypted[field];
+    if (typeof value === 'string' && value) encrypted[field] = encryptSecret(value) as T[typeof field];
+  }
+  return encrypted;
+}
+
+interface UsersFile {
+  users: User[];
+  user_accounts: { user_id: string; account_id: number }[];
+}
 
 export class FileStorage implements IStorage {
-  private users: Map<string, User>;
+  private users: UsersFile;
   private accounts: Account[];
+  private migrationWarned = false;
+  private lastAuditId = 0;
 
   constructor() {
-    this.users = new Map();
+    this.users = { users: [], user_accounts: [] };
     this.accounts = [];
     this.loadAccounts();
   }
+
+  private async loadUsers() {
+    try {
+      const data = await fs.readFile(USERS_FILE_PATH, 'utf8');
+      this.users = JSON.parse(data);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('Error loading users:', error);
+      }
+    }
+  }
+
+  private async saveUsers() {
+    await fs.writeFile(USERS_FILE_PATH, JSON.stringify(this.users, null, 2), 'utf8');
+  }
   
   private async loadAccounts() {
     try {
       const data = await fs.readFile(ACCOUNTS_FILE_PATH, 'utf8');
       this.accounts = JSON.parse(data);
+      await this.migratePlaintextSecrets();
     } catch (error: any) {
       if (error.code === 'ENOENT') {
         console.log('accounts.json not found, creating a new file.');
@@ -42,27 +97,94 @@ export class FileStorage implements IStorage {
     }
   }
 
+  // One-time upgrade for accounts.json files written before secrets were encrypted.
+  private async migratePlaintextSecrets() {
+    const plaintext = this.accounts.filter(acc =>
+      SECRET_FIELDS.some(field => acc[field] && !isEncrypted(acc[field]))
+    );
+    if (plaintext.length === 0) return;
+
+    try {
+      this.accounts = this.accounts.map(acc => encryptAccountSecrets(acc));
+    } catch (error: any) {
+      if (!this.migrationWarned) {
+        console.error(`accounts.json has ${plaintext.length} account(s) with plaintext secrets that could not be encrypted: ${error.message}`);
+        this.migrationWarned = true;
+      }
+      return;
+    }
+    await this.saveAccounts();
+    console.log(`Encrypted credentials for ${plaintext.length} account(s) in accounts.json.`);
+  }
+
   private async saveAccounts() {
     await fs.writeFile(ACCOUNTS_FILE_PATH, JSON.stringify(this.accounts, null, 2), 'utf8');
   }
 
   async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+    await this.loadUsers();
+    return this.users.users.find(user => user.id === id);
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
+    await this.loadUsers();
+    return this.users.users.find(
       (user) => user.username === username,
     );
   }
 
+  async getAllUsers(): Promise<User[]> {
+    await this.loadUsers();
+    return this.users.users;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
+    await this.loadUsers();
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
+    const user: User = { role: 'operator', ...insertUser, id };
+    this.users.users.push(user);
+    await this.saveUsers();
     return user;
   }
 
+  async updateUser(id: string, updateData: Partial<InsertUser>): Promise<User | undefined> {
+    await this.loadUsers();
+    const user = this.users.users.find(u => u.id === id);
+    if (!user) return undefined;
+    Object.assign(user, updateData);
+    await this.saveUsers();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    await this.loadUsers();
+    const initialLength = this.users.users.length;
+    this.users.users = this.users.users.filter(u => u.id !== id);
+    if (this.users.users.length === initialLength) return false;
+    this.users.user_accounts = this.users.user_accounts.filter(ua => ua.user_id !== id);
+    await this.saveUsers();
+    return true;
+  }
+
+  async getUserAccountIds(userId: string): Promise<number[]> {
+    await this.loadUsers();
+    return this.users.user_accounts.filter(ua => ua.user_id === userId).map(ua => ua.account_id);
+  }
+
+  async setUserAccountIds(userId: string, accountIds: number[]): Promise<void> {
+    await this.loadUsers();
+    this.users.user_accounts = [
+      ...this.users.user_accounts.filter(ua => ua.user_id !== userId),
+      ...Array.from(new Set(accountIds)).map(account_id => ({ user_id: userId, account_id })),
+    ];
+    await this.saveUsers();
+  }
+
+  async grantAccountAccess(userId: string, accountId: number): Promise<void> {
+    const accountIds = await this.getUserAccountIds(userId);
+    if (!accountIds.includes(accountId)) await this.setUserAccountIds(userId, [...accountIds, accountId]);
+  }
+
   async getAllAccounts(): Promise<Account[]> {
     await this.loadAccounts();
     return this.accounts;
@@ -75,7 +197,7 @@ export class FileStorage implements IStorage {
 
   async createAccount(insertAccount: InsertAccount): Promise<Account> {
     await this.loadAccounts();
-    const newAccount: Account = { ...insertAccount, id: Date.now() };
+    const newAccount: Account = { ...encryptAccountSecrets(insertAccount), id: Date.now() };
     this.accounts.push(newAccount);
     await this.saveAccounts();
     return newAccount;
@@ -88,7 +210,7 @@ export class FileStorage implements IStorage {
       return undefined;
     }
     
-    this.accounts[accountIndex] = { ...this.accounts[accountIndex], ...updateData };
+    this.accounts[accountIndex] = { ...this.accounts[accountIndex], ...encryptAccountSecrets(updateData) };
     await this.saveAccounts();
     return this.accounts[accountIndex];
   }
@@ -100,10 +222,216 @@ export class FileStorage implements IStorage {
     
     if (this.accounts.length < initialLength) {
       await this.saveAccounts();
+      await this.loadUsers();
+      this.users.user_accounts = this.users.user_accounts.filter(ua => ua.account_id !== id);
+      await this.saveUsers();
       return true;
     }
     return false;
   }
+
+  // audit.jsonl is only ever appended to, one JSON entry per line.
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    this.lastAuditId = Math.max(Date.now(), this.lastAuditId + 1);
+    const auditEntry: AuditEntry = {
+      actor_id: null,
+      account_id: null,
+      target_ids: [],
+      status_code: null,
+      zoho_code: null,
+      ...entry,
+      id: this.lastAuditId,
+      created_at: new Date().toISOString(),
+    };
+    await fs.appendFile(AUDIT_FILE_PATH, JSON.stringify(auditEntry) + '\n', 'utf8');
+    return auditEntry;
+  }
+
+  async getAuditEntries(filter: AuditFilter): Promise<{ entries: AuditEntry[]; total: number }> {
+    let lines: string[] = [];
+    try {
+      lines = (await fs.readFile(AUDIT_FILE_PATH, 'utf8')).split('\n').filter(Boolean);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    const actor = filter.actor?.toLowerCase();
+    const matching = lines
+      .map(line => JSON.parse(line) as AuditEntry)
+      .filter(entry =>
+        (!filter.action || entry.action === filter.action) &&
+        (filter.accountId === undefined || entry.account_id === filter.accountId) &&
+        (!actor || entry.actor_username.toLowerCase().includes(actor)) &&
+        (!filter.from || entry.created_at >= filter.from) &&
+        (!filter.to || entry.created_at <= filter.to)
+      )
+      .reverse();
+
+    const offset = filter.offset || 0;
+    const limit = filter.limit || DEFAULT_AUDIT_PAGE_SIZE;
+    return { entries: matching.slice(offset, offset + limit), total: matching.length };
+  }
+}
+
+// Postgres-backed storage so several operators can share one deployment
+// without overwriting each other's accounts.json.
+export class DrizzleStorage implements IStorage {
+  private ready: Promise<void> | null = null;
+
+  // Pass `{ migrate: false }` when the schema is set up separately (e.g. pg-mem in tests).
+  constructor(private db: Database, private options: { migrate?: boolean } = {}) {}
+
+  private ensureReady() {
+    if (this.options.migrate === false) return Promise.resolve();
+    if (!this.ready) {
+      this.ready = runMigrations(this.db).catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    await this.ensureReady();
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    await this.ensureReady();
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    await this.ensureReady();
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    await this.ensureReady();
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, updateData: Partial<InsertUser>): Promise<User | undefined> {
+    await this.ensureReady();
+    const [user] = await this.db.update(users).set(updateData).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    await this.ensureReady();
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  async getUserAccountIds(userId: string): Promise<number[]> {
+    await this.ensureReady();
+    const rows = await this.db.select({ account_id: userAccounts.account_id })
+      .from(userAccounts)
+      .where(eq(userAccounts.user_id, userId));
+    return rows.map(row => row.account_id);
+  }
+
+  async setUserAccountIds(userId: string, accountIds: number[]): Promise<void> {
+    await this.ensureReady();
+    await this.db.transaction(async (tx) => {
+      await tx.delete(userAccounts).where(eq(userAccounts.user_id, userId));
+      const unique = Array.from(new Set(accountIds));
+      if (unique.length > 0) {
+        await tx.insert(userAccounts).values(unique.map(account_id => ({ user_id: userId, account_id })));
+      }
+    });
+  }
+
+  async grantAccountAccess(userId: string, accountId: number): Promise<void> {
+    await this.ensureReady();
+    await this.db.insert(userAccounts)
+      .values({ user_id: userId, account_id: accountId })
+      .onConflictDoNothing();
+  }
+
+  async getAllAccounts(): Promise<Account[]> {
+    await this.ensureReady();
+    return this.db.select().from(accounts).orderBy(asc(accounts.id));
+  }
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    await this.ensureReady();
+    const [account] = await this.db.select().from(accounts).where(eq(accounts.id, id));
+    return account;
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    await this.ensureReady();
+    const [account] = await this.db.insert(accounts).values(encryptAccountSecrets(insertAccount)).returning();
+    return account;
+  }
+
+  async updateAccount(id: number, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    await this.ensureReady();
+    const [account] = await this.db.update(accounts)
+      .set(encryptAccountSecrets(updateData))
+      .where(eq(accounts.id, id))
+      .returning();
+    return account;
+  }
+
+  async deleteAccount(id: number): Promise<boolean> {
+    await this.ensureReady();
+    const deleted = await this.db.delete(accounts).where(eq(accounts.id, id)).returning({ id: accounts.id });
+    return deleted.length > 0;
+  }
+
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    await this.ensureReady();
+    const [auditEntry] = await this.db.insert(auditLog).values(entry).returning();
+    return auditEntry;
+  }
+
+  async getAuditEntries(filter: AuditFilter): Promise<{ entries: AuditEntry[]; total: number }> {
+    await this.ensureReady();
+    const conditions: SQL[] = [];
+    if (filter.action) conditions.push(eq(auditLog.action, filter.action));
+    if (filter.accountId !== undefined) conditions.push(eq(auditLog.account_id, filter.accountId));
+    if (filter.actor) conditions.push(ilike(auditLog.actor_username, `%${filter.actor}%`));
+    if (filter.from) conditions.push(gte(auditLog.created_at, filter.from));
+    if (filter.to) conditions.push(lte(auditLog.created_at, filter.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const entries = await this.db.select().from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.created_at), desc(auditLog.id))
+      .limit(filter.limit || DEFAULT_AUDIT_PAGE_SIZE)
+      .offset(filter.offset || 0);
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` }).from(auditLog).where(where);
+    return { entries, total: count };
+  }
+
+  // Copies accounts from an accounts.json file, keeping their ids so running
+  // jobs and saved selections still point at the right account. Accounts that
+  // already exist are left untouched, so the import can be re-run safely.
+  async importAccountsFromFile(filePath: string = ACCOUNTS_FILE_PATH): Promise<{ imported: number; skipped: number }> {
+    await this.ensureReady();
+    const fileAccounts: Account[] = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    if (fileAccounts.length === 0) return { imported: 0, skipped: 0 };
+
+    const inserted = await this.db.insert(accounts)
+      .values(fileAccounts.map(({ id, name, client_id, client_secret, refresh_token, supports_bigin, supports_crm, data_center }) =>
+        encryptAccountSecrets({ id, name, client_id, client_secret, refresh_token, supports_bigin, supports_crm, data_center })
+      ))
+      .onConflictDoNothing({ target: accounts.id })
+      .returning({ id: accounts.id });
+
+    // Explicit ids do not advance the identity sequence; move it past them.
+    await this.db.execute(sql`SELECT setval(pg_get_serial_sequence('accounts', 'id'), (SELECT MAX(id) FROM accounts))`);
+
+    return { imported: inserted.length, skipped: fileAccounts.length - inserted.length };
+  }
 }
 
-export const storage = new FileStorage();
\ No newline at end of file
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DrizzleStorage(createDb(process.env.DATABASE_URL))
+  : new FileStorage();
\ No newline at end of file
@@ -0,0 +1,115 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { FileJobStore } from "./jobStore";
+import type { LibraryTemplate, LibraryTemplateInput, LibraryTemplateSummary } from "@shared/templateLibrary";
+
+const LIBRARY_FILE_PATH = path.join(process.cwd(), 'template-library.json');
+
+// Thrown when a save is based on a version that is no longer the latest
+export class TemplateVersionConflictError extends Error {}
+
+function toSummary(template: LibraryTemplate): LibraryTemplateSummary {
+  const { versions, ...rest } = template;
+  const current = versions[versions.length - 1];
+  return { ...rest, version: current.version, subject: current.subject };
+}
+
+// The email template library behind the Template Library page, saved to template-library.json.
+// Templates belong to an account and are independent of the account's Zoho email templates.
+class TemplateLibrary {
+  private static instance: TemplateLibrary;
+  private templates: Map<string, LibraryTemplate> = new Map();
+  private store = new FileJobStore(LIBRARY_FILE_PATH);
+
+  private constructor() {
+    this.restoreTemplates();
+  }
+
+  public static getInstance(): TemplateLibrary {
+    if (!TemplateLibrary.instance) TemplateLibrary.instance = new TemplateLibrary();
+    return TemplateLibrary.instance;
+  }
+
+  private async restoreTemplates() {
+    const saved = await this.store.loadJobs();
+    Object.values(saved).forEach((template: LibraryTemplate) => this.templates.set(template.id, template));
+  }
+
+  private persist() {
+    this.store.saveJobs(this.templates);
+  }
+
+  // Most recently updated first
+  public getAccountTemplates(accountId: number): LibraryTemplateSummary[] {
+    return Array.from(this.templates.values())
+      .filter(template => template.accountId === accountId)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(toSummary);
+  }
+
+  public getTemplate(id: string): LibraryTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  public create(accountId: number, input: LibraryTemplateInput, username: string): LibraryTemplate {
+    const now = Date.now();
+    const template: LibraryTemplate = {
+      id: randomUUID(),
+      accountId,
+      name: input.name,
+      tags: input.tags,
+      createdAt: now,
+      createdBy: username,
+      updatedAt: now,
+      updatedBy: username,
+      versions: [{ version: 1, subject: input.subject, html: input.html, text: input.text, savedAt: now, savedBy: username }],
+    };
+    this.templates.set(template.id, template);
+    this.persist();
+    return template;
+  }
+
+  // Renames and retags in place; a changed subject or body becomes a new version.
+  // `baseVersion` is the version the editor started from, so two people editing the
+  // same template do not silently overwrite each other.
+  public update(id: string, input: LibraryTemplateInput, username: string, baseVersion?: number): LibraryTemplate {
+    const template = this.templates.get(id);
+    if (!template) throw new Error('Template not found.');
+    const current = template.versions[template.versions.length - 1];
+    if (baseVersion !== undefined && baseVersion !== current.version) {
+      throw new TemplateVersionConflictError(`Version ${current.version} was saved by ${current.savedBy} since you opened this template. Reload it and apply your changes again.`);
+    }
+
+    const now = Date.now();
+    if (input.subject !== current.subject || input.html !== current.html || input.text !== current.text) {
+      template.versions.push({
+        version: current.version + 1, subject: input.subject, html: input.html, text: input.text, savedAt: now, savedBy: username,
+      });
+    }
+    template.name = input.name;
+    template.tags = input.tags;
+    template.updatedAt = now;
+    template.updatedBy = username;
+    this.persist();
+    return template;
+  }
+
+  public remove(id: string): boolean {
+    const removed = this.templates.delete(id);
+    if (removed) this.persist();
+    return removed;
+  }
+
+  // Copies the current version, without its history, as a new template of `accountId`
+  public duplicate(id: string, accountId: number, username: string): LibraryTemplate {
+    const source = this.templates.get(id);
+    if (!source) throw new Error('Template not found.');
+    const current = source.versions[source.versions.length - 1];
+    const taken = new Set(this.getAccountTemplates(accountId).map(template => template.name));
+    let name = source.name;
+    for (let copy = 1; taken.has(name); copy++) name = `${source.name} (copy${copy > 1 ? ` ${copy}` : ''})`;
+    return this.create(accountId, { name, tags: source.tags, subject: current.subject, html: current.html, text: current.text }, username);
+  }
+}
+
+export default TemplateLibrary.getInstance();
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCreditReset } from "./zohoClient";
+
+const NOW = Date.parse('2026-10-19T08:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+test('reads epoch milliseconds', () => {
+  assert.equal(parseCreditReset(String(NOW + HOUR_MS), NOW), NOW + HOUR_MS);
+  assert.equal(parseCreditReset(NOW + HOUR_MS, NOW), NOW + HOUR_MS);
+});
+
+test('reads epoch seconds', () => {
+  assert.equal(parseCreditReset(String((NOW + HOUR_MS) / 1000), NOW), NOW + HOUR_MS);
+});
+
+test('reads seconds from now', () => {
+  assert.equal(parseCreditReset('3600', NOW), NOW + HOUR_MS);
+  assert.equal(parseCreditReset(' 90 ', NOW), NOW + 90 * 1000);
+});
+
+test('reads an HTTP date', () => {
+  assert.equal(parseCreditReset('Mon, 19 Oct 2026 09:00:00 GMT', NOW), NOW + HOUR_MS);
+  assert.equal(parseCreditReset('2026-10-19T09:00:00Z', NOW), NOW + HOUR_MS);
+});
+
+test('caps the wait at 24 hours', () => {
+  const cap = NOW + 24 * HOUR_MS;
+  assert.equal(parseCreditReset(String(NOW + 24 * HOUR_MS), NOW), cap);
+  assert.equal(parseCreditReset(String(NOW + 24 * HOUR_MS + 1), NOW), cap);
+  assert.equal(parseCreditReset(String(48 * 3600), NOW), cap);
+  assert.equal(parseCreditReset('Wed, 21 Oct 2026 08:00:00 GMT', NOW), cap);
+});
+
+test('ignores missing, unreadable and past values', () => {
+  [undefined, null, '', 'soon', '-5', 'NaN', {}].forEach(header => assert.equal(parseCreditReset(header, NOW), undefined));
+  assert.equal(parseCreditReset('0', NOW), undefined);
+  assert.equal(parseCreditReset(String(NOW - 1), NOW), undefined);
+  assert.equal(parseCreditReset(String((NOW - HOUR_MS) / 1000), NOW), undefined);
+  assert.equal(parseCreditReset('Sun, 18 Oct 2026 08:00:00 GMT', NOW), undefined);
+});
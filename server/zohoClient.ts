@@ -0,0 +1,291 @@
+import axios, { type AxiosRequestConfig, type AxiosResponse, type Method } from "axios";
+import { log } from "./vite";
+import { getDataCenter } from "@shared/zohoDataCenters";
+import { decryptSecret } from "./secrets";
+
+export type ZohoProduct = 'crm' | 'bigin';
+
+// Anything carrying OAuth client credentials. `id` keys the token cache, so
+// temporary objects (validation, new accounts) should use a unique throwaway id.
+export interface ZohoCredentials {
+  id: number | string;
+  client_id: string;
+  client_secret: string;
+  refresh_token: string;
+  // Regional hosts are picked from this; missing means the US data center.
+  data_center?: string | null;
+}
+
+export interface ZohoRequestOptions extends Omit<AxiosRequestConfig, 'url' | 'method' | 'baseURL'> {
+  // API version segment, e.g. 'v2', 'v8' or 'bulk/v8'. Defaults per product.
+  version?: string;
+}
+
+const DEFAULT_VERSIONS: Record<ZohoProduct, string> = { crm: 'v2', bigin: 'v2' };
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+// Zoho rejects requests beyond an org's concurrency limit (10 on the lowest editions).
+const MAX_CONCURRENT_REQUESTS = 10;
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE', 'HEAD', 'OPTIONS'];
+// Zoho's API credits reset daily at the latest; a longer wait means a misread header.
+const MAX_CREDIT_WAIT_MS = 24 * 60 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Thrown when Zoho refuses a call because the account was authorized without a scope
+// the call needs. Accounts authorized before the scope was requested keep their old
+// grant until they are re-authorized.
+export class ZohoScopeError extends Error {
+  constructor(public scope: string) {
+    super(`This account's Zoho authorization does not include the ${scope} scope. Re-authorize the account on the Accounts page to grant it.`);
+  }
+}
+
+// Reports Zoho's OAUTH_SCOPE_MISMATCH for `call` as a ZohoScopeError naming `scope`
+export function requireScope<T>(scope: string, call: Promise<T>): Promise<T> {
+  return call.catch((error: any) => {
+    if (error.response?.data?.code === 'OAUTH_SCOPE_MISMATCH') throw new ZohoScopeError(scope);
+    throw error;
+  });
+}
+
+// When out-of-credit requests may go out again, from an X-RateLimit-Reset value. Zoho sends
+// an epoch timestamp in milliseconds on most endpoints, and seconds on some: as an epoch
+// time or as the number of seconds left. Proxies may rewrite it as an HTTP date. Values
+// that make no sense are logged and give up to MAX_CREDIT_WAIT_MS, or no wait at all.
+export function parseCreditReset(header: unknown, now: number = Date.now()): number | undefined {
+  const text = typeof header === 'string' ? header.trim() : header;
+  const value = Number(text);
+  const date = typeof text === 'string' && !Number.isFinite(value) ? Date.parse(text) : NaN;
+  if (text === undefined || text === null || text === '' || (!Number.isFinite(value) && isNaN(date)) || value < 0) {
+    if (header !== undefined) log(`[Zoho] Ignoring unreadable X-RateLimit-Reset value "${header}"`, 'zoho-client');
+    return undefined;
+  }
+
+  const reset = !isNaN(date) ? date
+    : value >= 1e12 ? value // epoch milliseconds
+    : value >= 1e9 ? value * 1000 // epoch seconds
+    : now + value * 1000; // seconds from now
+  if (reset <= now) {
+    log(`[Zoho] X-RateLimit-Reset ${header} is already past; not holding requests`, 'zoho-client');
+    return undefined;
+  }
+  if (reset - now > MAX_CREDIT_WAIT_MS) {
+    log(`[Zoho] X-RateLimit-Reset ${header} is more than 24 hours away; holding requests for 24 hours instead`, 'zoho-client');
+    return now + MAX_CREDIT_WAIT_MS;
+  }
+  return reset;
+}
+
+// Per-account gate: caps in-flight requests and holds everything back while
+// Zoho says the org is out of API credits or rate limited.
+class RequestLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private blockedUntil = 0;
+
+  async acquire() {
+    if (this.active >= MAX_CONCURRENT_REQUESTS) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+
+    const waitMs = this.blockedUntil - Date.now();
+    if (waitMs > 0) await sleep(waitMs);
+  }
+
+  release() {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  blockUntil(timestamp: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, timestamp);
+  }
+}
+
+// Scoped request surface for one account and product, e.g. `zohoClient.api(account, 'crm').get('/Contacts')`.
+export class ZohoApi {
+  constructor(
+    private client: ZohoClient,
+    private account: ZohoCredentials,
+    private product: ZohoProduct,
+    private version: string,
+  ) {}
+
+  get<T = any>(path: string, options: ZohoRequestOptions = {}) {
+    return this.request<T>('GET', path, options);
+  }
+
+  post<T = any>(path: string, data?: any, options: ZohoRequestOptions = {}) {
+    return this.request<T>('POST', path, { ...options, data });
+  }
+
+  put<T = any>(path: string, data?: any, options: ZohoRequestOptions = {}) {
+    return this.request<T>('PUT', path, { ...options, data });
+  }
+
+  delete<T = any>(path: string, options: ZohoRequestOptions = {}) {
+    return this.request<T>('DELETE', path, options);
+  }
+
+  request<T = any>(method: Method, path: string, options: ZohoRequestOptions = {}) {
+    return this.client.request<T>(this.account, this.product, method, path, { version: this.version, ...options });
+  }
+}
+
+class ZohoClient {
+  private static instance: ZohoClient;
+  private accessTokenCache: Record<string, { token: string; expires_at: number }> = {};
+  private tokenRefreshLocks: Record<string, Promise<string> | undefined> = {};
+  private limiters: Map<string, RequestLimiter> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): ZohoClient {
+    if (!ZohoClient.instance) ZohoClient.instance = new ZohoClient();
+    return ZohoClient.instance;
+  }
+
+  public api(account: ZohoCredentials, product: ZohoProduct, version: string = DEFAULT_VERSIONS[product]) {
+    return new ZohoApi(this, account, product, version);
+  }
+
+  public async getAccessToken(account: ZohoCredentials): Promise<string> {
+    const { client_id, id } = account;
+
+    const cachedToken = this.accessTokenCache[id];
+    if (cachedToken && cachedToken.expires_at > Date.now()) {
+      return cachedToken.token;
+    }
+
+    const pendingRefresh = this.tokenRefreshLocks[id];
+    if (pendingRefresh) {
+      return await pendingRefresh;
+    }
+
+    const refreshPromise = (async () => {
+      try {
+        log(`[Auth Debug] Refreshing token for account ${id}...`, 'auth');
+        const { accountsUrl } = getDataCenter(account.data_center);
+        // Stored credentials are encrypted at rest and only decrypted for this call.
+        const refresh_token = decryptSecret(account.refresh_token);
+        const client_secret = decryptSecret(account.client_secret);
+        const response = await axios.post(`${accountsUrl}/oauth/v2/token`, null, {
+          params: { refresh_token, client_id, client_secret, grant_type: 'refresh_token' }
+        });
+        const newAccessToken = response.data.access_token;
+
+        if (!newAccessToken) {
+            throw new Error(response.data.error || 'No access token returned');
+        }
+
+        const expiresInMs = response.data.expires_in * 1000;
+        this.accessTokenCache[id] = {
+          token: newAccessToken,
+          expires_at: Date.now() + expiresInMs - 60000
+        };
+        log(`[Auth Debug] Token refreshed successfully for account ${id}`, 'auth');
+        return newAccessToken;
+      } catch (error: any) {
+        const errMsg = error.response?.data?.error || error.message;
+        log(`[Auth Debug] Failed to get access token for account ${id}: ${errMsg}`, 'auth-error');
+        throw new Error(`Token Refresh Failed: ${errMsg}`);
+      } finally {
+        delete this.tokenRefreshLocks[id];
+      }
+    })();
+
+    this.tokenRefreshLocks[id] = refreshPromise;
+    return await refreshPromise;
+  }
+
+  // Drop a cached token, e.g. after the account's credentials changed.
+  public invalidateToken(accountId: number | string) {
+    delete this.accessTokenCache[accountId];
+  }
+
+  // Sends one API call with the account's token. Rate-limited (429) calls are
+  // always retried since Zoho did not process them; 5xx responses are only
+  // retried for idempotent methods so a contact or email is never sent twice.
+  // An INVALID_TOKEN response triggers one token refresh and retry.
+  public async request<T = any>(
+    account: ZohoCredentials,
+    product: ZohoProduct,
+    method: Method,
+    path: string,
+    options: ZohoRequestOptions = {},
+  ): Promise<AxiosResponse<T>> {
+    const { version = DEFAULT_VERSIONS[product], headers, ...config } = options;
+    const url = `${getDataCenter(account.data_center).apiDomain}/${product}/${version}${path}`;
+    const limiter = this.getLimiter(account.id);
+    const isIdempotent = IDEMPOTENT_METHODS.includes(method.toUpperCase());
+    let tokenRefreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const accessToken = await this.getAccessToken(account);
+      await limiter.acquire();
+      let retryDelayMs = 0;
+      try {
+        const response = await axios.request<T>({
+          ...config,
+          method,
+          url,
+          headers: { ...headers, 'Authorization': `Zoho-oauthtoken ${accessToken}` },
+        });
+        this.trackCredits(limiter, response.headers);
+        return response;
+      } catch (error: any) {
+        const status = error.response?.status;
+        const code = error.response?.data?.code;
+        if (error.response) this.trackCredits(limiter, error.response.headers);
+
+        if (code === 'INVALID_TOKEN' && !tokenRefreshed) {
+          log(`[Zoho] Access token rejected for account ${account.id}, refreshing...`, 'zoho-client');
+          this.invalidateToken(account.id);
+          tokenRefreshed = true;
+          attempt--;
+          continue;
+        }
+
+        const retryable = status === 429 || (status >= 500 && isIdempotent);
+        if (!retryable || attempt >= MAX_RETRIES) throw error;
+
+        retryDelayMs = this.getRetryDelay(error.response?.headers, attempt);
+        if (status === 429) limiter.blockUntil(Date.now() + retryDelayMs);
+        log(`[Zoho] ${method} ${path} returned ${status}, retrying in ${retryDelayMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`, 'zoho-client');
+      } finally {
+        limiter.release();
+      }
+      await sleep(retryDelayMs);
+    }
+  }
+
+  private getLimiter(accountId: number | string) {
+    const key = String(accountId);
+    if (!this.limiters.has(key)) this.limiters.set(key, new RequestLimiter());
+    return this.limiters.get(key)!;
+  }
+
+  // Zoho reports remaining API credits on every response; once they run out
+  // nothing is sent for that org until the reset time it gives us.
+  private trackCredits(limiter: RequestLimiter, headers: any = {}) {
+    const remaining = parseInt(headers['x-ratelimit-remaining'], 10);
+    if (remaining !== 0) return;
+    const reset = parseCreditReset(headers['x-ratelimit-reset']);
+    if (reset === undefined) return;
+    log(`[Zoho] API credits exhausted, holding requests until ${new Date(reset).toISOString()}`, 'zoho-client');
+    limiter.blockUntil(reset);
+  }
+
+  private getRetryDelay(headers: any = {}, attempt: number) {
+    const retryAfter = parseInt(headers['retry-after'], 10);
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+    const backoff = BASE_BACKOFF_MS * 2 ** attempt;
+    return Math.min(backoff + Math.floor(Math.random() * 250), MAX_BACKOFF_MS);
+  }
+}
+
+export default ZohoClient.getInstance();
@@ -0,0 +1,14 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isZohoDataCenter, getDataCenter, ZOHO_DATA_CENTERS } from "@shared/zohoDataCenters";
+
+test('accepts the listed data centers', () => {
+  Object.keys(ZOHO_DATA_CENTERS).forEach(key => assert.equal(isZohoDataCenter(key), true, key));
+});
+
+test('rejects inherited object keys and other values', () => {
+  ['toString', 'constructor', '__proto__', 'hasOwnProperty', 'valueOf', '', 'US', 'eu ']
+    .forEach(key => assert.equal(isZohoDataCenter(key), false, key));
+  [undefined, null, 1, {}].forEach(value => assert.equal(isZohoDataCenter(value), false));
+  assert.equal(getDataCenter('__proto__'), ZOHO_DATA_CENTERS.us);
+});
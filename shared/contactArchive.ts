@@ -0,0 +1,37 @@
+// Deleted-contact archive: every CRM contact deletion first snapshots the full records
+// (server/contactArchive.ts), one archive batch per delete call, so a batch can be
+// restored later by re-creating its contacts.
+
+export type DeletedBatchSource = 'manual' | 'filter';
+
+export interface RestoredContact {
+  // The id the contact had when it was deleted
+  id: string;
+  // The id Zoho gave the re-created contact
+  new_id?: string;
+  status: 'restored' | 'failed';
+  message: string;
+}
+
+export interface DeletedBatchRestore {
+  restoredAt: number;
+  restoredBy: string;
+  restored: number;
+  failed: number;
+  results: RestoredContact[];
+}
+
+export interface DeletedBatchSummary {
+  id: string;
+  accountId: number;
+  source: DeletedBatchSource;
+  // Set for batches deleted by a delete-by-filter job
+  deleteJobId?: string;
+  deletedAt: number;
+  deletedBy: string;
+  // Contacts Zoho confirmed as deleted, which are the ones a restore re-creates
+  deleted: number;
+  sample: { id: string; Full_Name: string; Email: string | null }[];
+  // The latest restore; restoring again only retries the contacts that failed
+  restore?: DeletedBatchRestore;
+}
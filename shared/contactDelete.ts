@@ -0,0 +1,43 @@
+import type { ContactSearchParams } from "./contactSearch";
+
+// Delete-by-criteria for CRM contacts: the Contact Manager previews the matching
+// contacts, then server/deleteJobManager.ts deletes them in throttled batches.
+
+export interface ContactDeleteCriteria extends Pick<ContactSearchParams, 'query' | 'owner' | 'created_from' | 'created_to'> {
+  // Contacts with a bounced email in the latest email statistics snapshot
+  email_bounced?: boolean;
+  // Contacts a bulk job created (not existing ones it matched as duplicates)
+  job_id?: string;
+}
+
+export interface ContactDeletePreview {
+  count: number;
+  sample: { id: string; Full_Name: string; Email: string | null }[];
+  // Set when more contacts match than can be listed; narrow the criteria before deleting
+  truncated: boolean;
+}
+
+export type ContactDeleteJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ContactDeleteBatch {
+  number: number;
+  count: number;
+  deleted: number;
+  failed: number;
+  error?: string;
+}
+
+export interface ContactDeleteJob {
+  id: string;
+  accountId: number;
+  status: ContactDeleteJobStatus;
+  criteria: ContactDeleteCriteria;
+  total: number;
+  deleted: number;
+  failed: number;
+  batches: ContactDeleteBatch[];
+  createdBy: string;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
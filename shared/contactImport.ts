@@ -0,0 +1,119 @@
+import type { ZohoField } from "./zohoFields";
+import { prepareFieldValues } from "./zohoFieldValues";
+
+// Contacts imported from a CSV or XLSX file on the bulk pages: each column is mapped to
+// a Zoho field and each row becomes its own contact. Checked in the browser before the
+// job is submitted and again by the server against the module's field metadata.
+
+export const MAX_IMPORT_ROWS = 10000;
+// Fields every imported contact needs
+export const REQUIRED_IMPORT_FIELDS = ['Last_Name', 'Email'];
+
+export interface ContactImportData {
+  // Header row of the file
+  columns: string[];
+  // Data rows, one cell per column
+  rows: string[][];
+  // Column name -> Zoho field api_name; unmapped columns are not imported
+  mapping: Record<string, string>;
+}
+
+export interface ContactImportError {
+  // 1-based line in the file, counting the header row; absent for mapping errors
+  line?: number;
+  message: string;
+}
+
+export interface MappedContactImport {
+  // Zoho-ready field values, one record per row
+  records: Record<string, any>[];
+  errors: ContactImportError[];
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Checks the shape of an import posted to the server before any cell is read
+export function isContactImportData(value: unknown): value is ContactImportData {
+  if (!value || typeof value !== 'object') return false;
+  const { columns, rows, mapping } = value as Record<string, unknown>;
+  return isStringArray(columns)
+    && Array.isArray(rows) && rows.every(isStringArray)
+    && !!mapping && typeof mapping === 'object' && !Array.isArray(mapping)
+    && Object.values(mapping).every(apiName => typeof apiName === 'string');
+}
+
+// Fields a column can be mapped to
+export function isImportableField(field: ZohoField) {
+  return field.creatable && !field.read_only;
+}
+
+// Problems with the mapping itself; `presetFields` are filled for every row by the form.
+export function validateImportMapping(fields: ZohoField[], mapping: Record<string, string>, presetFields: string[] = []): string[] {
+  const errors: string[] = [];
+  const targets = Object.values(mapping).filter(Boolean);
+
+  targets.forEach(apiName => {
+    const field = fields.find(f => f.api_name === apiName);
+    if (!field) errors.push(`${apiName} is not a field of this module.`);
+    else if (!isImportableField(field)) errors.push(`${field.display_label} cannot be set on new contacts.`);
+  });
+
+  const duplicates = Array.from(new Set(targets.filter((apiName, index) => targets.indexOf(apiName) !== index)));
+  duplicates.forEach(apiName => errors.push(`More than one column is mapped to ${apiName}.`));
+
+  const required = new Set([...REQUIRED_IMPORT_FIELDS, ...fields.filter(f => f.required && isImportableField(f)).map(f => f.api_name)]);
+  required.forEach(apiName => {
+    if (!targets.includes(apiName) && !presetFields.includes(apiName)) {
+      const label = fields.find(f => f.api_name === apiName)?.display_label || apiName;
+      errors.push(`Map a column to ${label}.`);
+    }
+  });
+  return errors;
+}
+
+// Converts every row with the mapping, collecting errors per line instead of stopping.
+export function mapImportRows(fields: ZohoField[], data: ContactImportData, presetFields: string[] = []): MappedContactImport {
+  const mappingErrors = validateImportMapping(fields, data.mapping, presetFields);
+  if (mappingErrors.length > 0) return { records: [], errors: mappingErrors.map(message => ({ message })) };
+  if (data.rows.length === 0) return { records: [], errors: [{ message: 'The file has no data rows.' }] };
+  if (data.rows.length > MAX_IMPORT_ROWS) {
+    return { records: [], errors: [{ message: `Import at most ${MAX_IMPORT_ROWS} rows at a time (the file has ${data.rows.length}).` }] };
+  }
+
+  const mapped = data.columns
+    .map((column, index) => ({ index, field: fields.find(f => f.api_name === data.mapping[column]) }))
+    .filter((column): column is { index: number; field: ZohoField } => !!column.field);
+
+  const records: Record<string, any>[] = [];
+  const errors: ContactImportError[] = [];
+  data.rows.forEach((row, rowIndex) => {
+    const line = rowIndex + 2;
+    const input: Record<string, any> = {};
+    mapped.forEach(({ index, field }) => {
+      const cell = (row[index] ?? '').trim();
+      // Multi-select picklist cells list their options separated by semicolons, as Zoho exports them
+      input[field.api_name] = field.data_type === 'multiselectpicklist'
+        ? cell.split(';').map(option => option.trim()).filter(Boolean)
+        : cell;
+    });
+
+    const { values, errors: fieldErrors } = prepareFieldValues(fields, input);
+    // Required fields the form fills in for every row are checked with the form
+    Object.entries(fieldErrors)
+      .filter(([apiName]) => !(presetFields.includes(apiName) && !input[apiName]))
+      .forEach(([, message]) => errors.push({ line, message }));
+    REQUIRED_IMPORT_FIELDS
+      .filter(apiName => apiName in input && !values[apiName] && !fieldErrors[apiName])
+      .forEach(apiName => errors.push({ line, message: `${fields.find(f => f.api_name === apiName)?.display_label || apiName} is empty.` }));
+    records.push(values);
+  });
+
+  return { records, errors };
+}
+
+// A row's cells by column name, which merge tags can use alongside the mapped fields.
+export function importedCells(data: Pick<ContactImportData, 'columns' | 'rows'>, index: number): Record<string, string> {
+  const row = data.rows[index] || [];
+  return Object.fromEntries(data.columns.map((column, columnIndex) => [column, (row[columnIndex] ?? '').trim()]));
+}
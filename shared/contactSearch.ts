@@ -0,0 +1,40 @@
+// Query parameters and response of GET /api/zoho/contacts/:accountId, which searches
+// CRM contacts with COQL one page at a time (see searchContacts in server/contacts.ts).
+
+// Sortable columns and the Zoho field each one orders by
+export const CONTACT_SORT_FIELDS = {
+  name: 'Last_Name',
+  email: 'Email',
+  created: 'Created_Time',
+  modified: 'Modified_Time',
+} as const;
+
+export type ContactSortKey = keyof typeof CONTACT_SORT_FIELDS;
+export type SortDirection = 'asc' | 'desc';
+
+export const DEFAULT_CONTACT_PAGE_SIZE = 50;
+export const MAX_CONTACT_PAGE_SIZE = 200;
+// COQL refuses offsets beyond this
+export const MAX_CONTACT_SEARCH_OFFSET = 100000;
+
+export interface ContactSearchParams {
+  // Matched against first name, last name and email
+  query?: string;
+  owner?: string;
+  // Created date range, YYYY-MM-DD, both ends inclusive (UTC)
+  created_from?: string;
+  created_to?: string;
+  sort?: ContactSortKey;
+  direction?: SortDirection;
+  page?: number;
+  per_page?: number;
+}
+
+export interface ContactSearchPage {
+  contacts: any[];
+  page: number;
+  per_page: number;
+  // Matching contacts across all pages; null when Zoho could not count them
+  total: number | null;
+  more_records: boolean;
+}
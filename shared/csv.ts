@@ -0,0 +1,51 @@
+// RFC 4180 CSV, shared by the Bulk Read export (server/bulkRead.ts) and the contact
+// import on the bulk pages: quoted fields may contain commas, doubled quotes and line breaks.
+
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.length > 1 || r[0] !== '');
+  // Strip a UTF-8 byte order mark from the first column name
+  if (nonEmpty[0]?.[0]) nonEmpty[0][0] = nonEmpty[0][0].replace(/^\uFEFF/, '');
+  return nonEmpty;
+}
+
+// One object per row, keyed by the header row's column names.
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header = [], ...records] = parseCsvRows(text);
+  return records.map(values => Object.fromEntries(header.map((name, index) => [name, values[index] ?? ''])));
+}
@@ -0,0 +1,161 @@
+// Scheduled bulk jobs: a start time and optional sending windows, both in the account's
+// time zone. JobManager keeps a scheduled job out of its lane until the start time and
+// pauses it whenever it is outside its windows; the bulk pages and the Scheduled Jobs
+// page use the same helpers to show when a job will send.
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const MAX_SENDING_WINDOWS = 14;
+// How far ahead a job can be scheduled
+export const MAX_SCHEDULE_DAYS = 365;
+
+export interface SendingWindow {
+  // 0 = Sunday ... 6 = Saturday
+  days: number[];
+  // "HH:MM", 24-hour; the window runs from start up to (not including) end on the same day
+  start: string;
+  end: string;
+}
+
+export interface JobSchedule {
+  // IANA time zone, e.g. "Europe/Berlin"
+  timeZone: string;
+  // Local date and time "YYYY-MM-DDTHH:MM" in timeZone; absent to start right away
+  startAt?: string;
+  // Absent or empty to send at any time
+  windows?: SendingWindow[];
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// The wall-clock date, weekday and minute of the day at `epoch` in `timeZone`
+export function zonedParts(epoch: number, timeZone: string) {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', weekday: 'short', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+  }).formatToParts(new Date(epoch)).forEach(part => { parts[part.type] = part.value; });
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// How far `timeZone` is ahead of UTC at `epoch`, in milliseconds
+function zoneOffset(epoch: number, timeZone: string) {
+  const { date, minutes } = zonedParts(epoch, timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  return wallClock - Math.floor(epoch / 60000) * 60000;
+}
+
+// "YYYY-MM-DDTHH:MM" in `timeZone` as epoch milliseconds. A time skipped by a daylight
+// saving change resolves to the moment after the change.
+export function zonedTimeToEpoch(local: string, timeZone: string): number {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(local);
+  if (!match) return NaN;
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  const first = wallClock - zoneOffset(wallClock, timeZone);
+  // The offset can differ on the other side of a daylight saving change
+  const second = wallClock - zoneOffset(first, timeZone);
+  if (second + zoneOffset(second, timeZone) === wallClock) return second;
+  // Inside a gap neither maps back to the wall clock. The change falls between the two,
+  // so narrow down to the first minute with the offset that follows it.
+  let before = Math.min(first, second);
+  let after = Math.max(first, second);
+  const offsetAfter = zoneOffset(after, timeZone);
+  while (after - before > 60000) {
+    const middle = before + Math.floor((after - before) / 120000) * 60000;
+    if (zoneOffset(middle, timeZone) === offsetAfter) after = middle;
+    else before = middle;
+  }
+  return after;
+}
+
+export function isInSendingWindow(schedule: JobSchedule, epoch: number = Date.now()) {
+  if (!schedule.windows?.length) return true;
+  const { weekday, minutes } = zonedParts(epoch, schedule.timeZone);
+  return schedule.windows.some(window =>
+    window.days.includes(weekday) && minutesOf(window.start) <= minutes && minutes < minutesOf(window.end));
+}
+
+// When the job may next send: `epoch` itself inside a window, else the next window opening
+export function nextSendingTime(schedule: JobSchedule, epoch: number = Date.now()): number {
+  if (isInSendingWindow(schedule, epoch)) return epoch;
+  let next = Infinity;
+  const [year, month, day] = zonedParts(epoch, schedule.timeZone).date.split('-').map(Number);
+  // Today and the next seven days cover every weekly window. Days are counted on the local
+  // calendar: around a daylight saving change a day is 23 or 25 hours long.
+  for (let offset = 0; offset <= 7; offset++) {
+    const calendarDay = new Date(Date.UTC(year, month - 1, day + offset));
+    const date = calendarDay.toISOString().slice(0, 10);
+    const weekday = calendarDay.getUTCDay();
+    schedule.windows!.filter(window => window.days.includes(weekday)).forEach(window => {
+      const opens = zonedTimeToEpoch(`${date}T${window.start}`, schedule.timeZone);
+      if (opens > epoch && opens < next) next = opens;
+    });
+  }
+  return next;
+}
+
+// The start time as epoch milliseconds, or undefined to start right away
+export function scheduledStartTime(schedule: JobSchedule): number | undefined {
+  return schedule.startAt ? zonedTimeToEpoch(schedule.startAt, schedule.timeZone) : undefined;
+}
+
+export function parseJobSchedule(body: any, now: number = Date.now()): { schedule?: JobSchedule; error?: string } {
+  if (!body || typeof body !== 'object') return { error: 'Invalid schedule.' };
+  const { timeZone, startAt, windows = [] } = body;
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) return { error: 'Choose a valid time zone.' };
+
+  const schedule: JobSchedule = { timeZone };
+  if (startAt !== undefined && startAt !== null && startAt !== '') {
+    if (typeof startAt !== 'string' || !LOCAL_DATE_TIME_PATTERN.test(startAt) || isNaN(zonedTimeToEpoch(startAt, timeZone))) {
+      return { error: 'Invalid start time.' };
+    }
+    const start = zonedTimeToEpoch(startAt, timeZone);
+    if (start <= now) return { error: 'The start time is in the past.' };
+    if (start > now + MAX_SCHEDULE_DAYS * 86400000) return { error: `Schedule at most ${MAX_SCHEDULE_DAYS} days ahead.` };
+    schedule.startAt = startAt;
+  }
+
+  if (!Array.isArray(windows)) return { error: 'Invalid sending windows.' };
+  if (windows.length > MAX_SENDING_WINDOWS) return { error: `Use at most ${MAX_SENDING_WINDOWS} sending windows.` };
+  const parsed: SendingWindow[] = [];
+  for (const window of windows) {
+    const days = Array.isArray(window?.days) ? Array.from(new Set<number>(window.days)).sort() : [];
+    if (days.length === 0 || days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return { error: 'Each sending window needs at least one day.' };
+    }
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) return { error: 'Sending window times must be HH:MM.' };
+    if (minutesOf(window.start) >= minutesOf(window.end)) return { error: `The window ${window.start}–${window.end} ends before it starts.` };
+    parsed.push({ days, start: window.start, end: window.end });
+  }
+  if (parsed.length > 0) schedule.windows = parsed;
+
+  if (!schedule.startAt && !schedule.windows) return { error: 'Set a start time or a sending window.' };
+  return { schedule };
+}
+
+// "Mon–Fri 09:00–17:00"
+export function describeSendingWindow(window: SendingWindow) {
+  const days = window.days.join(',') === '1,2,3,4,5' ? 'Mon–Fri'
+    : window.days.join(',') === '0,1,2,3,4,5,6' ? 'Every day'
+    : window.days.map(day => WEEKDAYS[day]).join(', ');
+  return `${days} ${window.start}–${window.end}`;
+}
@@ -0,0 +1,120 @@
+// Merge tags in bulk email subjects and content: {{First_Name}}, {{Email}}, {{Account_Name}}
+// or any imported column, with an optional fallback after a pipe: {{First_Name|there}}.
+// Resolved per recipient by JobManager.processEmail, previewed on the bulk pages and
+// checked when a job is submitted.
+
+const MERGE_TAG_PATTERN = /\{\{\s*([^{}|]+?)\s*(?:\|\s*([^{}]*?)\s*)?\}\}/g;
+
+export interface MergeTag {
+  name: string;
+  // Used when the recipient has no value; undefined when the tag has no pipe
+  fallback?: string;
+}
+
+export interface MergeTagError {
+  // 1-based line of the imported file, counting the header row; absent for errors about the tag itself
+  line?: number;
+  message: string;
+}
+
+// Every tag in the given texts, once per name and fallback.
+export function parseMergeTags(...texts: string[]): MergeTag[] {
+  const tags = new Map<string, MergeTag>();
+  texts.forEach(text => {
+    (text || '').replace(MERGE_TAG_PATTERN, (match, name: string, fallback?: string) => {
+      tags.set(`${name}|${fallback ?? ''}|${fallback === undefined}`, { name, fallback });
+      return match;
+    });
+  });
+  return Array.from(tags.values());
+}
+
+// A Zoho value as text: lookups by name, lists joined with commas.
+export function mergeValueToText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(mergeValueToText).filter(Boolean).join(', ');
+  if (typeof value === 'object') return value.name ?? value.full_name ?? '';
+  return String(value).trim();
+}
+
+export function hasMergeValue(values: Record<string, any>, name: string) {
+  return mergeValueToText(values[name]) !== '';
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Replaces the tags in `text`. Values are HTML-escaped for email content. Tags with
+// neither a value nor a fallback go through `onMissing`, which defaults to an empty string.
+export function renderMergeTags(
+  text: string,
+  values: Record<string, any>,
+  options: { html?: boolean; onMissing?: (name: string) => string } = {},
+): string {
+  return (text || '').replace(MERGE_TAG_PATTERN, (_match, name: string, fallback?: string) => {
+    const value = mergeValueToText(values[name]);
+    if (value) return options.html ? escapeHtml(value) : value;
+    if (fallback !== undefined) return options.html ? escapeHtml(fallback) : fallback;
+    return options.onMissing ? options.onMissing(name) : '';
+  });
+}
+
+// The values a recipient's tags resolve against before the contact exists: the form's
+// shared values, then the Zoho fields of the imported row, then its raw cells by column name.
+export function recipientMergeValues(recipient: {
+  email: string;
+  lastName?: string;
+  customFields?: Record<string, any>;
+  row?: Record<string, any>;
+  cells?: Record<string, string>;
+}): Record<string, any> {
+  return {
+    ...(recipient.lastName ? { Last_Name: recipient.lastName } : {}),
+    ...recipient.customFields,
+    ...recipient.row,
+    ...recipient.cells,
+    Email: recipient.email,
+  };
+}
+
+export interface MergeTagContext {
+  // Contacts fields of the module
+  fieldNames: string[];
+  // Columns of the imported file, if any
+  columnNames?: string[];
+  // Fields and columns the job sets for every recipient (mapped columns, the form's fields)
+  suppliedNames: string[];
+  // Line of the first recipient, 2 for an imported file with a header row
+  firstLine?: number;
+}
+
+// Tags without a fallback must name a Contacts field or an imported column, and may not be
+// empty for any recipient when the job supplies them. Fields the job does not supply
+// (Account_Name, Owner, ...) are read from the contact once it is created.
+export function checkMergeTags(texts: string[], recipients: Record<string, any>[], context: MergeTagContext): MergeTagError[] {
+  const { fieldNames, columnNames = [], suppliedNames, firstLine } = context;
+  const errors: MergeTagError[] = [];
+  const required = Array.from(new Set(parseMergeTags(...texts).filter(tag => tag.fallback === undefined).map(tag => tag.name)));
+
+  required.forEach(name => {
+    if (!fieldNames.includes(name) && !columnNames.includes(name) && name !== 'Email') {
+      errors.push({ message: `{{${name}}} is not a Contacts field or an imported column. Fix the name or add a fallback, e.g. {{${name}|...}}.` });
+      return;
+    }
+    if (!suppliedNames.includes(name) && !columnNames.includes(name)) return;
+
+    const emptyAt = recipients
+      .map((values, index) => hasMergeValue(values, name) ? null : index)
+      .filter((index): index is number => index !== null);
+    if (emptyAt.length === 0) return;
+    if (firstLine === undefined) {
+      errors.push({ message: `{{${name}}} is empty for ${emptyAt.length} recipient(s) and has no fallback.` });
+    } else {
+      emptyAt.forEach(index => errors.push({ line: index + firstLine, message: `{{${name}}} is empty and has no fallback.` }));
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,32 @@
+import { USER_ROLES, type UserRole } from "./schema";
+
+// Roles are ordered: viewer < operator < admin. Each role can do everything the
+// roles before it can.
+export function hasRole(role: UserRole | undefined | null, required: UserRole) {
+  if (!role) return false;
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+// Minimum role for each page; the sidebar and router hide pages a user cannot use.
+// The server enforces the same split on the API routes behind them.
+export const PAGE_ROLES: Record<string, UserRole> = {
+  "/": "viewer",
+  "/email-stats": "viewer",
+  "/email-templates": "viewer",
+  "/workflow-report": "viewer",
+  "/accounts": "operator",
+  "/contact-manager": "operator",
+  "/single-contact": "operator",
+  "/bulk-contacts": "operator",
+  "/scheduled-jobs": "operator",
+  "/template-library": "operator",
+  "/bigin-test": "operator",
+  "/bulk-contacts-bigin": "operator",
+  "/email-stats-bigin": "viewer",
+  "/users": "admin",
+  "/audit": "admin",
+};
+
+export function canViewPage(role: UserRole | undefined | null, path: string) {
+  return hasRole(role, PAGE_ROLES[path] ?? "admin");
+}
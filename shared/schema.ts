@@ -1,16 +1,24 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, bigint, boolean, primaryKey, integer, jsonb, timestamp, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Ordered from least to most privileged (see shared/permissions.ts). Admins see
+// every Zoho account and manage users; everyone else only sees the accounts
+// assigned to them. Viewers can only read reports.
+export const USER_ROLES = ["viewer", "operator", "admin"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("operator"),
 });
 
 export const accounts = pgTable("accounts", {
-  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  // bigint so accounts imported from accounts.json keep their Date.now() ids
+  id: bigint("id", { mode: "number" }).primaryKey().generatedByDefaultAsIdentity(),
   name: text("name").notNull(),
   client_id: text("client_id").notNull(),
   client_secret: text("client_secret").notNull(),
@@ -19,11 +27,56 @@ export const accounts = pgTable("accounts", {
   supports_bigin: boolean("supports_bigin").default(false),
   // NEW: Flag for CRM (Default true for backward compatibility)
   supports_crm: boolean("supports_crm").default(true),
+  // Zoho data center key (us, eu, in, ...); see shared/zohoDataCenters.ts
+  data_center: text("data_center").default("us"),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+// Which Zoho accounts each user may work with.
+export const userAccounts = pgTable("user_accounts", {
+  user_id: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  account_id: bigint("account_id", { mode: "number" }).notNull().references(() => accounts.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.user_id, table.account_id] }),
+]);
+
+// Append-only record of every Zoho write and sensitive read (see server/audit.ts).
+export const AUDIT_ACTIONS = [
+  "account.create", "account.update", "account.delete", "account.token_view",
+  "contact.create", "contact.delete", "contact.restore",
+  "zoho_user.update",
+  "template.create", "template.update", "template.delete",
+  "job.start", "job.pause", "job.resume", "job.stop", "job.cancel",
+  "quota.update",
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const auditLog = pgTable("audit_log", {
+  id: bigint("id", { mode: "number" }).primaryKey().generatedByDefaultAsIdentity(),
+  created_at: timestamp("created_at", { withTimezone: true, mode: "string" }).notNull().defaultNow(),
+  actor_id: varchar("actor_id"),
+  actor_username: text("actor_username").notNull(),
+  action: text("action").$type<AuditAction>().notNull(),
+  account_id: bigint("account_id", { mode: "number" }),
+  target_ids: jsonb("target_ids").$type<string[]>().notNull().default([]),
+  summary: text("summary").notNull(),
+  success: boolean("success").notNull(),
+  // HTTP status of the Zoho call and the code Zoho returned (e.g. SUCCESS, INVALID_DATA), when there was one
+  status_code: integer("status_code"),
+  zoho_code: text("zoho_code"),
+}, (table) => [
+  index("audit_log_created_at_idx").on(table.created_at),
+  index("audit_log_account_id_idx").on(table.account_id),
+]);
+
+// Placeholder the API returns instead of an account's client secret and refresh token.
+export const REDACTED_SECRET = "********";
+
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(USER_ROLES).optional(),
+}).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export const insertAccountSchema = createInsertSchema(accounts).omit({
@@ -32,5 +85,19 @@ export const insertAccountSchema = createInsertSchema(accounts).omit({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user; the password hash never leaves the server.
+export type PublicUser = Omit<User, "password"> & { account_ids: number[] };
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
-export type Account = typeof accounts.$inferSelect;
\ No newline at end of file
+export type Account = typeof accounts.$inferSelect;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = Omit<typeof auditLog.$inferInsert, "id" | "created_at">;
+
+export interface AuditFilter {
+  action?: AuditAction;
+  accountId?: number;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
\ No newline at end of file
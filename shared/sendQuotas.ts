@@ -0,0 +1,97 @@
+// Email send quotas: how many emails an account, and each of its from addresses, may
+// send per hour and per day. Zoho caps both per org and per user, so JobManager holds a
+// job back once a quota is used up instead of letting Zoho reject the rest of it.
+// Hours and days are rolling: the last 60 minutes and the last 24 hours.
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+export const MAX_SEND_QUOTA = 1000000;
+
+// An absent limit means no limit
+export interface SendQuotaLimits {
+  hourly?: number;
+  daily?: number;
+}
+
+export interface SendQuotaSettings {
+  account: SendQuotaLimits;
+  // Applies to each from address on its own
+  fromAddress: SendQuotaLimits;
+}
+
+export interface SendQuotaUsage {
+  sentLastHour: number;
+  sentLastDay: number;
+  // Absent when the matching limit is not set
+  remainingHourly?: number;
+  remainingDaily?: number;
+  // When the next email may go out, if a quota is used up now
+  availableAt?: number;
+}
+
+export interface SendQuotaStatus {
+  settings: SendQuotaSettings;
+  account: SendQuotaUsage;
+  // Keyed by from address, for every address that sent in the last 24 hours
+  fromAddresses: Record<string, SendQuotaUsage>;
+}
+
+export const EMPTY_SEND_QUOTAS: SendQuotaSettings = { account: {}, fromAddress: {} };
+
+function parseLimit(value: any, label: string): { value?: number; error?: string } {
+  if (value === undefined || value === null || value === '') return {};
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEND_QUOTA) {
+    return { error: `${label} must be a whole number from 1 to ${MAX_SEND_QUOTA}, or empty for no limit.` };
+  }
+  return { value: limit };
+}
+
+function parseLimits(body: any, label: string): { limits?: SendQuotaLimits; error?: string } {
+  if (body !== undefined && (body === null || typeof body !== 'object')) return { error: `Invalid ${label} quotas.` };
+  const hourly = parseLimit(body?.hourly, `The ${label} hourly quota`);
+  if (hourly.error) return { error: hourly.error };
+  const daily = parseLimit(body?.daily, `The ${label} daily quota`);
+  if (daily.error) return { error: daily.error };
+  if (hourly.value && daily.value && hourly.value > daily.value) {
+    return { error: `The ${label} hourly quota is larger than its daily quota.` };
+  }
+  const limits: SendQuotaLimits = {};
+  if (hourly.value) limits.hourly = hourly.value;
+  if (daily.value) limits.daily = daily.value;
+  return { limits };
+}
+
+export function parseSendQuotaSettings(body: any): { settings?: SendQuotaSettings; error?: string } {
+  if (!body || typeof body !== 'object') return { error: 'Invalid quota settings.' };
+  const account = parseLimits(body.account, 'account');
+  if (account.error) return { error: account.error };
+  const fromAddress = parseLimits(body.fromAddress, 'from address');
+  if (fromAddress.error) return { error: fromAddress.error };
+  return { settings: { account: account.limits!, fromAddress: fromAddress.limits! } };
+}
+
+// Usage of one quota pair, given the send times (ascending) that count against it
+export function quotaUsage(sends: number[], limits: SendQuotaLimits, now: number = Date.now()): SendQuotaUsage {
+  const lastDay = sends.filter(at => at > now - DAY_MS);
+  const lastHour = lastDay.filter(at => at > now - HOUR_MS);
+  const usage: SendQuotaUsage = { sentLastHour: lastHour.length, sentLastDay: lastDay.length };
+  let availableAt = now;
+  // A used-up quota frees a slot when its oldest counted send leaves the window
+  if (limits.hourly) {
+    usage.remainingHourly = Math.max(0, limits.hourly - lastHour.length);
+    if (usage.remainingHourly === 0) availableAt = Math.max(availableAt, lastHour[lastHour.length - limits.hourly] + HOUR_MS);
+  }
+  if (limits.daily) {
+    usage.remainingDaily = Math.max(0, limits.daily - lastDay.length);
+    if (usage.remainingDaily === 0) availableAt = Math.max(availableAt, lastDay[lastDay.length - limits.daily] + DAY_MS);
+  }
+  if (availableAt > now) usage.availableAt = availableAt;
+  return usage;
+}
+
+// The smaller of the remaining counts, or undefined without limits
+export function remainingSends(usage: SendQuotaUsage): number | undefined {
+  const remaining = [usage.remainingHourly, usage.remainingDaily].filter((value): value is number => value !== undefined);
+  return remaining.length > 0 ? Math.min(...remaining) : undefined;
+}
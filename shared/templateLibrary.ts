@@ -0,0 +1,144 @@
+// Local email template library: subjects and bodies saved on the server per account
+// (server/templateLibrary.ts), separate from the templates stored in Zoho. Saving a new
+// subject or body adds a version, so earlier versions can be compared and brought back.
+
+export const MAX_TEMPLATE_NAME_LENGTH = 120;
+export const MAX_TEMPLATE_TAGS = 20;
+export const MAX_TEMPLATE_TAG_LENGTH = 40;
+export const MAX_TEMPLATE_BODY_LENGTH = 500000;
+
+export interface LibraryTemplateVersion {
+  // 1 for the first save, counting up
+  version: number;
+  subject: string;
+  html: string;
+  // Plain-text alternative of the HTML body
+  text: string;
+  savedAt: number;
+  savedBy: string;
+}
+
+export interface LibraryTemplate {
+  id: string;
+  accountId: number;
+  name: string;
+  tags: string[];
+  createdAt: number;
+  createdBy: string;
+  updatedAt: number;
+  updatedBy: string;
+  // Oldest first; the last one is the current content
+  versions: LibraryTemplateVersion[];
+}
+
+// A template in the library list, with its current subject instead of the versions
+export interface LibraryTemplateSummary extends Omit<LibraryTemplate, 'versions'> {
+  version: number;
+  subject: string;
+}
+
+export interface LibraryTemplateInput {
+  name: string;
+  tags: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Trimmed, without blanks, and each tag once regardless of case
+export function normalizeTemplateTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags.map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function parseLibraryTemplateInput(body: any): { input?: LibraryTemplateInput; error?: string } {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) return { error: 'Name is required.' };
+  if (name.length > MAX_TEMPLATE_NAME_LENGTH) return { error: `Name must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters.` };
+
+  const rawTags = body?.tags ?? [];
+  if (!Array.isArray(rawTags) || rawTags.some((tag: any) => typeof tag !== 'string')) return { error: 'Tags must be a list of strings.' };
+  const tags = normalizeTemplateTags(rawTags);
+  if (tags.length > MAX_TEMPLATE_TAGS) return { error: `Use at most ${MAX_TEMPLATE_TAGS} tags.` };
+  if (tags.some(tag => tag.length > MAX_TEMPLATE_TAG_LENGTH)) return { error: `Tags must be at most ${MAX_TEMPLATE_TAG_LENGTH} characters.` };
+
+  for (const key of ['subject', 'html', 'text'] as const) {
+    if (body?.[key] !== undefined && typeof body[key] !== 'string') return { error: `Invalid ${key}.` };
+    if ((body?.[key] || '').length > MAX_TEMPLATE_BODY_LENGTH) return { error: `The ${key} is too long.` };
+  }
+  const subject = (body?.subject || '').trim();
+  const html = body?.html || '';
+  if (!subject) return { error: 'Subject is required.' };
+  if (!html.trim()) return { error: 'The HTML body is required.' };
+
+  return { input: { name, tags, subject, html, text: body?.text || '' } };
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'", nbsp: ' ' };
+
+// A readable plain-text version of an HTML body: paragraphs and line breaks kept,
+// list items bulleted and links followed by their address.
+export function htmlToText(html: string): string {
+  return (html || '')
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const text = label.replace(/<[^>]+>/g, '').trim();
+      return !href || href.startsWith('mailto:') || text === href ? text || href : `${text} (${href})`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|table|tr|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#39|[a-z]+);/gi, (match, entity: string) => ENTITIES[entity.toLowerCase()] ?? match)
+    .split('\n').map(line => line.replace(/[ \t]+/g, ' ').trim()).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many line pairs the diff falls back to "everything removed, everything added"
+const MAX_DIFF_CELLS = 4000000;
+
+// Line diff from `before` to `after` (longest common subsequence).
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text }))];
+  }
+
+  // common[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
@@ -0,0 +1,36 @@
+// Zoho hosts each org in one data center; OAuth and API calls must go to that
+// region's hosts. https://www.zoho.com/crm/developer/docs/api/v8/multi-dc.html
+export const ZOHO_DATA_CENTERS = {
+  us: { label: 'United States (.com)', accountsUrl: 'https://accounts.zoho.com', apiDomain: 'https://www.zohoapis.com' },
+  eu: { label: 'Europe (.eu)', accountsUrl: 'https://accounts.zoho.eu', apiDomain: 'https://www.zohoapis.eu' },
+  in: { label: 'India (.in)', accountsUrl: 'https://accounts.zoho.in', apiDomain: 'https://www.zohoapis.in' },
+  au: { label: 'Australia (.com.au)', accountsUrl: 'https://accounts.zoho.com.au', apiDomain: 'https://www.zohoapis.com.au' },
+  jp: { label: 'Japan (.jp)', accountsUrl: 'https://accounts.zoho.jp', apiDomain: 'https://www.zohoapis.jp' },
+  ca: { label: 'Canada (.ca)', accountsUrl: 'https://accounts.zohocloud.ca', apiDomain: 'https://www.zohoapis.ca' },
+  cn: { label: 'China (.com.cn)', accountsUrl: 'https://accounts.zoho.com.cn', apiDomain: 'https://www.zohoapis.com.cn' },
+} as const;
+
+export type ZohoDataCenter = keyof typeof ZOHO_DATA_CENTERS;
+
+export const DEFAULT_DATA_CENTER: ZohoDataCenter = 'us';
+
+export function isZohoDataCenter(value: unknown): value is ZohoDataCenter {
+  // Own keys only: `in` would also accept inherited names like "toString"
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ZOHO_DATA_CENTERS, value);
+}
+
+// Accounts saved before data centers were tracked have none and live in the US DC.
+export function getDataCenter(value?: string | null) {
+  return ZOHO_DATA_CENTERS[isZohoDataCenter(value) ? value : DEFAULT_DATA_CENTER];
+}
+
+// Maps the `accounts-server` / `api_domain` values Zoho sends during OAuth back
+// to a known data center. Unknown hosts return undefined so we never send
+// credentials to a server outside the list above.
+export function detectDataCenter(host?: string | null): ZohoDataCenter | undefined {
+  if (!host) return undefined;
+  const origin = host.replace(/\/+$/, '').toLowerCase();
+  return (Object.keys(ZOHO_DATA_CENTERS) as ZohoDataCenter[]).find(dc =>
+    ZOHO_DATA_CENTERS[dc].accountsUrl === origin || ZOHO_DATA_CENTERS[dc].apiDomain === origin
+  );
+}
@@ -0,0 +1,140 @@
+import type { ZohoField } from "./zohoFields";
+
+// Turns custom field values from the contact forms into what Zoho accepts for each
+// data type, collecting a readable error per field instead. Used by the forms before
+// a job starts and again by the server when the job is submitted.
+
+export interface PreparedFieldValues {
+  // Zoho-ready values keyed by api_name; empty optional fields are left out
+  values: Record<string, any>;
+  // Error message keyed by api_name
+  errors: Record<string, string>;
+}
+
+// A lookup value as the forms keep it; Zoho only needs the id.
+export interface LookupValue {
+  id: string;
+  name?: string;
+}
+
+const INTEGER_TYPES = ['integer', 'bigint'];
+const DECIMAL_TYPES = ['double', 'currency', 'decimal', 'percent'];
+const LOOKUP_TYPES = ['lookup', 'ownerlookup', 'userlookup'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Zoho wants seconds and a UTC offset, e.g. 2024-05-01T09:30:00+02:00
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}([+-]\d{2}:\d{2}|Z)$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const WEBSITE_PATTERN = /^(https?:\/\/)?[^\s.\/]+(\.[^\s.\/]+)+(\/\S*)?$/i;
+const PHONE_PATTERN = /^[+\d\s().\-\/x]{3,30}$/i;
+
+export function isEmptyFieldValue(value: unknown) {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Formats a <input type="datetime-local"> value ("2024-05-01T09:30") with the browser's offset.
+export function toZohoDateTime(localValue: string): string {
+  if (!localValue) return '';
+  const offsetMinutes = -new Date(localValue).getTimezoneOffset();
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const pad = (n: number) => String(Math.floor(Math.abs(n))).padStart(2, '0');
+  const seconds = localValue.length === 16 ? ':00' : '';
+  return `${localValue}${seconds}${sign}${pad(offsetMinutes / 60)}:${pad(offsetMinutes % 60)}`;
+}
+
+function allowedPicklistValues(field: ZohoField) {
+  return field.pick_list_values.map(option => option.actual_value);
+}
+
+// Returns the Zoho-ready value, or throws an Error whose message is shown to the user.
+function convertValue(field: ZohoField, value: any): any {
+  const label = field.display_label;
+  const type = field.data_type;
+
+  if (INTEGER_TYPES.includes(type)) {
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isInteger(number)) throw new Error(`${label} must be a whole number.`);
+    return number;
+  }
+
+  if (DECIMAL_TYPES.includes(type)) {
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isFinite(number)) throw new Error(`${label} must be a number.`);
+    return number;
+  }
+
+  if (type === 'boolean') {
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+    throw new Error(`${label} must be true or false.`);
+  }
+
+  if (type === 'picklist') {
+    const allowed = allowedPicklistValues(field);
+    if (allowed.length > 0 && !allowed.includes(value)) throw new Error(`${label} must be one of the listed options.`);
+    return value;
+  }
+
+  if (type === 'multiselectpicklist') {
+    if (!Array.isArray(value)) throw new Error(`${label} must be a list of options.`);
+    const allowed = allowedPicklistValues(field);
+    if (allowed.length > 0 && value.some(item => !allowed.includes(item))) {
+      throw new Error(`${label} contains an option that is not listed.`);
+    }
+    return value;
+  }
+
+  if (type === 'date') {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+      throw new Error(`${label} must be a date (YYYY-MM-DD).`);
+    }
+    return value;
+  }
+
+  if (type === 'datetime') {
+    if (typeof value !== 'string' || !DATETIME_PATTERN.test(value) || isNaN(Date.parse(value))) {
+      throw new Error(`${label} must be a date and time.`);
+    }
+    return value;
+  }
+
+  if (LOOKUP_TYPES.includes(type)) {
+    const id = typeof value === 'object' ? value?.id : value;
+    if (!id || (typeof id !== 'string' && typeof id !== 'number')) throw new Error(`Select a record for ${label}.`);
+    return { id: String(id) };
+  }
+
+  if (typeof value !== 'string') throw new Error(`${label} must be text.`);
+  if (field.max_length && value.length > field.max_length) {
+    throw new Error(`${label} must be at most ${field.max_length} characters.`);
+  }
+  if (type === 'email' && !EMAIL_PATTERN.test(value)) throw new Error(`${label} must be an email address.`);
+  if (type === 'website' && !WEBSITE_PATTERN.test(value)) throw new Error(`${label} must be a web address.`);
+  if (type === 'phone' && !PHONE_PATTERN.test(value)) throw new Error(`${label} must be a phone number.`);
+  return value;
+}
+
+export function prepareFieldValues(fields: ZohoField[], input: Record<string, any>): PreparedFieldValues {
+  const values: Record<string, any> = {};
+  const errors: Record<string, string> = {};
+
+  for (const [apiName, rawValue] of Object.entries(input)) {
+    const field = fields.find(f => f.api_name === apiName);
+    if (!field) {
+      errors[apiName] = `${apiName} is not a field of this module.`;
+      continue;
+    }
+    const value = typeof rawValue === 'string' ? rawValue.trim() : rawValue;
+    if (isEmptyFieldValue(value)) {
+      if (field.required) errors[apiName] = `${field.display_label} is required.`;
+      continue;
+    }
+    try {
+      values[apiName] = convertValue(field, value);
+    } catch (error: any) {
+      errors[apiName] = error.message;
+    }
+  }
+
+  return { values, errors };
+}
@@ -0,0 +1,36 @@
+// Field metadata for a Zoho CRM or Bigin module, normalized by server/fieldMetadata.ts
+// so the forms do not depend on the shape of either product's settings/fields API.
+
+export interface ZohoPicklistValue {
+  display_value: string;
+  actual_value: string;
+}
+
+export interface ZohoFieldLookup {
+  // API name of the module the lookup points at, e.g. "Accounts"
+  module: string;
+  display_label: string | null;
+}
+
+export interface ZohoField {
+  api_name: string;
+  display_label: string;
+  // Zoho data type: text, email, phone, picklist, multiselectpicklist, boolean, integer,
+  // double, currency, date, datetime, lookup, textarea, website, ...
+  data_type: string;
+  custom_field: boolean;
+  required: boolean;
+  read_only: boolean;
+  // Shown on Zoho's create form; the add-field pickers only offer these
+  creatable: boolean;
+  max_length: number | null;
+  pick_list_values: ZohoPicklistValue[];
+  lookup: ZohoFieldLookup | null;
+}
+
+export interface ZohoFieldsResponse {
+  module: string;
+  fields: ZohoField[];
+  // When the metadata was fetched from Zoho (it is cached on the server)
+  fetched_at: string;
+}